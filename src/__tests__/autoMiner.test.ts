@@ -0,0 +1,32 @@
+import { getAutoMinerStatus, startAutoMiner, stopAutoMiner } from '../autoMiner';
+
+beforeAll(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+	jest.restoreAllMocks();
+});
+
+describe('autoMiner', () => {
+	it('is stopped until started', () => {
+		expect(getAutoMinerStatus()).toMatchObject({
+			running: false,
+			address: null,
+			blocksFound: 0,
+			hashrate: 0,
+			template: null,
+		});
+	});
+
+	it('refuses an invalid miner address', () => {
+		expect(() => startAutoMiner({ address: 'not an address' })).toThrow(
+			'Invalid miner address'
+		);
+		expect(getAutoMinerStatus().running).toBe(false);
+	});
+
+	it('cannot be stopped when it is not running', () => {
+		expect(() => stopAutoMiner()).toThrow('The auto-miner is not running');
+	});
+});
@@ -0,0 +1,118 @@
+import { Block } from '../block';
+import { MemoryBlockStore } from '../blockStore';
+import { getBlockTips, receiveBlocks } from '../blockTree';
+import { addBlock, getBlockchain, getLastBlock, initBlockchain, replaceChain } from '../blockchain';
+import { selectChainParams } from '../chainParams';
+import { IntervalDifficultyPolicy } from '../difficulty';
+import { mineTestBlock, mineTestBlocks } from './helpers/chain';
+
+// Retargets after every second block, so blocks a second apart raise the difficulty quickly
+const difficulty = new IntervalDifficultyPolicy({ blockTime: 10, interval: 2 });
+
+// Difficulties the policy expects for the first blocks after the regtest genesis block
+const EXPECTED_DIFFICULTIES = [0, 0, 1, 1, 2];
+
+const init = (store = new MemoryBlockStore()) => {
+	initBlockchain({ store, difficulty });
+};
+
+beforeAll(() => {
+	selectChainParams({ network: 'regtest' });
+});
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+	init();
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('addBlock', () => {
+	it('accepts blocks with the difficulty the policy expects', () => {
+		const blocks = mineTestBlocks({
+			previous: getLastBlock(),
+			difficulties: EXPECTED_DIFFICULTIES,
+		});
+
+		blocks.forEach((newBlock) => expect(addBlock({ newBlock })).toBe(true));
+		expect(getBlockchain()).toHaveLength(EXPECTED_DIFFICULTIES.length + 1);
+	});
+
+	it('refuses a block declaring an easier difficulty than expected', () => {
+		mineTestBlocks({ previous: getLastBlock(), difficulties: [0, 0] }).forEach((newBlock) =>
+			addBlock({ newBlock })
+		);
+
+		expect(
+			addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) })
+		).toBe(false);
+	});
+
+	it('refuses a block declaring a heavier difficulty than expected, even if its hash meets it', () => {
+		expect(
+			addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 6 }) })
+		).toBe(false);
+	});
+});
+
+describe('replaceChain', () => {
+	it('refuses a heavier chain whose blocks declare their own difficulty', () => {
+		const genesis = getLastBlock();
+		const heavyChain = [
+			genesis,
+			...mineTestBlocks({ previous: genesis, difficulties: [6, 6] }),
+		];
+
+		expect(replaceChain(heavyChain)).toBe(false);
+		expect(getBlockchain()).toHaveLength(1);
+	});
+
+	it('switches to a heavier chain with the expected difficulties', () => {
+		const genesis = getLastBlock();
+		addBlock({ newBlock: mineTestBlock({ previous: genesis, difficulty: 0 }) });
+
+		const chain = [genesis, ...mineTestBlocks({ previous: genesis, difficulties: [0, 0] })];
+
+		expect(replaceChain(chain)).toBe(true);
+		expect(getLastBlock().hash).toBe(chain[2].hash);
+	});
+});
+
+describe('initBlockchain', () => {
+	it('truncates a stored chain at the first block with an unexpected difficulty', () => {
+		const store = new MemoryBlockStore();
+		const genesis = getLastBlock();
+		const [first, second] = mineTestBlocks({ previous: genesis, difficulties: [0, 0] });
+		const third = mineTestBlock({ previous: second, difficulty: 0 });
+
+		[genesis, first, second, third].forEach((block: Block) => store.append(block, []));
+		init(store);
+
+		expect(getBlockchain().map((block) => block.hash)).toEqual([
+			genesis.hash,
+			first.hash,
+			second.hash,
+		]);
+		expect(store.load()).toHaveLength(3);
+	});
+});
+
+describe('receiveBlocks', () => {
+	it('marks a branch declaring its own difficulty invalid instead of switching to it', () => {
+		const genesis = getLastBlock();
+		const active = mineTestBlocks({ previous: genesis, difficulties: [0, 0] });
+		active.forEach((newBlock) => addBlock({ newBlock }));
+
+		const heavyBranch = mineTestBlocks({ previous: genesis, difficulties: [8] });
+		const { activated } = receiveBlocks({ blocks: heavyBranch });
+
+		expect(activated).toBe(false);
+		expect(getLastBlock().hash).toBe(active[1].hash);
+		expect(getBlockTips().find((tip) => tip.hash === heavyBranch[0].hash)?.status).toBe(
+			'invalid'
+		);
+	});
+});
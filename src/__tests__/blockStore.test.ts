@@ -0,0 +1,130 @@
+import { appendFileSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Block, CURRENT_BLOCK_VERSION } from '../block';
+import { UnspentTxOut } from '../transaction';
+import { FileBlockStore, MemoryBlockStore, createBlockStore } from '../blockStore';
+
+let directory: string;
+
+/**
+ * Builds a chain of blocks, each carrying a payload of the given size so segments fill up.
+ *
+ * @param count The number of blocks.
+ * @param payloadSize The size of the payload of each block, in bytes.
+ *
+ * @returns The blocks.
+ */
+const buildBlocks = (count: number, payloadSize = 10): Block[] =>
+	Array.from(
+		{ length: count },
+		(_, index) =>
+			new Block({
+				version: CURRENT_BLOCK_VERSION,
+				index,
+				timestamp: 1734667274522 + index,
+				transactions: [],
+				hash: `hash-${index}-${'x'.repeat(payloadSize)}`,
+				previousHash: index === 0 ? '' : `hash-${index - 1}-${'x'.repeat(payloadSize)}`,
+				difficulty: 0,
+				proof: 0,
+			})
+	);
+
+beforeEach(() => {
+	directory = mkdtempSync(join(tmpdir(), 'blocks-'));
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	rmSync(directory, { recursive: true, force: true });
+	jest.restoreAllMocks();
+});
+
+describe('FileBlockStore', () => {
+	it('loads the appended blocks back after a restart', () => {
+		const blocks = buildBlocks(5);
+		const store = new FileBlockStore({ directory });
+		blocks.forEach((block) => store.append(block, []));
+
+		expect(new FileBlockStore({ directory }).load()).toEqual(blocks);
+	});
+
+	it('starts a new segment once the current one is full', () => {
+		const blocks = buildBlocks(3, 5 * 1024 * 1024);
+		const store = new FileBlockStore({ directory });
+		blocks.forEach((block) => store.append(block, []));
+
+		expect(readdirSync(directory).filter((file) => file.startsWith('blk'))).toHaveLength(3);
+		expect(new FileBlockStore({ directory }).load()).toEqual(blocks);
+	});
+
+	it('removes the blocks from a height onwards, across segments', () => {
+		const blocks = buildBlocks(3, 5 * 1024 * 1024);
+		const store = new FileBlockStore({ directory });
+		blocks.forEach((block) => store.append(block, []));
+
+		store.truncate(1);
+
+		expect(statSync(join(directory, 'blk00001.dat')).size).toBe(0);
+		expect(readdirSync(directory)).not.toContain('blk00002.dat');
+		expect(new FileBlockStore({ directory }).load()).toEqual(blocks.slice(0, 1));
+	});
+
+	it('reads back the undo data of each block', () => {
+		const blocks = buildBlocks(3);
+		const undo = new UnspentTxOut({ txOutId: 'a', txOutIndex: 0, address: 'b', amount: 50 });
+		const store = new FileBlockStore({ directory });
+		blocks.forEach((block, index) => store.append(block, index === 2 ? [undo] : []));
+
+		const reopened = new FileBlockStore({ directory });
+
+		expect(reopened.loadUndo(1)).toEqual([]);
+		expect(reopened.loadUndo(2)).toEqual([undo]);
+		expect(reopened.loadUndo(3)).toBeNull();
+	});
+
+	it('ignores an incomplete index record left by an interrupted write', () => {
+		const blocks = buildBlocks(2);
+		const store = new FileBlockStore({ directory });
+		blocks.forEach((block) => store.append(block, []));
+
+		appendFileSync(join(directory, 'index.dat'), '{"hash":"hash-2');
+
+		expect(new FileBlockStore({ directory }).load()).toEqual(blocks);
+	});
+
+	it('drops the blocks from the first one not matching its index entry', () => {
+		const blocks = buildBlocks(3);
+		const store = new FileBlockStore({ directory });
+		blocks.forEach((block) => store.append(block, []));
+
+		// A block stored under the wrong height is cut off on load
+		store.append({ ...blocks[0], index: 7 }, []);
+
+		expect(new FileBlockStore({ directory }).load()).toEqual(blocks);
+		expect(readFileSync(join(directory, 'index.dat'), 'utf8').trim().split('\n')).toHaveLength(
+			3
+		);
+	});
+});
+
+describe('MemoryBlockStore', () => {
+	it('keeps the blocks until truncated', () => {
+		const blocks = buildBlocks(3);
+		const store = new MemoryBlockStore();
+		blocks.forEach((block) => store.append(block, []));
+
+		store.truncate(2);
+
+		expect(store.load()).toEqual(blocks.slice(0, 2));
+	});
+});
+
+describe('createBlockStore', () => {
+	it('refuses an unknown store type', () => {
+		expect(() => createBlockStore({ type: 'leveldb', dataDir: directory })).toThrow(
+			'Unknown block store type: leveldb'
+		);
+	});
+});
@@ -0,0 +1,172 @@
+import WebSocket from 'ws';
+import { MemoryBlockStore } from '../blockStore';
+import {
+	MAX_BLOCK_HASHES,
+	MAX_BLOCKS_PER_BATCH,
+	addBlockHashes,
+	completeBlockBatch,
+	expireBlockBatch,
+	getSyncStatus,
+	releasePeer,
+	takeBlockBatch,
+	takeContinuations,
+} from '../blockSync';
+import {
+	addBlock,
+	getBlockHashesAfter,
+	getBlockLocator,
+	getBlockchain,
+	getLastBlock,
+	initBlockchain,
+} from '../blockchain';
+import { selectChainParams } from '../chainParams';
+import { mineTestBlock } from './helpers/chain';
+
+// Peers are only used as keys, so plain objects stand in for sockets
+const peerA = {} as WebSocket;
+const peerB = {} as WebSocket;
+
+const announce = (count: number, prefix: string) =>
+	Array.from({ length: count }, (_, i) => `${prefix}-${i}`);
+
+/**
+ * Drains the sync state left by a test.
+ */
+const drain = () => {
+	[peerA, peerB].forEach((peer) => releasePeer({ peer }));
+	while (takeBlockBatch({ peer: peerA }).length > 0) completeBlockBatch({ peer: peerA });
+	takeContinuations();
+};
+
+beforeAll(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	// Every regtest block is mined at difficulty 0
+	selectChainParams({ network: 'regtest' });
+	initBlockchain({ store: new MemoryBlockStore() });
+	jest.restoreAllMocks();
+});
+
+afterEach(drain);
+
+describe('block locator', () => {
+	beforeAll(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+		while (getLastBlock().index < 30)
+			addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) });
+		jest.restoreAllMocks();
+	});
+
+	it('lists the last ten blocks one by one, then with a doubling step', () => {
+		const chain = getBlockchain();
+		const indexes = getBlockLocator().map((hash) =>
+			chain.findIndex((block) => block.hash === hash)
+		);
+
+		expect(indexes).toEqual([30, 29, 28, 27, 26, 25, 24, 23, 22, 21, 19, 15, 7, 0]);
+	});
+
+	it('lets a peer find the fork point and the hashes after it', () => {
+		const chain = getBlockchain();
+		const locator = ['a'.repeat(64), chain[12].hash, chain[0].hash];
+
+		expect(getBlockHashesAfter({ locator, limit: 3 })).toEqual(
+			chain.slice(13, 16).map((block) => block.hash)
+		);
+		expect(getBlockHashesAfter({ locator: ['c'.repeat(64)], limit: 2 })).toEqual(
+			chain.slice(1, 3).map((block) => block.hash)
+		);
+	});
+});
+
+describe('block download', () => {
+	it('hands out bounded batches, one per peer at a time', () => {
+		addBlockHashes({ peer: peerA, hashes: announce(MAX_BLOCKS_PER_BATCH + 10, 'a') });
+
+		expect(takeBlockBatch({ peer: peerA })).toHaveLength(MAX_BLOCKS_PER_BATCH);
+		expect(takeBlockBatch({ peer: peerA })).toEqual([]);
+		expect(takeBlockBatch({ peer: peerB })).toHaveLength(10);
+		expect(getSyncStatus()).toEqual({
+			pendingBlocks: 0,
+			inFlightBlocks: MAX_BLOCKS_PER_BATCH + 10,
+			syncingPeers: 2,
+			moreHashes: false,
+		});
+	});
+
+	it('skips hashes already queued or in flight', () => {
+		addBlockHashes({ peer: peerA, hashes: announce(3, 'a') });
+		takeBlockBatch({ peer: peerA });
+		addBlockHashes({ peer: peerB, hashes: announce(4, 'a') });
+
+		expect(takeBlockBatch({ peer: peerB })).toEqual(['a-3']);
+	});
+
+	it('requeues the batch of a disconnected peer for the other peers', () => {
+		addBlockHashes({ peer: peerA, hashes: announce(3, 'a') });
+		const batch = takeBlockBatch({ peer: peerA });
+
+		releasePeer({ peer: peerA });
+
+		expect(takeBlockBatch({ peer: peerB })).toEqual(batch);
+	});
+});
+
+describe('block batch timeout', () => {
+	it('requeues a batch the peer did not send in time', () => {
+		addBlockHashes({ peer: peerA, hashes: announce(3, 'a') });
+		const batch = takeBlockBatch({ peer: peerA });
+
+		expect(expireBlockBatch({ peer: peerA, batch })).toBe(true);
+		expect(takeBlockBatch({ peer: peerB })).toEqual(batch);
+	});
+
+	it('leaves a batch alone once the peer sent it', () => {
+		addBlockHashes({ peer: peerA, hashes: announce(3, 'a') });
+		const batch = takeBlockBatch({ peer: peerA });
+		completeBlockBatch({ peer: peerA });
+
+		expect(expireBlockBatch({ peer: peerA, batch })).toBe(false);
+		expect(getSyncStatus().pendingBlocks).toBe(0);
+	});
+
+	it('leaves the next batch of the peer alone', () => {
+		addBlockHashes({ peer: peerA, hashes: announce(MAX_BLOCKS_PER_BATCH + 1, 'a') });
+		const first = takeBlockBatch({ peer: peerA });
+		completeBlockBatch({ peer: peerA });
+		takeBlockBatch({ peer: peerA });
+
+		expect(expireBlockBatch({ peer: peerA, batch: first })).toBe(false);
+		expect(getSyncStatus().inFlightBlocks).toBe(1);
+	});
+});
+
+describe('continuations', () => {
+	it('are kept for each peer that announced a full batch of hashes', () => {
+		const hashesA = announce(MAX_BLOCK_HASHES, 'a');
+		const hashesB = announce(MAX_BLOCK_HASHES, 'b');
+		addBlockHashes({ peer: peerA, hashes: hashesA });
+		addBlockHashes({ peer: peerB, hashes: hashesB });
+
+		expect(getSyncStatus().moreHashes).toBe(true);
+		expect(takeContinuations()).toEqual([]);
+
+		while (takeBlockBatch({ peer: peerB }).length > 0) completeBlockBatch({ peer: peerB });
+
+		expect(takeContinuations()).toEqual([
+			{ peer: peerA, hash: hashesA[MAX_BLOCK_HASHES - 1] },
+			{ peer: peerB, hash: hashesB[MAX_BLOCK_HASHES - 1] },
+		]);
+		expect(takeContinuations()).toEqual([]);
+	});
+
+	it('are dropped when the peer announces its last hashes or disconnects', () => {
+		addBlockHashes({ peer: peerA, hashes: announce(MAX_BLOCK_HASHES, 'a') });
+		addBlockHashes({ peer: peerA, hashes: [] });
+		addBlockHashes({ peer: peerB, hashes: announce(MAX_BLOCK_HASHES, 'b') });
+		releasePeer({ peer: peerB });
+
+		while (takeBlockBatch({ peer: peerA }).length > 0) completeBlockBatch({ peer: peerA });
+
+		expect(takeContinuations()).toEqual([]);
+	});
+});
@@ -0,0 +1,81 @@
+import { MemoryBlockStore } from '../blockStore';
+import { getBlockTemplate, getLastBlock, initBlockchain, submitBlock } from '../blockchain';
+import { Block } from '../block';
+import { MiningJobData } from '../miner';
+import { checkHashDifficulty, generateHash } from '../proofOfWork';
+import { MINER_ADDRESS } from './helpers/chain';
+
+/**
+ * Solves a block template the way an external miner does.
+ *
+ * @param template The block template.
+ *
+ * @returns The solved block.
+ */
+const solveTemplate = (template: MiningJobData): Block => {
+	for (let proof = 0; ; proof++) {
+		const hash = generateHash({ ...template, proof });
+
+		if (checkHashDifficulty(hash, template.difficulty))
+			return new Block({ ...template, hash, proof });
+	}
+};
+
+describe('block template', () => {
+	beforeEach(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+
+		initBlockchain({ store: new MemoryBlockStore() });
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('refuses an invalid address', () => {
+		expect(() => getBlockTemplate({ address: 'not an address' })).toThrow('Invalid address');
+	});
+
+	it('extends the tip with a coinbase paying the address', () => {
+		const template = getBlockTemplate({ address: MINER_ADDRESS });
+
+		expect(template.index).toBe(getLastBlock().index + 1);
+		expect(template.previousHash).toBe(getLastBlock().hash);
+		expect(template.transactions[0].txOuts[0].address).toBe(MINER_ADDRESS);
+	});
+
+	it('accepts a solved template', () => {
+		const block = solveTemplate(getBlockTemplate({ address: MINER_ADDRESS }));
+
+		expect(submitBlock({ block }).hash).toBe(block.hash);
+		expect(getLastBlock().hash).toBe(block.hash);
+	});
+
+	it('refuses a block built on a previous tip', () => {
+		const block = solveTemplate(getBlockTemplate({ address: MINER_ADDRESS }));
+		submitBlock({ block });
+
+		const stale = solveTemplate({ ...block, timestamp: block.timestamp + 1 });
+
+		expect(() => submitBlock({ block: stale })).toThrow('Stale block, the tip has changed');
+	});
+
+	it('refuses a block with another difficulty', () => {
+		const template = getBlockTemplate({ address: MINER_ADDRESS });
+		const block = solveTemplate({ ...template, difficulty: template.difficulty + 1 });
+
+		expect(() => submitBlock({ block })).toThrow(
+			`Invalid difficulty, expected ${template.difficulty}`
+		);
+	});
+
+	it('refuses a block whose hash does not match its proof', () => {
+		const block = solveTemplate(getBlockTemplate({ address: MINER_ADDRESS }));
+
+		expect(() =>
+			submitBlock({ block: new Block({ ...block, proof: block.proof + 1 }) })
+		).toThrow('Block rejected');
+		expect(getLastBlock().hash).toBe(block.previousHash);
+	});
+});
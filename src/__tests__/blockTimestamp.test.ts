@@ -0,0 +1,94 @@
+import WebSocket from 'ws';
+import { BlockHeader } from '../block';
+import { getBlockHeader, getBlockchain, validateNewHeader } from '../blockchain';
+import { addTimeSample, removeTimeSample } from '../networkTime';
+import { mineTestBlock } from './helpers/chain';
+
+const NOW = 1767312000000;
+
+// Timestamps of the blocks before the new one, with a median time past of NOW - 20 s
+const PREVIOUS_TIMESTAMPS = [NOW - 30000, NOW - 10000, NOW - 20000];
+const MEDIAN_TIME_PAST = NOW - 20000;
+
+const MAX_FUTURE_DRIFT = 60 * 1000;
+
+let genesis: BlockHeader;
+
+/**
+ * Validates a header on top of the genesis block with the given timestamp.
+ *
+ * @param timestamp The timestamp of the header.
+ *
+ * @returns Whether the header is valid.
+ */
+const isValidTimestamp = (timestamp: number): boolean =>
+	validateNewHeader({
+		newHeader: getBlockHeader({
+			block: mineTestBlock({ previous: genesis, difficulty: 0, timestamp }),
+		}),
+		previousHeader: genesis,
+		previousTimestamps: PREVIOUS_TIMESTAMPS,
+		expectedDifficulty: 0,
+	});
+
+beforeAll(() => {
+	genesis = getBlockHeader({ block: getBlockchain()[0] });
+});
+
+beforeEach(() => {
+	jest.spyOn(Date, 'now').mockReturnValue(NOW);
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('block timestamp', () => {
+	it('refuses a timestamp equal to the median time past', () => {
+		expect(isValidTimestamp(MEDIAN_TIME_PAST)).toBe(false);
+	});
+
+	it('accepts a timestamp a millisecond after the median time past', () => {
+		expect(isValidTimestamp(MEDIAN_TIME_PAST + 1)).toBe(true);
+	});
+
+	it('accepts a timestamp going backwards from the previous block but after the median', () => {
+		expect(isValidTimestamp(NOW - 15000)).toBe(true);
+	});
+
+	it('refuses a timestamp that is not a whole number of milliseconds', () => {
+		expect(isValidTimestamp(MEDIAN_TIME_PAST + 0.5)).toBe(false);
+	});
+
+	it('accepts a timestamp exactly the maximum drift ahead of the adjusted time', () => {
+		expect(isValidTimestamp(NOW + MAX_FUTURE_DRIFT)).toBe(true);
+	});
+
+	it('refuses a timestamp a millisecond past the maximum drift', () => {
+		expect(isValidTimestamp(NOW + MAX_FUTURE_DRIFT + 1)).toBe(false);
+	});
+
+	describe('with peer clocks ahead of the local clock', () => {
+		const OFFSET = 10000;
+		const peers = Array.from({ length: 5 }, () => ({}) as WebSocket);
+
+		beforeEach(() => {
+			peers.forEach((peer, i) =>
+				addTimeSample({ peer, address: `10.0.0.${i}`, timestamp: NOW + OFFSET })
+			);
+		});
+
+		afterEach(() => {
+			peers.forEach((peer) => removeTimeSample({ peer }));
+		});
+
+		it('accepts a timestamp exactly the maximum drift ahead of the adjusted time', () => {
+			expect(isValidTimestamp(NOW + OFFSET + MAX_FUTURE_DRIFT)).toBe(true);
+		});
+
+		it('refuses a timestamp a millisecond past the maximum drift', () => {
+			expect(isValidTimestamp(NOW + OFFSET + MAX_FUTURE_DRIFT + 1)).toBe(false);
+		});
+	});
+});
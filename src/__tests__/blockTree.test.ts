@@ -0,0 +1,190 @@
+import { Block } from '../block';
+import { MemoryBlockStore } from '../blockStore';
+import { getBlockTips, getOrphanBlocks, receiveBlocks } from '../blockTree';
+import { generateHashForBlock, getBlockchain, getLastBlock, initBlockchain } from '../blockchain';
+import { selectChainParams } from '../chainParams';
+import { mineTestBlock, mineTestBlocks } from './helpers/chain';
+
+// The block tree keeps its state across tests, so they build on one another in order
+
+const MAX_ORPHAN_BLOCKS = 100;
+const MAX_INVALID_BLOCKS = 100;
+const MAX_FORK_DEPTH = 100;
+
+let genesis: Block;
+
+/**
+ * Mines a block on top of the genesis block whose timestamp is not after the median time past.
+ *
+ * @param offset How far before the genesis block the timestamp is, in milliseconds.
+ *
+ * @returns The invalid block.
+ */
+const mineInvalidBlock = (offset: number): Block =>
+	mineTestBlock({ previous: genesis, difficulty: 0, timestamp: genesis.timestamp - offset });
+
+/**
+ * Extends the active chain through the block tree.
+ *
+ * @param count The number of blocks to add.
+ */
+const extendActiveChain = (count: number) => {
+	const blocks = mineTestBlocks({ previous: getLastBlock(), difficulties: Array(count).fill(0) });
+
+	expect(receiveBlocks({ blocks }).activated).toBe(true);
+};
+
+const getTip = (hash: string) => getBlockTips().find((tip) => tip.hash === hash);
+
+beforeAll(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+	// Every regtest block is mined at difficulty 0
+	selectChainParams({ network: 'regtest' });
+	initBlockchain({ store: new MemoryBlockStore() });
+	genesis = getBlockchain()[0];
+});
+
+beforeEach(() => {
+	(console.error as jest.Mock).mockClear();
+});
+
+afterAll(() => {
+	jest.restoreAllMocks();
+});
+
+describe('blocks whose hash does not match', () => {
+	let block: Block;
+
+	beforeAll(() => {
+		block = mineTestBlock({ previous: genesis, difficulty: 0 });
+	});
+
+	it('are dropped even when they claim the hash of a real block', () => {
+		const spoofed = { ...block, previousHash: 'f'.repeat(64) };
+
+		expect(receiveBlocks({ blocks: [spoofed] })).toEqual({ activated: false, orphans: 0 });
+
+		expect(getOrphanBlocks()).toEqual([]);
+		expect(console.error).toHaveBeenCalledWith(`\nInvalid block hash: ${block.hash}`);
+	});
+
+	it('are dropped when their hash misses the declared difficulty', () => {
+		const data = { ...block, difficulty: 64, proof: 0 };
+		const weak = new Block({ ...data, hash: generateHashForBlock({ block: new Block(data) }) });
+
+		expect(receiveBlocks({ blocks: [weak] })).toEqual({ activated: false, orphans: 0 });
+
+		expect(getTip(weak.hash)).toBeUndefined();
+	});
+
+	it('do not keep the real block from being accepted afterwards', () => {
+		expect(receiveBlocks({ blocks: [block] }).activated).toBe(true);
+
+		expect(getLastBlock()).toEqual(block);
+	});
+});
+
+describe('invalid blocks', () => {
+	let invalidBlock: Block;
+	let child: Block;
+
+	beforeAll(() => {
+		invalidBlock = mineInvalidBlock(1);
+		child = mineTestBlock({ previous: invalidBlock, difficulty: 0 });
+	});
+
+	it('are left out of the tree but reported as the tip of an invalid branch', () => {
+		expect(receiveBlocks({ blocks: [invalidBlock] }).activated).toBe(false);
+
+		expect(getTip(invalidBlock.hash)?.status).toBe('invalid');
+	});
+
+	it('make the blocks extending them invalid too', () => {
+		expect(receiveBlocks({ blocks: [child] })).toEqual({ activated: false, orphans: 0 });
+
+		expect(getTip(child.hash)).toBeUndefined();
+	});
+
+	it('are not validated again while remembered', () => {
+		receiveBlocks({ blocks: [invalidBlock] });
+
+		expect(console.error).not.toHaveBeenCalled();
+	});
+
+	it('are forgotten, oldest first, beyond the limit', () => {
+		const blocks = Array.from({ length: MAX_INVALID_BLOCKS - 1 }, (_, i) =>
+			mineInvalidBlock(i + 2)
+		);
+		receiveBlocks({ blocks });
+
+		(console.error as jest.Mock).mockClear();
+
+		// The child is still remembered, while its parent was forgotten and is validated again
+		expect(receiveBlocks({ blocks: [child] }).orphans).toBe(0);
+		expect(console.error).not.toHaveBeenCalled();
+
+		receiveBlocks({ blocks: [invalidBlock] });
+		expect(console.error).toHaveBeenCalledWith(
+			`\nInvalid block timestamp: ${invalidBlock.timestamp} is not after the median time past ${genesis.timestamp}`
+		);
+	});
+});
+
+describe('orphan blocks', () => {
+	it('are kept up to the limit, the oldest evicted first', () => {
+		const unknownParent = { ...genesis, index: 10, hash: 'f'.repeat(64) };
+		const blocks = Array.from({ length: MAX_ORPHAN_BLOCKS + 1 }, (_, i) =>
+			mineTestBlock({
+				previous: unknownParent,
+				difficulty: 0,
+				timestamp: genesis.timestamp + i + 1,
+			})
+		);
+
+		expect(receiveBlocks({ blocks }).orphans).toBe(MAX_ORPHAN_BLOCKS + 1);
+
+		const orphanHashes = getOrphanBlocks().map((block) => block.hash);
+		expect(orphanHashes).toHaveLength(MAX_ORPHAN_BLOCKS);
+		expect(orphanHashes).not.toContain(blocks[0].hash);
+		expect(orphanHashes).toContain(blocks[MAX_ORPHAN_BLOCKS].hash);
+	});
+});
+
+describe('stale branches', () => {
+	let deepFork: Block;
+	let recentFork: Block;
+
+	it('are kept while they fork close to the active tip', () => {
+		extendActiveChain(9);
+
+		deepFork = mineTestBlock({
+			previous: genesis,
+			difficulty: 0,
+			timestamp: genesis.timestamp + 7,
+		});
+		recentFork = mineTestBlock({
+			previous: getBlockchain()[5],
+			difficulty: 0,
+			timestamp: getBlockchain()[5].timestamp + 7,
+		});
+		receiveBlocks({ blocks: [deepFork, recentFork] });
+
+		expect(getTip(deepFork.hash)?.status).toBe('valid-fork');
+		expect(getTip(recentFork.hash)?.status).toBe('valid-fork');
+	});
+
+	it('are pruned once they fork too far below the active tip', () => {
+		extendActiveChain(MAX_FORK_DEPTH - 10 + 1);
+
+		expect(getLastBlock().index).toBe(MAX_FORK_DEPTH + 1);
+		expect(getTip(deepFork.hash)).toBeUndefined();
+		expect(getTip(recentFork.hash)?.status).toBe('valid-fork');
+
+		extendActiveChain(5);
+
+		expect(getTip(recentFork.hash)).toBeUndefined();
+		expect(getBlockTips()).toHaveLength(1);
+		expect(getTip(getLastBlock().hash)?.status).toBe('active');
+	});
+});
@@ -0,0 +1,39 @@
+import { CURRENT_BLOCK_VERSION, LEGACY_BLOCK_VERSION } from '../block';
+import { MemoryBlockStore } from '../blockStore';
+import { addBlock, getBlockchain, getLastBlock, initBlockchain } from '../blockchain';
+import { mineTestBlock } from './helpers/chain';
+
+beforeAll(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	initBlockchain({ store: new MemoryBlockStore() });
+});
+
+beforeEach(() => {
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('block versions', () => {
+	it('keep the version of the genesis block', () => {
+		expect(getBlockchain()[0].version).toBe(LEGACY_BLOCK_VERSION);
+	});
+
+	it.each([LEGACY_BLOCK_VERSION, CURRENT_BLOCK_VERSION + 1])(
+		'reject a new block of version %i',
+		(version) => {
+			const block = mineTestBlock({ previous: getLastBlock(), difficulty: 0, version });
+
+			expect(addBlock({ newBlock: block })).toBe(false);
+			expect(console.error).toHaveBeenCalledWith('\nInvalid block version:', version);
+		}
+	);
+
+	it('accept a new block of the current version', () => {
+		const block = mineTestBlock({ previous: getLastBlock(), difficulty: 0 });
+
+		expect(addBlock({ newBlock: block })).toBe(true);
+	});
+});
@@ -0,0 +1,90 @@
+import { MemoryBlockStore } from '../blockStore';
+import {
+	generateHashForBlock,
+	getBlockchain,
+	getDifficultySpan,
+	initBlockchain,
+} from '../blockchain';
+import { getChainParams, NetworkName, selectChainParams } from '../chainParams';
+import { getMerkleRoot } from '../merkle';
+
+const NETWORKS: NetworkName[] = ['mainnet', 'testnet', 'regtest'];
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+	selectChainParams({ network: 'mainnet' });
+});
+
+describe('selectChainParams', () => {
+	it('runs on mainnet by default', () => {
+		expect(getChainParams().name).toBe('mainnet');
+	});
+
+	it('refuses an unknown network', () => {
+		expect(() => selectChainParams({ network: 'devnet' })).toThrow('Unknown network: devnet');
+		expect(getChainParams().name).toBe('mainnet');
+	});
+
+	it('gives every network its own magic, genesis block, ports and data directory', () => {
+		const params = NETWORKS.map((network) => selectChainParams({ network }));
+
+		for (const field of ['magic', 'httpPort', 'p2pPort', 'dataDir'] as const)
+			expect(new Set(params.map((param) => param[field])).size).toBe(NETWORKS.length);
+
+		expect(new Set(params.map((param) => param.genesisBlock.hash)).size).toBe(NETWORKS.length);
+	});
+
+	it.each(NETWORKS)(
+		'gives %s a genesis block whose hash and Merkle root are correct',
+		(network) => {
+			const { genesisBlock } = selectChainParams({ network });
+
+			expect(generateHashForBlock({ block: genesisBlock })).toBe(genesisBlock.hash);
+
+			if (genesisBlock.merkleRoot !== undefined)
+				expect(
+					getMerkleRoot({
+						txIds: genesisBlock.transactions.map((transaction) => transaction.id),
+					})
+				).toBe(genesisBlock.merkleRoot);
+		}
+	);
+});
+
+describe('initBlockchain', () => {
+	it('starts from the genesis block of the selected network', () => {
+		selectChainParams({ network: 'testnet' });
+		initBlockchain({ store: new MemoryBlockStore() });
+
+		expect(getBlockchain()).toEqual([getChainParams().genesisBlock]);
+	});
+
+	it('discards a store holding the chain of another network', () => {
+		const store = new MemoryBlockStore();
+
+		selectChainParams({ network: 'testnet' });
+		initBlockchain({ store });
+
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+		selectChainParams({ network: 'regtest' });
+		initBlockchain({ store });
+
+		expect(store.load().map((block) => block.hash)).toEqual([
+			getChainParams().genesisBlock.hash,
+		]);
+	});
+
+	it('uses the difficulty policy of the network', () => {
+		initBlockchain({ store: new MemoryBlockStore() });
+		expect(getDifficultySpan()).toBe(getChainParams().difficultyAdjustmentInterval);
+
+		// The fixed policy of regtest only looks at the last block
+		selectChainParams({ network: 'regtest' });
+		initBlockchain({ store: new MemoryBlockStore() });
+		expect(getDifficultySpan()).toBe(1);
+	});
+});
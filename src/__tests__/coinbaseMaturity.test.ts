@@ -0,0 +1,134 @@
+import { MemoryBlockStore } from '../blockStore';
+import { addBlock, getLastBlock, getUnspentTxOuts, initBlockchain } from '../blockchain';
+import { selectChainParams } from '../chainParams';
+import { getPublicKey, isMatureTxOut, Transaction, UnspentTxOut } from '../transaction';
+import { UnspentTxOutSet } from '../unspentTxOutSet';
+import { createPaymentTransaction, getBalance, getImmatureBalance } from '../wallet';
+import { MINER_ADDRESS, MINER_PRIVATE_KEY, mineTestBlock, mineTestBlocks } from './helpers/chain';
+
+// Coinbase maturity of regtest
+const COINBASE_MATURITY = 10;
+
+const RECEIVER = getPublicKey({ privateKey: '2'.repeat(64) });
+
+const coinbaseOutput = new UnspentTxOut({
+	txOutId: 'a'.repeat(64),
+	txOutIndex: 0,
+	address: MINER_ADDRESS,
+	amount: 50,
+	height: 1,
+	timestamp: 1767225600000,
+	coinbase: true,
+});
+
+const payment = new UnspentTxOut({
+	txOutId: 'b'.repeat(64),
+	txOutIndex: 0,
+	address: MINER_ADDRESS,
+	amount: 5,
+	height: 1,
+	timestamp: 1767225600000,
+});
+
+beforeAll(() => {
+	selectChainParams({ network: 'regtest' });
+});
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('isMatureTxOut', () => {
+	it('matures a coinbase output once it is confirmed by the coinbase maturity', () => {
+		expect(isMatureTxOut({ unspentTxOut: coinbaseOutput, height: COINBASE_MATURITY })).toBe(
+			false
+		);
+		expect(isMatureTxOut({ unspentTxOut: coinbaseOutput, height: COINBASE_MATURITY + 1 })).toBe(
+			true
+		);
+	});
+
+	it('treats any other output as mature', () => {
+		expect(isMatureTxOut({ unspentTxOut: payment, height: 1 })).toBe(true);
+	});
+});
+
+describe('wallet', () => {
+	const unspentTxOuts = new UnspentTxOutSet([coinbaseOutput, payment]);
+
+	it('leaves immature coinbase outputs out of the balance', () => {
+		const height = COINBASE_MATURITY;
+
+		expect(getBalance({ address: MINER_ADDRESS, unspentTxOuts, height })).toBe(5);
+		expect(getImmatureBalance({ address: MINER_ADDRESS, unspentTxOuts, height })).toBe(50);
+	});
+
+	it('does not spend immature coinbase outputs', () => {
+		const send = (height: number) =>
+			createPaymentTransaction({
+				payments: [{ address: RECEIVER, amount: 20 }],
+				privateKey: MINER_PRIVATE_KEY,
+				transactionPool: [],
+				unspentTxOuts,
+				height,
+			});
+
+		expect(() => send(COINBASE_MATURITY)).toThrow('Not enough coins to send transaction');
+		expect(send(COINBASE_MATURITY + 1).txIns).toHaveLength(1);
+	});
+});
+
+describe('addBlock', () => {
+	let spend: Transaction;
+
+	beforeEach(() => {
+		initBlockchain({ store: new MemoryBlockStore() });
+
+		// Every block pays the test wallet, and only the coinbase output of block 1 matures next
+		mineTestBlocks({
+			previous: getLastBlock(),
+			difficulties: Array(COINBASE_MATURITY - 1).fill(0),
+		}).forEach((newBlock) => addBlock({ newBlock }));
+
+		spend = createPaymentTransaction({
+			payments: [{ address: RECEIVER, amount: 20 }],
+			privateKey: MINER_PRIVATE_KEY,
+			transactionPool: [],
+			unspentTxOuts: new UnspentTxOutSet(getUnspentTxOuts()),
+			height: COINBASE_MATURITY + 1,
+		});
+	});
+
+	it('refuses a block spending a coinbase output before it matures', () => {
+		expect(getLastBlock().index).toBe(COINBASE_MATURITY - 1);
+
+		expect(
+			addBlock({
+				newBlock: mineTestBlock({
+					previous: getLastBlock(),
+					difficulty: 0,
+					transactions: [spend],
+				}),
+			})
+		).toBe(false);
+	});
+
+	it('accepts a block spending a coinbase output once it matures', () => {
+		addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) });
+
+		expect(
+			addBlock({
+				newBlock: mineTestBlock({
+					previous: getLastBlock(),
+					difficulty: 0,
+					transactions: [spend],
+				}),
+			})
+		).toBe(true);
+	});
+});
@@ -0,0 +1,194 @@
+import {
+	Condition,
+	LockContext,
+	SignatureVerifier,
+	Witness,
+	createHashTimeLockCondition,
+	createMultisigCondition,
+	createRelativeLockCondition,
+	evaluateCondition,
+	findConditionStructureError,
+	findWitnessStructureError,
+	getPreimageHash,
+} from '../conditions';
+
+const KEY_A = '04' + 'a'.repeat(128);
+const KEY_B = '04' + 'b'.repeat(128);
+const KEY_C = '04' + 'c'.repeat(128);
+
+const PREIMAGE = 'deadbeef';
+
+// Accepts the signature 'signed-by-<public key>' for each public key
+const verifySignature: SignatureVerifier = ({ publicKey, signature }) =>
+	signature === `signed-by-${publicKey}`;
+
+const signedBy = (...publicKeys: string[]): Witness => ({
+	signatures: publicKeys.map((publicKey) => `signed-by-${publicKey}`),
+});
+
+const isMet = ({
+	condition,
+	witness,
+	context = { height: 100, timestamp: 1767225600000 },
+	output = { height: 90, timestamp: 1767225000000 },
+}: {
+	condition: Condition;
+	witness: Witness;
+	context?: LockContext;
+	output?: { height?: number; timestamp?: number };
+}): boolean => evaluateCondition({ condition, witness, verifySignature, output, context });
+
+/**
+ * Nests a condition in as many `all` conditions as the given depth.
+ */
+const nest = (condition: Condition, depth: number): Condition =>
+	depth === 0 ? condition : { type: 'all', conditions: [nest(condition, depth - 1)] };
+
+describe('findConditionStructureError', () => {
+	beforeEach(() => {
+		jest.spyOn(console, 'log');
+		jest.spyOn(console, 'error');
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('accepts valid conditions', () => {
+		for (const condition of [
+			{ type: 'signature', publicKey: KEY_A },
+			createMultisigCondition({ required: 2, publicKeys: [KEY_A, KEY_B, KEY_C] }),
+			createRelativeLockCondition({ publicKey: KEY_A, blocks: 10 }),
+			createHashTimeLockCondition({
+				recipient: KEY_A,
+				refundPublicKey: KEY_B,
+				hash: getPreimageHash({ preimage: PREIMAGE }),
+				refundHeight: 200,
+			}),
+		] as Condition[])
+			expect(findConditionStructureError({ condition })).toBeNull();
+	});
+
+	it('returns why a condition is invalid without logging it', () => {
+		const cases: [unknown, string][] = [
+			[null, 'Unknown condition type'],
+			[{ type: 'script' }, 'Unknown condition type'],
+			[
+				{ type: 'signature', publicKey: KEY_A, extra: 1 },
+				'Unexpected field in signature condition',
+			],
+			[{ type: 'signature', publicKey: 'abc' }, 'Invalid public key in signature condition'],
+			[
+				{ type: 'multisig', required: 3, publicKeys: [KEY_A, KEY_B] },
+				'Invalid public keys or required signatures in multisig condition',
+			],
+			[
+				{ type: 'multisig', required: 1, publicKeys: [KEY_A, KEY_A] },
+				'Invalid public keys or required signatures in multisig condition',
+			],
+			[
+				{ type: 'absoluteLock', height: 10, timestamp: 10 },
+				'Invalid height or timestamp in absoluteLock condition',
+			],
+			[
+				{ type: 'relativeLock', blocks: -1 },
+				'Invalid blocks or duration in relativeLock condition',
+			],
+			[{ type: 'hashLock', hash: 'ABC' }, 'Invalid hash in hashLock condition'],
+			[{ type: 'any', conditions: [] }, 'Invalid number of conditions in any condition'],
+			[
+				{
+					type: 'all',
+					conditions: [{ type: 'signature', publicKey: KEY_A }, { type: 'script' }],
+				},
+				'Unknown condition type',
+			],
+		];
+
+		for (const [condition, error] of cases)
+			expect(findConditionStructureError({ condition: condition as Condition })).toBe(error);
+
+		expect(console.log).not.toHaveBeenCalled();
+		expect(console.error).not.toHaveBeenCalled();
+	});
+
+	it('limits the nesting depth', () => {
+		const signature: Condition = { type: 'signature', publicKey: KEY_A };
+
+		expect(findConditionStructureError({ condition: nest(signature, 4) })).toBeNull();
+		expect(findConditionStructureError({ condition: nest(signature, 5) })).toBe(
+			'Conditions nested too deep'
+		);
+	});
+});
+
+describe('findWitnessStructureError', () => {
+	it('accepts a witness with signatures and a preimage', () => {
+		expect(
+			findWitnessStructureError({ witness: { signatures: ['abc'], preimage: PREIMAGE } })
+		).toBeNull();
+	});
+
+	it('returns why a witness is invalid', () => {
+		const cases: [unknown, string][] = [
+			[null, 'Invalid witness type'],
+			[{ signatures: 'abc' }, 'Invalid witness signatures'],
+			[{ signatures: Array(17).fill('abc') }, 'Invalid witness signatures'],
+			[{ signatures: [], preimage: 'abc' }, 'Invalid witness preimage'],
+			[{ signatures: [], preimage: 'ab'.repeat(65) }, 'Invalid witness preimage'],
+		];
+
+		for (const [witness, error] of cases)
+			expect(findWitnessStructureError({ witness: witness as Witness })).toBe(error);
+	});
+});
+
+describe('evaluateCondition', () => {
+	it('requires the signatures of enough distinct public keys for a multisig condition', () => {
+		const condition = createMultisigCondition({
+			required: 2,
+			publicKeys: [KEY_A, KEY_B, KEY_C],
+		});
+
+		expect(isMet({ condition, witness: signedBy(KEY_A, KEY_C) })).toBe(true);
+		expect(isMet({ condition, witness: signedBy(KEY_A, KEY_A) })).toBe(false);
+	});
+
+	it('unlocks an absolute lock from its height on', () => {
+		const condition: Condition = { type: 'absoluteLock', height: 100 };
+
+		expect(
+			isMet({ condition, witness: signedBy(), context: { height: 99, timestamp: 0 } })
+		).toBe(false);
+		expect(
+			isMet({ condition, witness: signedBy(), context: { height: 100, timestamp: 0 } })
+		).toBe(true);
+	});
+
+	it('unlocks a relative lock once enough blocks confirm the output', () => {
+		const condition = createRelativeLockCondition({ publicKey: KEY_A, blocks: 10 });
+		const witness = signedBy(KEY_A);
+
+		expect(isMet({ condition, witness, context: { height: 99, timestamp: 0 } })).toBe(false);
+		expect(isMet({ condition, witness, context: { height: 100, timestamp: 0 } })).toBe(true);
+		expect(isMet({ condition, witness, output: {} })).toBe(false);
+	});
+
+	it('lets the recipient of a hashed timelock spend with the preimage, and the sender after the refund height', () => {
+		const condition = createHashTimeLockCondition({
+			recipient: KEY_A,
+			refundPublicKey: KEY_B,
+			hash: getPreimageHash({ preimage: PREIMAGE }),
+			refundHeight: 200,
+		});
+
+		expect(isMet({ condition, witness: { ...signedBy(KEY_A), preimage: PREIMAGE } })).toBe(
+			true
+		);
+		expect(isMet({ condition, witness: { ...signedBy(KEY_A), preimage: 'beef' } })).toBe(false);
+		expect(isMet({ condition, witness: signedBy(KEY_B) })).toBe(false);
+		expect(
+			isMet({ condition, witness: signedBy(KEY_B), context: { height: 200, timestamp: 0 } })
+		).toBe(true);
+	});
+});
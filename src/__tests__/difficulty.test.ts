@@ -0,0 +1,143 @@
+import { getChainParams } from '../chainParams';
+import {
+	DifficultyHeader,
+	FixedDifficultyPolicy,
+	IntervalDifficultyPolicy,
+	LwmaDifficultyPolicy,
+	createDifficultyPolicy,
+} from '../difficulty';
+
+const START = 1767225600000;
+
+/**
+ * Builds a header chain from the genesis block with the given solve times.
+ *
+ * @param solveTimes The time each block after the genesis block took, in seconds.
+ * @param difficulty The difficulty of every header.
+ *
+ * @returns The headers, genesis block first.
+ */
+const series = (solveTimes: number[], difficulty: number): DifficultyHeader[] => {
+	const headers: DifficultyHeader[] = [{ index: 0, timestamp: START, difficulty }];
+
+	solveTimes.forEach((solveTime, i) =>
+		headers.push({
+			index: i + 1,
+			timestamp: headers[i].timestamp + solveTime * 1000,
+			difficulty,
+		})
+	);
+
+	return headers;
+};
+
+describe('IntervalDifficultyPolicy', () => {
+	const policy = new IntervalDifficultyPolicy({ blockTime: 10, interval: 10 });
+
+	it('keeps the difficulty between retargets', () => {
+		expect(policy.getNextDifficulty(series(Array(9).fill(1), 5))).toBe(5);
+	});
+
+	it('keeps the difficulty of the genesis block', () => {
+		expect(policy.getNextDifficulty(series([], 5))).toBe(5);
+	});
+
+	it('raises the difficulty by a bit when the interval took less than half the time', () => {
+		expect(policy.getNextDifficulty(series(Array(10).fill(4), 5))).toBe(6);
+	});
+
+	it('lowers the difficulty by a bit when the interval took more than twice the time', () => {
+		expect(policy.getNextDifficulty(series(Array(10).fill(30), 5))).toBe(4);
+	});
+
+	it('keeps the difficulty when the interval took about the expected time', () => {
+		expect(policy.getNextDifficulty(series(Array(10).fill(10), 5))).toBe(5);
+	});
+
+	it('never lowers the difficulty below 0', () => {
+		expect(policy.getNextDifficulty(series(Array(10).fill(30), 0))).toBe(0);
+	});
+
+	it('gives the same difficulty from the last span of headers as from the whole chain', () => {
+		const headers = series(Array(30).fill(3), 5);
+
+		expect(policy.getNextDifficulty(headers.slice(-policy.span))).toBe(
+			policy.getNextDifficulty(headers)
+		);
+	});
+});
+
+describe('LwmaDifficultyPolicy', () => {
+	const policy = new LwmaDifficultyPolicy({ blockTime: 10, window: 5 });
+
+	it('keeps the difficulty of a chain with a single header', () => {
+		expect(policy.getNextDifficulty(series([], 5))).toBe(5);
+	});
+
+	it('keeps the difficulty when blocks come at the expected time', () => {
+		expect(policy.getNextDifficulty(series(Array(5).fill(10), 5))).toBe(5);
+	});
+
+	it('moves by a fraction of a bit, rounded to the precision', () => {
+		expect(policy.getNextDifficulty(series(Array(5).fill(8), 5))).toBe(5.321928);
+	});
+
+	it('raises the difficulty by at most a bit per block', () => {
+		expect(policy.getNextDifficulty(series(Array(5).fill(5), 5))).toBe(6);
+		expect(policy.getNextDifficulty(series(Array(5).fill(1), 5))).toBe(6);
+	});
+
+	it('lowers the difficulty by at most a bit per block', () => {
+		expect(policy.getNextDifficulty(series(Array(5).fill(20), 5))).toBe(4);
+		expect(policy.getNextDifficulty(series(Array(5).fill(1000), 5))).toBe(4);
+	});
+
+	it('never lowers the difficulty below 0', () => {
+		expect(policy.getNextDifficulty(series(Array(5).fill(20), 0.5))).toBe(0);
+	});
+
+	it('weighs the most recent solve times the most', () => {
+		const slowThenFast = policy.getNextDifficulty(series([20, 20, 10, 5, 5], 5));
+		const fastThenSlow = policy.getNextDifficulty(series([5, 5, 10, 20, 20], 5));
+
+		expect(slowThenFast).toBeGreaterThan(5);
+		expect(fastThenSlow).toBeLessThan(5);
+	});
+
+	it('counts timestamps going backwards as the shortest solve time', () => {
+		// Weighted solve time of 4 * 10 s and 0.001 s against 15 expected block times
+		expect(policy.getNextDifficulty(series([10, 10, 10, 10, -30], 5))).toBe(5.58489);
+	});
+
+	it('only looks at the solve times of the window', () => {
+		const headers = series([...Array(20).fill(1000), ...Array(5).fill(10)], 5);
+
+		expect(policy.getNextDifficulty(headers)).toBe(5);
+		expect(policy.getNextDifficulty(headers.slice(-policy.span))).toBe(5);
+	});
+});
+
+describe('FixedDifficultyPolicy', () => {
+	it('keeps every block at the same difficulty', () => {
+		const policy = new FixedDifficultyPolicy({ difficulty: 3 });
+
+		expect(policy.getNextDifficulty()).toBe(3);
+		expect(policy.span).toBe(1);
+	});
+});
+
+describe('createDifficultyPolicy', () => {
+	it('creates the policy of each type', () => {
+		const chainParams = getChainParams();
+
+		expect(createDifficultyPolicy({ type: 'interval', chainParams }).name).toBe('interval');
+		expect(createDifficultyPolicy({ type: 'lwma', chainParams }).name).toBe('lwma');
+		expect(createDifficultyPolicy({ type: 'fixed', chainParams }).name).toBe('fixed');
+	});
+
+	it('refuses an unknown policy', () => {
+		expect(() =>
+			createDifficultyPolicy({ type: 'asert', chainParams: getChainParams() })
+		).toThrow('Unknown difficulty policy: asert');
+	});
+});
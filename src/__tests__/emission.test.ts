@@ -0,0 +1,105 @@
+import { MemoryBlockStore } from '../blockStore';
+import { addBlock, getCirculatingSupply, getLastBlock, initBlockchain } from '../blockchain';
+import { selectChainParams } from '../chainParams';
+import { getBlockReward, getScheduledSupply, getSupplyInfo } from '../emission';
+import { getCoinbaseTransaction, getTransactionId } from '../transaction';
+import { MINER_ADDRESS, mineTestBlock } from './helpers/chain';
+
+// Regtest pays 50 coins, halved every 150 blocks with no tail emission
+const HALVING_INTERVAL = 150;
+
+beforeEach(() => {
+	selectChainParams({ network: 'regtest' });
+});
+
+describe('getBlockReward', () => {
+	it('halves the reward, rounded down, every halving interval', () => {
+		expect(getBlockReward({ blockIndex: 0 })).toBe(50);
+		expect(getBlockReward({ blockIndex: HALVING_INTERVAL - 1 })).toBe(50);
+		expect(getBlockReward({ blockIndex: HALVING_INTERVAL })).toBe(25);
+		expect(getBlockReward({ blockIndex: 2 * HALVING_INTERVAL })).toBe(12);
+	});
+
+	it('drops to 0 without a tail emission', () => {
+		expect(getBlockReward({ blockIndex: 6 * HALVING_INTERVAL })).toBe(0);
+	});
+
+	it('never drops below the tail emission', () => {
+		selectChainParams({ network: 'testnet' });
+
+		expect(getBlockReward({ blockIndex: 1000000 })).toBe(1);
+	});
+});
+
+describe('getScheduledSupply', () => {
+	it('sums the block rewards from the genesis block to the given block', () => {
+		for (const height of [0, 1, HALVING_INTERVAL - 1, HALVING_INTERVAL, 500]) {
+			let expected = 0;
+			for (let blockIndex = 0; blockIndex <= height; blockIndex++)
+				expected += getBlockReward({ blockIndex });
+
+			expect(getScheduledSupply({ height })).toBe(expected);
+		}
+	});
+});
+
+describe('getSupplyInfo', () => {
+	it('reports the reward and the halving of the next block', () => {
+		expect(getSupplyInfo({ height: HALVING_INTERVAL - 2, circulatingSupply: null })).toEqual({
+			height: HALVING_INTERVAL - 2,
+			circulatingSupply: null,
+			scheduledSupply: (HALVING_INTERVAL - 1) * 50,
+			currentReward: 50,
+			nextHalvingHeight: HALVING_INTERVAL,
+			maxSupply: HALVING_INTERVAL * (50 + 25 + 12 + 6 + 3 + 1),
+		});
+	});
+
+	it('reports no maximum supply nor halving once the tail emission is reached', () => {
+		selectChainParams({ network: 'testnet' });
+
+		const info = getSupplyInfo({ height: 1000000, circulatingSupply: 0 });
+
+		expect(info.maxSupply).toBeNull();
+		expect(info.nextHalvingHeight).toBeNull();
+	});
+});
+
+describe('getCirculatingSupply', () => {
+	beforeEach(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+		initBlockchain({ store: new MemoryBlockStore() });
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('counts the coins of the unspent transaction outputs, genesis block included', () => {
+		expect(getCirculatingSupply()).toBe(50);
+
+		addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) });
+		addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) });
+
+		expect(getCirculatingSupply()).toBe(150);
+		expect(getScheduledSupply({ height: getLastBlock().index })).toBe(150);
+	});
+
+	it('counts the coins claimed by the coinbase transactions, not the scheduled ones', () => {
+		addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) });
+
+		// A coinbase transaction claiming only part of the block reward
+		const coinbase = getCoinbaseTransaction({ address: MINER_ADDRESS, blockIndex: 2 });
+		coinbase.txOuts[0].amount = 10;
+		coinbase.id = getTransactionId({ transaction: coinbase });
+
+		expect(
+			addBlock({
+				newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0, coinbase }),
+			})
+		).toBe(true);
+
+		expect(getCirculatingSupply()).toBe(50 + 50 + 10);
+		expect(getScheduledSupply({ height: getLastBlock().index })).toBe(150);
+	});
+});
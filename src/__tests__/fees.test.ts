@@ -0,0 +1,201 @@
+import { MemoryBlockStore } from '../blockStore';
+import { addBlock, getLastBlock, getUnspentTxOuts, initBlockchain } from '../blockchain';
+import { selectChainParams } from '../chainParams';
+import { LockContext } from '../conditions';
+import { getBlockReward } from '../emission';
+import {
+	getCoinbaseTransaction,
+	getPublicKey,
+	getTransactionFee,
+	getTransactionId,
+	getTransactionSize,
+	signTxIn,
+	Transaction,
+	UnspentTxOut,
+	validateTransaction,
+} from '../transaction';
+import {
+	addToTransactionPool,
+	getTransactionsByFeeRate,
+	updateTransactionPool,
+} from '../transactionPool';
+import { UnspentTxOutSet } from '../unspentTxOutSet';
+import { createPaymentTransaction } from '../wallet';
+import { MINER_ADDRESS, MINER_PRIVATE_KEY, mineTestBlock, mineTestBlocks } from './helpers/chain';
+
+const RECEIVER = getPublicKey({ privateKey: '2'.repeat(64) });
+
+const context: LockContext = { height: 10, timestamp: 1767225600000 };
+
+const fundings = ['a', 'b'].map(
+	(id) =>
+		new UnspentTxOut({
+			txOutId: id.repeat(64),
+			txOutIndex: 0,
+			address: MINER_ADDRESS,
+			amount: 100,
+		})
+);
+
+const unspentTxOuts = new UnspentTxOutSet(fundings);
+
+/**
+ * Creates a transaction paying the receiver from the test wallet.
+ *
+ * @param fee The fee of the transaction.
+ * @param feeRate The fee rate of the transaction, instead of a set fee.
+ * @param transactionPool The pooled transactions, whose inputs are not spent again.
+ *
+ * @returns The signed transaction.
+ */
+const pay = ({
+	fee,
+	feeRate,
+	transactionPool = [],
+}: {
+	fee?: number;
+	feeRate?: number;
+	transactionPool?: Transaction[];
+}): Transaction =>
+	createPaymentTransaction({
+		payments: [{ address: RECEIVER, amount: 10 }],
+		privateKey: MINER_PRIVATE_KEY,
+		transactionPool,
+		unspentTxOuts,
+		height: context.height,
+		fee,
+		feeRate,
+	});
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('transaction fees', () => {
+	it('are the value of the inputs not spent by the outputs', () => {
+		const transaction = pay({ fee: 3 });
+
+		expect(transaction.txOuts.map(({ amount }) => amount)).toEqual([10, 87]);
+		expect(getTransactionFee({ transaction, unspentTxOuts })).toBe(3);
+		expect(validateTransaction({ transaction, unspentTxOuts, context })).toBe(true);
+	});
+
+	it('cannot be negative, the outputs exceeding the inputs', () => {
+		const transaction = pay({ fee: 3 });
+		transaction.txOuts[1].amount = 91;
+		transaction.id = getTransactionId({ transaction });
+		transaction.txIns[0].signature = signTxIn({
+			transaction,
+			txInIndex: 0,
+			privateKey: MINER_PRIVATE_KEY,
+			unspentTxOuts,
+		});
+
+		expect(validateTransaction({ transaction, unspentTxOuts, context })).toBe(false);
+	});
+
+	it('cannot be raised by a negative output', () => {
+		const transaction = pay({ fee: 3 });
+		transaction.txOuts[0].amount = -10;
+		transaction.id = getTransactionId({ transaction });
+		transaction.txIns[0].signature = signTxIn({
+			transaction,
+			txInIndex: 0,
+			privateKey: MINER_PRIVATE_KEY,
+			unspentTxOuts,
+		});
+
+		expect(validateTransaction({ transaction, unspentTxOuts, context })).toBe(false);
+	});
+
+	it('cover the size of the signed transaction at a fee rate', () => {
+		const feeRate = 0.05;
+		const transaction = pay({ feeRate });
+
+		expect(getTransactionFee({ transaction, unspentTxOuts })).toBeGreaterThanOrEqual(
+			feeRate * getTransactionSize({ transaction })
+		);
+	});
+
+	it('are set either as is or as a fee rate, and never negative', () => {
+		expect(() => pay({ fee: 1, feeRate: 1 })).toThrow(
+			'Set either a fee or a fee rate, not both'
+		);
+		expect(() => pay({ fee: -1 })).toThrow('Fees must be non-negative numbers');
+		expect(() => pay({ feeRate: NaN })).toThrow('Fees must be non-negative numbers');
+	});
+});
+
+describe('getTransactionsByFeeRate', () => {
+	afterEach(() => {
+		// Spending the funding outputs elsewhere empties the pool
+		updateTransactionPool(new UnspentTxOutSet(), context);
+	});
+
+	it('orders the transaction pool by fee rate, highest first', () => {
+		const low = pay({ fee: 1 });
+		const high = pay({ fee: 5, transactionPool: [low] });
+
+		addToTransactionPool(low, unspentTxOuts, { context });
+		addToTransactionPool(high, unspentTxOuts, { context });
+
+		expect(getTransactionsByFeeRate().map(({ id }) => id)).toEqual([high.id, low.id]);
+	});
+});
+
+describe('coinbase transaction', () => {
+	const FEE = 5;
+
+	// Height of the block, where the coinbase of the first block is mature on regtest
+	const HEIGHT = 11;
+
+	let transaction: Transaction;
+
+	beforeEach(() => {
+		selectChainParams({ network: 'regtest' });
+		initBlockchain({ store: new MemoryBlockStore() });
+		mineTestBlocks({
+			previous: getLastBlock(),
+			difficulties: Array(HEIGHT - 1).fill(0),
+		}).forEach((newBlock) => addBlock({ newBlock }));
+
+		transaction = createPaymentTransaction({
+			payments: [{ address: RECEIVER, amount: 10 }],
+			privateKey: MINER_PRIVATE_KEY,
+			transactionPool: [],
+			unspentTxOuts: new UnspentTxOutSet(getUnspentTxOuts()),
+			height: HEIGHT,
+			fee: FEE,
+		});
+	});
+
+	const mineWithCoinbase = ({ amount }: { amount: number }) => {
+		const coinbase = getCoinbaseTransaction({ address: MINER_ADDRESS, blockIndex: HEIGHT });
+		coinbase.txOuts[0].amount = amount;
+		coinbase.id = getTransactionId({ transaction: coinbase });
+
+		return mineTestBlock({
+			previous: getLastBlock(),
+			difficulty: 0,
+			transactions: [transaction],
+			coinbase,
+		});
+	};
+
+	it('collects the block reward and the fees of the block', () => {
+		const amount = getBlockReward({ blockIndex: HEIGHT }) + FEE;
+
+		expect(addBlock({ newBlock: mineWithCoinbase({ amount }) })).toBe(true);
+	});
+
+	it('cannot claim more than the block reward and the fees of the block', () => {
+		const amount = getBlockReward({ blockIndex: HEIGHT }) + FEE + 1;
+
+		expect(addBlock({ newBlock: mineWithCoinbase({ amount }) })).toBe(false);
+	});
+});
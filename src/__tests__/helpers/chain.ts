@@ -0,0 +1,81 @@
+import { Block, BlockHeader, CURRENT_BLOCK_VERSION } from '../../block';
+import { getMerkleRoot } from '../../merkle';
+import { checkHashDifficulty, generateHash } from '../../proofOfWork';
+import { getCoinbaseTransaction, getPublicKey, Transaction } from '../../transaction';
+
+// Keys of the wallet the test blocks pay to
+const MINER_PRIVATE_KEY = '1'.repeat(64);
+const MINER_ADDRESS = getPublicKey({ privateKey: MINER_PRIVATE_KEY });
+
+/**
+ * Mines a block on top of another one, paying the block reward to the test wallet.
+ *
+ * @param previous The block the new block extends.
+ * @param difficulty The difficulty the block declares and its hash meets.
+ * @param timestamp The timestamp of the block, a second after the previous one by default.
+ * @param transactions The transactions after the coinbase transaction.
+ * @param version The version of the block, the current one by default.
+ * @param coinbase The coinbase transaction, one claiming the whole block reward by default.
+ *
+ * @returns The mined block.
+ */
+const mineTestBlock = ({
+	previous,
+	difficulty,
+	timestamp = previous.timestamp + 1000,
+	transactions = [],
+	version = CURRENT_BLOCK_VERSION,
+	coinbase = getCoinbaseTransaction({ address: MINER_ADDRESS, blockIndex: previous.index + 1 }),
+}: {
+	previous: BlockHeader;
+	difficulty: number;
+	timestamp?: number;
+	transactions?: Transaction[];
+	version?: number;
+	coinbase?: Transaction;
+}): Block => {
+	const index = previous.index + 1;
+	const blockTransactions = [coinbase, ...transactions];
+	const data = {
+		version,
+		index,
+		previousHash: previous.hash,
+		timestamp,
+		transactions: blockTransactions,
+		merkleRoot: getMerkleRoot({
+			txIds: blockTransactions.map((transaction) => transaction.id),
+		}),
+		difficulty,
+	};
+
+	for (let proof = 0; ; proof++) {
+		const hash = generateHash({ ...data, proof });
+
+		if (checkHashDifficulty(hash, difficulty)) return new Block({ ...data, hash, proof });
+	}
+};
+
+/**
+ * Mines blocks one after the other on top of a block.
+ *
+ * @param previous The block the first new block extends.
+ * @param difficulties The difficulty of each new block.
+ *
+ * @returns The mined blocks.
+ */
+const mineTestBlocks = ({
+	previous,
+	difficulties,
+}: {
+	previous: BlockHeader;
+	difficulties: number[];
+}): Block[] => {
+	const blocks: Block[] = [];
+
+	for (const difficulty of difficulties)
+		blocks.push(mineTestBlock({ previous: blocks[blocks.length - 1] ?? previous, difficulty }));
+
+	return blocks;
+};
+
+export { MINER_PRIVATE_KEY, MINER_ADDRESS, mineTestBlock, mineTestBlocks };
@@ -0,0 +1,164 @@
+import { BlockHeader, MERKLE_BLOCK_VERSION } from '../block';
+import { MemoryBlockStore } from '../blockStore';
+import {
+	addBlock,
+	getAddressTransactionProofs,
+	getBlockchain,
+	getBlockHeader,
+	getLastBlock,
+	initBlockchain,
+} from '../blockchain';
+import { IntervalDifficultyPolicy } from '../difficulty';
+import {
+	getLastHeader,
+	getVerifiedTransactions,
+	initLightClient,
+	receiveHeaders,
+	receiveTransactionProofs,
+} from '../lightClient';
+import { getCoinbaseTransaction } from '../transaction';
+import { MINER_ADDRESS, mineTestBlock, mineTestBlocks } from './helpers/chain';
+
+let genesis: BlockHeader;
+
+beforeAll(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	initBlockchain({ store: new MemoryBlockStore() });
+	genesis = getBlockHeader({ block: getBlockchain()[0] });
+	jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+	initLightClient();
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('receiveHeaders', () => {
+	it('syncs valid headers', () => {
+		const receivedHeaders = mineTestBlocks({ previous: genesis, difficulties: [0, 0, 0] }).map(
+			(block) => getBlockHeader({ block })
+		);
+
+		expect(receiveHeaders({ receivedHeaders })).toEqual({ updated: true, connected: true });
+		expect(getLastHeader().hash).toBe(receivedHeaders[2].hash);
+	});
+
+	it('syncs headers carrying the difficulty the policy expects', () => {
+		// Retargets after every second header, so headers a second apart raise the difficulty
+		initLightClient({
+			difficulty: new IntervalDifficultyPolicy({ blockTime: 10, interval: 2 }),
+		});
+
+		const receivedHeaders = mineTestBlocks({
+			previous: genesis,
+			difficulties: [0, 0, 1, 1, 2],
+		}).map((block) => getBlockHeader({ block }));
+
+		expect(receiveHeaders({ receivedHeaders })).toEqual({ updated: true, connected: true });
+		expect(getLastHeader().hash).toBe(receivedHeaders[4].hash);
+	});
+
+	it('refuses headers declaring another difficulty than expected', () => {
+		const receivedHeaders = mineTestBlocks({ previous: genesis, difficulties: [0, 6] }).map(
+			(block) => getBlockHeader({ block })
+		);
+
+		expect(receiveHeaders({ receivedHeaders }).updated).toBe(false);
+		expect(getLastHeader().index).toBe(0);
+	});
+
+	it('reports headers not extending a known header as not connected', () => {
+		const [, second] = mineTestBlocks({ previous: genesis, difficulties: [0, 0] });
+
+		expect(receiveHeaders({ receivedHeaders: [getBlockHeader({ block: second })] })).toEqual({
+			updated: false,
+			connected: false,
+		});
+	});
+
+	it('refuses a header whose hash does not cover its Merkle root', () => {
+		const header = getBlockHeader({
+			block: mineTestBlock({ previous: genesis, difficulty: 0 }),
+		});
+
+		expect(
+			receiveHeaders({ receivedHeaders: [{ ...header, merkleRoot: '0'.repeat(64) }] }).updated
+		).toBe(false);
+		expect(getLastHeader().index).toBe(0);
+	});
+
+	it('refuses a header whose hash covers the transactions', () => {
+		const header = getBlockHeader({
+			block: mineTestBlock({
+				previous: genesis,
+				difficulty: 0,
+				version: MERKLE_BLOCK_VERSION - 1,
+			}),
+		});
+
+		expect(receiveHeaders({ receivedHeaders: [header] }).updated).toBe(false);
+		expect(getLastHeader().index).toBe(0);
+	});
+});
+
+describe('receiveTransactionProofs', () => {
+	beforeAll(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+		while (getLastBlock().index < 3)
+			addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) });
+		jest.restoreAllMocks();
+	});
+
+	beforeEach(() => {
+		receiveHeaders({
+			receivedHeaders: getBlockchain()
+				.slice(1)
+				.map((block) => getBlockHeader({ block })),
+		});
+	});
+
+	it('verifies the wallet transactions against the header chain', () => {
+		const proofs = getAddressTransactionProofs({ address: MINER_ADDRESS });
+
+		expect(receiveTransactionProofs({ proofs })).toBe(3);
+		expect(
+			getVerifiedTransactions().map(({ proof, confirmations }) => [
+				proof.blockIndex,
+				confirmations,
+			])
+		).toEqual([
+			[1, 3],
+			[2, 2],
+			[3, 1],
+		]);
+	});
+
+	it('refuses a transaction that is not the one the proof is for', () => {
+		const [{ transaction, proof }] = getAddressTransactionProofs({ address: MINER_ADDRESS });
+		const forged = getCoinbaseTransaction({ address: MINER_ADDRESS, blockIndex: 7 });
+
+		expect(receiveTransactionProofs({ proofs: [{ transaction: forged, proof }] })).toBe(0);
+		expect(
+			receiveTransactionProofs({
+				proofs: [{ transaction: forged, proof: { ...proof, txId: forged.id } }],
+			})
+		).toBe(0);
+		expect(receiveTransactionProofs({ proofs: [{ transaction, proof }] })).toBe(1);
+	});
+
+	it('refuses a proof for a block that is not in the header chain', () => {
+		const [{ transaction, proof }] = getAddressTransactionProofs({ address: MINER_ADDRESS });
+
+		expect(
+			receiveTransactionProofs({
+				proofs: [{ transaction, proof: { ...proof, blockHash: 'f'.repeat(64) } }],
+			})
+		).toBe(0);
+		expect(getVerifiedTransactions()).toEqual([]);
+	});
+});
@@ -0,0 +1,121 @@
+import sha256 from 'crypto-js/sha256';
+import { MemoryBlockStore } from '../blockStore';
+import { addBlock, getLastBlock, getTransactionProof, initBlockchain } from '../blockchain';
+import { getMerkleBranch, getMerkleRoot, verifyMerkleBranch } from '../merkle';
+import { getCoinbaseTransaction, getPublicKey, Transaction } from '../transaction';
+import { mineTestBlock } from './helpers/chain';
+
+const hash = (value: string) => sha256(value).toString();
+
+const txIds = Array.from({ length: 7 }, (_, i) => hash(`tx-${i}`));
+
+describe('Merkle root', () => {
+	it('is empty without transactions and the ID itself for a single transaction', () => {
+		expect(getMerkleRoot({ txIds: [] })).toBe('');
+		expect(getMerkleRoot({ txIds: [txIds[0]] })).toBe(txIds[0]);
+	});
+
+	it('hashes pairs of nodes and carries an unpaired node up as is', () => {
+		const [a, b, c] = txIds;
+
+		expect(getMerkleRoot({ txIds: [a, b] })).toBe(hash(`${a}${b}`));
+		expect(getMerkleRoot({ txIds: [a, b, c] })).toBe(hash(`${hash(`${a}${b}`)}${c}`));
+	});
+
+	it('changes when the transactions are reordered', () => {
+		const [a, b] = txIds;
+
+		expect(getMerkleRoot({ txIds: [a, b] })).not.toBe(getMerkleRoot({ txIds: [b, a] }));
+	});
+});
+
+describe('Merkle branch', () => {
+	it.each([1, 2, 3, 4, 5, 6, 7])(
+		'links every transaction of a block of %i transactions to the root',
+		(count) => {
+			const blockTxIds = txIds.slice(0, count);
+			const merkleRoot = getMerkleRoot({ txIds: blockTxIds });
+
+			blockTxIds.forEach((txId, position) => {
+				const branch = getMerkleBranch({ txIds: blockTxIds, position })!;
+
+				expect(branch.length).toBeLessThanOrEqual(Math.ceil(Math.log2(count)));
+				expect(verifyMerkleBranch({ txId, branch, merkleRoot })).toBe(true);
+			});
+		}
+	);
+
+	it('is null for a position out of range', () => {
+		expect(getMerkleBranch({ txIds, position: txIds.length })).toBeNull();
+		expect(getMerkleBranch({ txIds, position: -1 })).toBeNull();
+	});
+
+	it('fails to verify another transaction, a tampered sibling or a swapped side', () => {
+		const merkleRoot = getMerkleRoot({ txIds });
+		const branch = getMerkleBranch({ txIds, position: 2 })!;
+
+		expect(verifyMerkleBranch({ txId: txIds[3], branch, merkleRoot })).toBe(false);
+		expect(
+			verifyMerkleBranch({
+				txId: txIds[2],
+				branch: [{ ...branch[0], hash: hash('forged') }, ...branch.slice(1)],
+				merkleRoot,
+			})
+		).toBe(false);
+		expect(
+			verifyMerkleBranch({
+				txId: txIds[2],
+				branch: [{ ...branch[0], side: 'left' }, ...branch.slice(1)],
+				merkleRoot,
+			})
+		).toBe(false);
+	});
+});
+
+describe('transaction proofs', () => {
+	beforeAll(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+		initBlockchain({ store: new MemoryBlockStore() });
+	});
+
+	afterAll(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('prove a transaction of the active chain against the block Merkle root', () => {
+		const block = mineTestBlock({ previous: getLastBlock(), difficulty: 0 });
+		expect(addBlock({ newBlock: block })).toBe(true);
+
+		const [coinbase]: Transaction[] = block.transactions;
+		const proof = getTransactionProof({ id: coinbase.id })!;
+
+		expect(proof).toMatchObject({
+			txId: coinbase.id,
+			blockHash: block.hash,
+			blockIndex: block.index,
+			merkleRoot: block.merkleRoot,
+		});
+		expect(verifyMerkleBranch(proof)).toBe(true);
+	});
+
+	it('are not available for unknown transactions', () => {
+		expect(getTransactionProof({ id: hash('unknown') })).toBeNull();
+	});
+
+	it('cannot be forged by swapping the transactions of a block', () => {
+		const block = mineTestBlock({ previous: getLastBlock(), difficulty: 0 });
+		const tampered = {
+			...block,
+			transactions: [
+				getCoinbaseTransaction({
+					address: getPublicKey({ privateKey: '2'.repeat(64) }),
+					blockIndex: block.index,
+				}),
+			],
+		};
+
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+		expect(addBlock({ newBlock: tampered })).toBe(false);
+		expect(console.error).toHaveBeenCalledWith('\nInvalid Merkle root:', block.merkleRoot);
+	});
+});
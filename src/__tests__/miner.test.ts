@@ -0,0 +1,152 @@
+import { CURRENT_BLOCK_VERSION } from '../block';
+import {
+	getMiningStatus,
+	getMiningTemplate,
+	initMiner,
+	mineBlock,
+	MiningJobData,
+	notifyNewTip,
+} from '../miner';
+import { checkHashDifficulty, generateHash } from '../proofOfWork';
+
+// Workers load the TypeScript sources through ts-node, which takes a while on first start
+jest.setTimeout(120 * 1000);
+
+const buildData = ({
+	previousHash,
+	difficulty,
+}: {
+	previousHash: string;
+	difficulty: number;
+}): MiningJobData => ({
+	version: CURRENT_BLOCK_VERSION,
+	index: 1,
+	previousHash,
+	timestamp: 1734667275522,
+	transactions: [],
+	merkleRoot: 'b'.repeat(64),
+	difficulty,
+});
+
+beforeAll(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => undefined);
+	initMiner({ threads: 1 });
+});
+
+afterAll(() => {
+	// Terminates the workers
+	initMiner({ threads: 1 });
+	jest.restoreAllMocks();
+});
+
+describe('miner', () => {
+	it('mines a block meeting its difficulty', async () => {
+		const data = buildData({ previousHash: 'a'.repeat(64), difficulty: 6 });
+
+		const block = await mineBlock({ buildBlockData: () => data });
+
+		expect(block.hash).toBe(generateHash({ ...data, proof: block.proof }));
+		expect(checkHashDifficulty(block.hash, 6)).toBe(true);
+		expect(getMiningStatus()).toMatchObject({ mining: false, workers: 1, restarts: 0 });
+		expect(getMiningStatus().hashes).toBeGreaterThan(0);
+	});
+
+	it('runs queued jobs one after the other', async () => {
+		const first = mineBlock({
+			buildBlockData: () => buildData({ previousHash: 'c'.repeat(64), difficulty: 4 }),
+		});
+		const second = mineBlock({
+			buildBlockData: () => buildData({ previousHash: 'd'.repeat(64), difficulty: 4 }),
+		});
+
+		expect(getMiningStatus().queuedJobs).toBe(2);
+
+		const blocks = await Promise.all([first, second]);
+
+		expect(blocks.map((block) => block.previousHash)).toEqual(['c'.repeat(64), 'd'.repeat(64)]);
+		expect(getMiningStatus().queuedJobs).toBe(0);
+	});
+
+	it('restarts the job on a new tip', async () => {
+		// Unreachable difficulty until the tip changes
+		let tip = { previousHash: 'e'.repeat(64), difficulty: 256 };
+
+		const job = mineBlock({ buildBlockData: () => buildData(tip) });
+
+		// Let the job start
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(getMiningStatus()).toMatchObject({ mining: true, difficulty: 256 });
+
+		tip = { previousHash: 'f'.repeat(64), difficulty: 4 };
+		notifyNewTip({ hash: tip.previousHash });
+
+		const block = await job;
+
+		expect(block.previousHash).toBe('f'.repeat(64));
+		expect(checkHashDifficulty(block.hash, 4)).toBe(true);
+		expect(getMiningStatus().restarts).toBe(1);
+	});
+
+	it('fails the job when the block data cannot be built on the new tip', async () => {
+		let failing = false;
+
+		const job = mineBlock({
+			buildBlockData: () => {
+				if (failing) throw new Error('No tip');
+				return buildData({ previousHash: 'a'.repeat(64), difficulty: 256 });
+			},
+		});
+
+		await new Promise((resolve) => setImmediate(resolve));
+
+		failing = true;
+		notifyNewTip({ hash: 'b'.repeat(64) });
+
+		await expect(job).rejects.toThrow('No tip');
+		expect(getMiningStatus().mining).toBe(false);
+	});
+
+	it('describes the block being mined', async () => {
+		const controller = new AbortController();
+
+		const job = mineBlock({
+			buildBlockData: () => buildData({ previousHash: 'a'.repeat(64), difficulty: 256 }),
+			signal: controller.signal,
+		});
+
+		await new Promise((resolve) => setImmediate(resolve));
+
+		expect(getMiningTemplate()).toEqual({
+			index: 1,
+			previousHash: 'a'.repeat(64),
+			timestamp: 1734667275522,
+			difficulty: 256,
+			transactions: [],
+		});
+
+		controller.abort();
+
+		await expect(job).rejects.toThrow('Mining cancelled');
+		expect(getMiningTemplate()).toBeNull();
+	});
+
+	it('cancels a queued job before it starts', async () => {
+		const running = new AbortController();
+		const queued = new AbortController();
+		const buildBlockData = jest.fn(() =>
+			buildData({ previousHash: 'a'.repeat(64), difficulty: 256 })
+		);
+
+		const first = mineBlock({ buildBlockData, signal: running.signal });
+		const second = mineBlock({ buildBlockData, signal: queued.signal });
+
+		await new Promise((resolve) => setImmediate(resolve));
+
+		queued.abort();
+		running.abort();
+
+		await expect(first).rejects.toThrow('Mining cancelled');
+		await expect(second).rejects.toThrow('Mining cancelled');
+		expect(buildBlockData).toHaveBeenCalledTimes(1);
+	});
+});
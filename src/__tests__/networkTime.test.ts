@@ -0,0 +1,134 @@
+import WebSocket from 'ws';
+import {
+	addTimeSample,
+	getAdjustedTime,
+	getNetworkTimeStatus,
+	getTimeOffset,
+	removeTimeSample,
+} from '../networkTime';
+
+const NOW = 1767312000000;
+
+let peers: WebSocket[] = [];
+
+/**
+ * Samples a peer clock for each offset, relative to the mocked local clock, each peer from its
+ * own address unless one is given.
+ *
+ * @param offsets The offset of each peer clock, in milliseconds.
+ * @param address The address every peer connects from.
+ */
+const sample = (offsets: number[], address?: string) => {
+	offsets.forEach((offset) => {
+		const peer = {} as WebSocket;
+
+		peers.push(peer);
+		addTimeSample({
+			peer,
+			address: address ?? `10.0.0.${peers.length}`,
+			timestamp: NOW + offset,
+		});
+	});
+};
+
+beforeEach(() => {
+	jest.spyOn(Date, 'now').mockReturnValue(NOW);
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	peers.forEach((peer) => removeTimeSample({ peer }));
+	peers = [];
+	jest.restoreAllMocks();
+});
+
+describe('getTimeOffset', () => {
+	it('keeps the local clock until enough peers are sampled', () => {
+		sample([10000, 10000, 10000, 10000]);
+
+		expect(getTimeOffset()).toBe(0);
+		expect(getNetworkTimeStatus().samples).toBe(4);
+	});
+
+	it('averages the two middle offsets of an even number of samples', () => {
+		// The local clock makes a sixth sample with no offset
+		sample([1000, 2000, 3000, 4000, 5000]);
+
+		expect(getTimeOffset()).toBe(2500);
+	});
+
+	it('takes the middle offset of an odd number of samples', () => {
+		sample([1000, 2000, 3000, 4000, 5000, 6000]);
+
+		expect(getTimeOffset()).toBe(3000);
+	});
+
+	it('does not let the upper half of an even number of samples decide the offset', () => {
+		sample([-1000, -1000, 9000, 9000, 9000]);
+
+		expect(getTimeOffset()).toBe(4500);
+	});
+
+	it('ignores an offset larger than the largest offset the node adjusts to', () => {
+		sample(Array(5).fill(20 * 1000));
+
+		expect(getTimeOffset()).toBe(0);
+		expect(console.error).toHaveBeenCalled();
+	});
+
+	it('keeps the local clock when the peer clocks disagree', () => {
+		// The median is 1 s, but only the local clock and two peers are close to it
+		sample([-30000, -30000, 1000, 1000, 30000, 30000]);
+
+		expect(getTimeOffset()).toBe(0);
+	});
+
+	it('adjusts to the clocks agreeing with the median despite a few outliers', () => {
+		sample([-60000, 1000, 1000, 1000, 1000, 60000]);
+
+		expect(getTimeOffset()).toBe(1000);
+	});
+
+	it('samples a single clock per address', () => {
+		sample(Array(5).fill(1000), '10.0.0.1');
+
+		expect(getNetworkTimeStatus().samples).toBe(1);
+		expect(getTimeOffset()).toBe(0);
+
+		// The next connection from the address is sampled once the first one disconnects
+		removeTimeSample({ peer: peers[0] });
+		addTimeSample({ peer: peers[1], address: '10.0.0.1', timestamp: NOW + 2000 });
+
+		expect(getNetworkTimeStatus().samples).toBe(1);
+	});
+
+	it('goes back to the local clock when peers disconnect', () => {
+		sample(Array(5).fill(1000));
+		expect(getTimeOffset()).toBe(1000);
+
+		removeTimeSample({ peer: peers[0] });
+
+		expect(getTimeOffset()).toBe(0);
+	});
+
+	it('ignores samples that are not a time', () => {
+		sample([NaN, Infinity, 1000, 1000, 1000]);
+
+		expect(getNetworkTimeStatus().samples).toBe(3);
+		expect(getTimeOffset()).toBe(0);
+	});
+});
+
+describe('getAdjustedTime', () => {
+	it('corrects the local time by the offset', () => {
+		sample(Array(5).fill(10000));
+
+		expect(getAdjustedTime()).toBe(NOW + 10000);
+		expect(getNetworkTimeStatus()).toEqual({
+			localTime: NOW,
+			adjustedTime: NOW + 10000,
+			offset: 10000,
+			samples: 5,
+		});
+	});
+});
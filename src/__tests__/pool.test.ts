@@ -0,0 +1,47 @@
+import { PoolShare, splitReward } from '../pool';
+
+const ALICE = 'a'.repeat(130);
+const BOB = 'b'.repeat(130);
+
+describe('splitReward', () => {
+	it('splits the reward in proportion to the number of shares', () => {
+		const shares: PoolShare[] = [
+			{ address: ALICE, difficulty: 8 },
+			{ address: BOB, difficulty: 8 },
+			{ address: ALICE, difficulty: 8 },
+		];
+
+		expect(splitReward({ reward: 60, shares })).toEqual([
+			{ address: ALICE, amount: 40 },
+			{ address: BOB, amount: 20 },
+		]);
+	});
+
+	it('weighs each share by the work needed to find it', () => {
+		// A share one bit harder takes twice as many proofs to find
+		const shares: PoolShare[] = [
+			{ address: ALICE, difficulty: 9 },
+			{ address: BOB, difficulty: 8 },
+			{ address: BOB, difficulty: 8 },
+			{ address: BOB, difficulty: 8 },
+		];
+
+		expect(splitReward({ reward: 50, shares })).toEqual([
+			{ address: ALICE, amount: 20 },
+			{ address: BOB, amount: 30 },
+		]);
+	});
+
+	it('rounds the amounts down and leaves out workers earning nothing', () => {
+		const shares: PoolShare[] = [
+			{ address: ALICE, difficulty: 12 },
+			{ address: BOB, difficulty: 1 },
+		];
+
+		expect(splitReward({ reward: 10, shares })).toEqual([{ address: ALICE, amount: 9 }]);
+	});
+
+	it('pays nobody without shares', () => {
+		expect(splitReward({ reward: 50, shares: [] })).toEqual([]);
+	});
+});
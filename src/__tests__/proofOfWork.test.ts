@@ -0,0 +1,56 @@
+import { CANONICAL_BLOCK_VERSION, LEGACY_BLOCK_VERSION, MERKLE_BLOCK_VERSION } from '../block';
+import { checkHashDifficulty, generateHash } from '../proofOfWork';
+import { getCoinbaseTransaction } from '../transaction';
+import { MINER_ADDRESS } from './helpers/chain';
+
+const data = {
+	index: 1,
+	previousHash: 'a'.repeat(64),
+	timestamp: 1734667275522,
+	transactions: [getCoinbaseTransaction({ address: MINER_ADDRESS, blockIndex: 1 })],
+	merkleRoot: 'b'.repeat(64),
+	difficulty: 0,
+	proof: 0,
+};
+
+describe('checkHashDifficulty', () => {
+	it('counts the leading zero bits of the hash', () => {
+		const hash = `0f${'f'.repeat(62)}`;
+
+		expect(checkHashDifficulty(hash, 0)).toBe(true);
+		expect(checkHashDifficulty(hash, 4)).toBe(true);
+		expect(checkHashDifficulty(hash, 5)).toBe(false);
+	});
+
+	it('rejects a hash that is not hexadecimal', () => {
+		expect(checkHashDifficulty('not a hash', 0)).toBe(false);
+	});
+});
+
+describe('generateHash', () => {
+	it('changes with the proof', () => {
+		expect(generateHash(data)).not.toBe(generateHash({ ...data, proof: 1 }));
+	});
+
+	it('depends on the version of the block', () => {
+		const hashes = [LEGACY_BLOCK_VERSION, CANONICAL_BLOCK_VERSION, MERKLE_BLOCK_VERSION].map(
+			(version) => generateHash({ ...data, version })
+		);
+
+		expect(new Set(hashes).size).toBe(3);
+	});
+
+	it('covers the transactions through the Merkle root from version 3 onwards', () => {
+		const version = MERKLE_BLOCK_VERSION;
+
+		expect(generateHash({ ...data, version, transactions: [] })).toBe(
+			generateHash({ ...data, version })
+		);
+		expect(generateHash({ ...data, version, merkleRoot: 'c'.repeat(64) })).not.toBe(
+			generateHash({ ...data, version })
+		);
+		expect(
+			generateHash({ ...data, version: CANONICAL_BLOCK_VERSION, transactions: [] })
+		).not.toBe(generateHash({ ...data, version: CANONICAL_BLOCK_VERSION }));
+	});
+});
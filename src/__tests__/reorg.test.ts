@@ -0,0 +1,130 @@
+import { MemoryBlockStore } from '../blockStore';
+import {
+	addBlock,
+	getBlockchain,
+	getLastBlock,
+	getUnspentTxOuts,
+	initBlockchain,
+	replaceChain,
+} from '../blockchain';
+import { Block } from '../block';
+import { selectChainParams } from '../chainParams';
+import { getPublicKey, Transaction, UnspentTxOut } from '../transaction';
+import { getTransactionPool } from '../transactionPool';
+import { UnspentTxOutSet } from '../unspentTxOutSet';
+import { createTransaction } from '../wallet';
+import { MINER_PRIVATE_KEY, mineTestBlock } from './helpers/chain';
+
+const RECEIVER_ADDRESS = getPublicKey({ privateKey: '2'.repeat(64) });
+
+// Blocks before a coinbase output may be spent on regtest
+const COINBASE_MATURITY = 10;
+
+// Height of the first block after the fork, where the coinbase of the first block is mature
+const FORK_HEIGHT = COINBASE_MATURITY + 1;
+
+/**
+ * Mines a block on top of the current tip and adds it to the blockchain.
+ *
+ * @param transactions The transactions after the coinbase transaction.
+ */
+const mineBlock = (transactions: Transaction[] = []) => {
+	addBlock({
+		newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0, transactions }),
+	});
+};
+
+/**
+ * Sorts unspent transaction outputs so sets can be compared regardless of insertion order.
+ */
+const sorted = (unspentTxOuts: UnspentTxOut[]): UnspentTxOut[] =>
+	[...unspentTxOuts].sort((a, b) =>
+		`${a.txOutId}:${a.txOutIndex}`.localeCompare(`${b.txOutId}:${b.txOutIndex}`)
+	);
+
+describe('chain reorganization', () => {
+	// The blockchain module keeps its state across tests, so they run as one scenario
+	const store = new MemoryBlockStore();
+	let payment: Transaction;
+	let branch: Block[];
+	let branchUnspentTxOuts: UnspentTxOut[];
+
+	beforeEach(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+		jest.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	beforeAll(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+
+		// Competing branch forking after the common blocks: [genesis, 1..10, 11', 12']
+		selectChainParams({ network: 'regtest' });
+		initBlockchain({ store });
+		for (let i = 0; i < FORK_HEIGHT - 1; i++) mineBlock();
+
+		const branchStore = new MemoryBlockStore();
+		store.load().forEach((block, index) => branchStore.append(block, store.loadUndo(index)!));
+
+		initBlockchain({ store: branchStore });
+		mineBlock();
+		mineBlock();
+		branch = getBlockchain();
+		branchUnspentTxOuts = getUnspentTxOuts();
+
+		// Active chain [genesis, 1..10, 11] where block 11 pays the receiver
+		initBlockchain({ store });
+		payment = createTransaction({
+			receiverAddress: RECEIVER_ADDRESS,
+			amount: 20,
+			privateKey: MINER_PRIVATE_KEY,
+			transactionPool: [],
+			unspentTxOuts: new UnspentTxOutSet(getUnspentTxOuts()),
+			height: FORK_HEIGHT,
+		});
+		mineBlock([payment]);
+
+		jest.restoreAllMocks();
+	});
+
+	it('keeps the current chain when a branch holds an invalid block', () => {
+		const chain = getBlockchain();
+		const unspentTxOuts = getUnspentTxOuts();
+
+		const tampered = [
+			...branch.slice(0, FORK_HEIGHT + 1),
+			{ ...branch[FORK_HEIGHT + 1], proof: branch[FORK_HEIGHT + 1].proof + 1 },
+		];
+
+		expect(replaceChain(tampered)).toBe(false);
+		expect(getBlockchain()).toEqual(chain);
+		expect(getUnspentTxOuts()).toEqual(unspentTxOuts);
+	});
+
+	it('rolls the orphaned block back with its undo data and applies the heavier branch', () => {
+		const orphaned = getBlockchain()[FORK_HEIGHT];
+
+		expect(replaceChain(branch)).toBe(true);
+
+		expect(getBlockchain()).toEqual(branch);
+		expect(sorted(getUnspentTxOuts())).toEqual(sorted(branchUnspentTxOuts));
+		expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('No undo data'));
+		expect(console.log).toHaveBeenCalledWith(
+			`\nChain reorganization of depth 1 at height ${FORK_HEIGHT}: ${orphaned.hash} -> ${branch[FORK_HEIGHT + 1].hash}`
+		);
+	});
+
+	it('persists the new branch with its undo data', () => {
+		expect(store.load()).toEqual(branch);
+		expect(store.loadUndo(FORK_HEIGHT + 1)).toEqual([]);
+	});
+
+	it('returns the transactions of the orphaned block to the pool', () => {
+		expect(getTransactionPool().map((transaction: Transaction) => transaction.id)).toEqual([
+			payment.id,
+		]);
+	});
+});
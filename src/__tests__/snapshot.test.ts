@@ -0,0 +1,98 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryBlockStore } from '../blockStore';
+import {
+	addBlock,
+	getBlockchain,
+	getLastBlock,
+	getSnapshots,
+	getUnspentTxOuts,
+	initBlockchain,
+} from '../blockchain';
+import { SnapshotStore } from '../snapshotStore';
+import { mineTestBlock } from './helpers/chain';
+
+const directory = mkdtempSync(join(tmpdir(), 'snapshots-'));
+
+/**
+ * Mines blocks on top of the current tip, each paying the block reward to the test wallet.
+ *
+ * @param count The number of blocks to mine.
+ */
+const mineBlocks = (count: number) => {
+	for (let i = 0; i < count; i++)
+		addBlock({ newBlock: mineTestBlock({ previous: getLastBlock(), difficulty: 0 }) });
+};
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+afterAll(() => {
+	rmSync(directory, { recursive: true, force: true });
+});
+
+describe('UTXO snapshots', () => {
+	// The blockchain module keeps its state across tests, so they run as one scenario
+	const store = new MemoryBlockStore();
+	let unspentTxOuts: ReturnType<typeof getUnspentTxOuts>;
+
+	it('writes a snapshot every interval blocks', () => {
+		initBlockchain({ store, snapshots: new SnapshotStore({ directory }), interval: 3 });
+
+		mineBlocks(7);
+		unspentTxOuts = getUnspentTxOuts();
+
+		expect(getSnapshots().map(({ height }) => height)).toEqual([6, 3]);
+	});
+
+	it('restores the unspent outputs from the newest snapshot', () => {
+		initBlockchain({ store, snapshots: new SnapshotStore({ directory }) });
+
+		expect(getBlockchain()).toHaveLength(8);
+		expect(getUnspentTxOuts()).toEqual(unspentTxOuts);
+		expect(console.log).toHaveBeenCalledWith(
+			'\nRestored unspent outputs from snapshot at height 6'
+		);
+	});
+
+	it('falls back to an older snapshot when the newest one is corrupted', () => {
+		const newest = getSnapshots()[0];
+		const newestFile = readdirSync(directory).find((file) =>
+			file.endsWith(`${newest.hash}.json`)
+		);
+		writeFileSync(
+			join(directory, newestFile as string),
+			JSON.stringify({ ...newest, unspentTxOuts: [] })
+		);
+
+		initBlockchain({ store, snapshots: new SnapshotStore({ directory }) });
+
+		expect(getUnspentTxOuts()).toEqual(unspentTxOuts);
+		expect(console.error).toHaveBeenCalledWith('\nIgnoring corrupted snapshot at height 6');
+		expect(console.log).toHaveBeenCalledWith(
+			'\nRestored unspent outputs from snapshot at height 3'
+		);
+	});
+
+	it('ignores snapshots taken on a block that is not on the stored chain', () => {
+		new SnapshotStore({ directory }).write({
+			height: 7,
+			hash: 'ab'.repeat(32),
+			unspentTxOuts: [],
+		});
+
+		initBlockchain({ store, snapshots: new SnapshotStore({ directory }) });
+
+		expect(getUnspentTxOuts()).toEqual(unspentTxOuts);
+		expect(console.log).toHaveBeenCalledWith(
+			'\nRestored unspent outputs from snapshot at height 3'
+		);
+	});
+});
@@ -0,0 +1,134 @@
+import { selectChainParams } from '../chainParams';
+import { LockContext } from '../conditions';
+import { SIGHASH_ALL, SIGHASH_NONE } from '../signatureHash';
+import {
+	getPublicKey,
+	getTransactionId,
+	signTxIn,
+	Transaction,
+	TxIn,
+	TxOut,
+	UnspentTxOut,
+	validateTransaction,
+} from '../transaction';
+import { UnspentTxOutSet } from '../unspentTxOutSet';
+import { MINER_ADDRESS, MINER_PRIVATE_KEY } from './helpers/chain';
+
+const RECEIVER = getPublicKey({ privateKey: '2'.repeat(64) });
+
+const context: LockContext = { height: 200, timestamp: 1767225700000 };
+
+const funding = new UnspentTxOut({
+	txOutId: 'a'.repeat(64),
+	txOutIndex: 0,
+	address: MINER_ADDRESS,
+	amount: 100,
+	height: 1,
+	timestamp: 1767225600000,
+});
+
+/**
+ * Builds an unsigned transaction spending an output to the receiver.
+ *
+ * @param spent The output to spend.
+ * @param amount The amount sent to the receiver.
+ *
+ * @returns The transaction.
+ */
+const buildTransaction = (spent: UnspentTxOut, amount: number): Transaction => {
+	const txIn = new TxIn();
+	txIn.txOutId = spent.txOutId;
+	txIn.txOutIndex = spent.txOutIndex;
+
+	const transaction = new Transaction();
+	transaction.txIns = [txIn];
+	transaction.txOuts = [new TxOut({ address: RECEIVER, amount })];
+	transaction.id = getTransactionId({ transaction });
+
+	return transaction;
+};
+
+/**
+ * Signs the input of a transaction built by `buildTransaction`.
+ */
+const sign = (
+	transaction: Transaction,
+	unspentTxOuts: UnspentTxOutSet,
+	sighashType = SIGHASH_ALL
+) => {
+	transaction.txIns[0].signature = signTxIn({
+		transaction,
+		txInIndex: 0,
+		privateKey: MINER_PRIVATE_KEY,
+		unspentTxOuts,
+		sighashType,
+	});
+};
+
+/**
+ * Changes the amount of the output of a transaction after it was signed.
+ */
+const changeAmount = (transaction: Transaction, amount: number) => {
+	transaction.txOuts[0].amount = amount;
+	transaction.id = getTransactionId({ transaction });
+};
+
+beforeAll(() => {
+	selectChainParams({ network: 'regtest' });
+});
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('signTxIn', () => {
+	const unspentTxOuts = new UnspentTxOutSet([funding]);
+
+	it('signs an input the transaction can be validated with', () => {
+		const transaction = buildTransaction(funding, 90);
+		sign(transaction, unspentTxOuts);
+
+		expect(validateTransaction({ transaction, unspentTxOuts, context })).toBe(true);
+	});
+
+	it('refuses a private key not matching the address of the spent output', () => {
+		const transaction = buildTransaction(funding, 90);
+
+		expect(() =>
+			signTxIn({ transaction, txInIndex: 0, privateKey: '2'.repeat(64), unspentTxOuts })
+		).toThrow(new Error('Trying to sign an input with an invalid private key.'));
+	});
+
+	it('refuses to sign an input whose output is not unspent', () => {
+		const transaction = buildTransaction(funding, 90);
+
+		expect(() =>
+			signTxIn({
+				transaction,
+				txInIndex: 0,
+				privateKey: MINER_PRIVATE_KEY,
+				unspentTxOuts: new UnspentTxOutSet(),
+			})
+		).toThrow('Referenced unspent transaction output not found.');
+	});
+
+	it('commits to every output with the ALL signature hash type', () => {
+		const transaction = buildTransaction(funding, 90);
+		sign(transaction, unspentTxOuts, SIGHASH_ALL);
+		changeAmount(transaction, 50);
+
+		expect(validateTransaction({ transaction, unspentTxOuts, context })).toBe(false);
+	});
+
+	it('commits to no output with the NONE signature hash type', () => {
+		const transaction = buildTransaction(funding, 90);
+		sign(transaction, unspentTxOuts, SIGHASH_NONE);
+		changeAmount(transaction, 50);
+
+		expect(validateTransaction({ transaction, unspentTxOuts, context })).toBe(true);
+	});
+});
@@ -0,0 +1,465 @@
+import { MemoryBlockStore } from '../blockStore';
+import {
+	addBlock,
+	getBlockTemplate,
+	getLastBlock,
+	getUnspentTxOuts,
+	initBlockchain,
+} from '../blockchain';
+import * as chainParams from '../chainParams';
+import { LockContext } from '../conditions';
+import { getPublicKey, getTransactionSize, Transaction, UnspentTxOut } from '../transaction';
+import {
+	addToTransactionPool,
+	expireTransactions,
+	getTransactionPool,
+	getTransactionPoolEntries,
+	getTransactionPoolStats,
+	getTransactionsByFeeRate,
+	initTransactionPool,
+	takeTransactionsToRebroadcast,
+	updateTransactionPool,
+} from '../transactionPool';
+import { UnspentTxOutSet } from '../unspentTxOutSet';
+import { createPaymentTransaction, Payment } from '../wallet';
+import { MINER_ADDRESS, MINER_PRIVATE_KEY, mineTestBlock, mineTestBlocks } from './helpers/chain';
+
+// Room the block template leaves for the coinbase transaction, in bytes
+const COINBASE_SIZE_RESERVE = 1000;
+
+// Time a transaction stays pooled by default, in milliseconds
+const DEFAULT_EXPIRY = 14 * 24 * 60 * 60 * 1000;
+
+// Largest number of pooled transactions a pooled transaction depends on
+const MAX_ANCESTORS = 25;
+
+// Fee per byte a replacement pays on top of the fees it replaces
+const MIN_RELAY_FEE_RATE = 0.001;
+
+const NOW = 1767225600000;
+
+const RECEIVER = getPublicKey({ privateKey: '2'.repeat(64) });
+
+const context: LockContext = { height: 100, timestamp: NOW };
+
+const fundings = ['a', 'b', 'c', 'd'].map(
+	(id) =>
+		new UnspentTxOut({
+			txOutId: id.repeat(64),
+			txOutIndex: 0,
+			address: MINER_ADDRESS,
+			amount: 100,
+		})
+);
+
+const unspentTxOuts = new UnspentTxOutSet(fundings);
+
+/**
+ * Creates a transaction paying the receiver from the test wallet, spending an output not spent
+ * by the pool yet.
+ *
+ * @param fee The fee of the transaction.
+ * @param outputs The set of unspent transaction outputs to spend from.
+ * @param height The index of the block the transaction is meant for.
+ *
+ * @returns The signed transaction.
+ */
+const pay = ({
+	fee,
+	outputs = unspentTxOuts,
+	height = context.height,
+}: {
+	fee: number;
+	outputs?: UnspentTxOutSet;
+	height?: number;
+}): Transaction =>
+	createPaymentTransaction({
+		payments: [{ address: RECEIVER, amount: 10 }],
+		privateKey: MINER_PRIVATE_KEY,
+		transactionPool: getTransactionPool(),
+		unspentTxOuts: outputs,
+		height,
+		fee,
+	});
+
+/**
+ * Creates a transaction spending the first funding output, so every such transaction conflicts
+ * with the others.
+ *
+ * @param fee The fee of the transaction.
+ * @param replaceable Whether the transaction signals replace-by-fee.
+ * @param payments The payments of the transaction, one to the receiver by default.
+ *
+ * @returns The signed transaction.
+ */
+const spendFunding = ({
+	fee,
+	replaceable = true,
+	payments = [{ address: RECEIVER, amount: 10 }],
+}: {
+	fee: number;
+	replaceable?: boolean;
+	payments?: Payment[];
+}): Transaction =>
+	createPaymentTransaction({
+		payments,
+		privateKey: MINER_PRIVATE_KEY,
+		transactionPool: [],
+		unspentTxOuts,
+		height: context.height,
+		fee,
+		replaceable,
+		inputs: [fundings[0]],
+	});
+
+const add = (
+	transaction: Transaction,
+	outputs: UnspentTxOutSet = unspentTxOuts,
+	{ local }: { local?: boolean } = {}
+) => addToTransactionPool(transaction, outputs, { context, local });
+
+const getPoolIds = () => getTransactionPool().map((transaction: Transaction) => transaction.id);
+
+beforeEach(() => {
+	jest.spyOn(console, 'log').mockImplementation(() => {});
+	jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	// Spending the funding outputs elsewhere empties the pool
+	updateTransactionPool(new UnspentTxOutSet(), context);
+	initTransactionPool({ maxSize: 5000000, maxCount: 10000, expiry: DEFAULT_EXPIRY });
+	jest.restoreAllMocks();
+});
+
+describe('transaction pool limits', () => {
+	it('evicts the transaction with the lowest fee rate once the pool is full', () => {
+		initTransactionPool({ maxCount: 2 });
+
+		const low = pay({ fee: 1 });
+		add(low);
+		const mid = pay({ fee: 2 });
+		add(mid);
+		const high = pay({ fee: 3 });
+		add(high);
+
+		expect(getPoolIds()).toEqual([mid.id, high.id]);
+	});
+
+	it('refuses a transaction not paying more than the transactions it would evict', () => {
+		initTransactionPool({ maxCount: 2 });
+
+		add(pay({ fee: 2 }));
+		add(pay({ fee: 3 }));
+		const before = getPoolIds();
+
+		expect(() => add(pay({ fee: 1 }))).toThrow(
+			'Transaction fee rate too low, the transaction pool is full'
+		);
+		expect(getPoolIds()).toEqual(before);
+	});
+
+	it('evicts the lowest fee rates to fit the size limit', () => {
+		const low = pay({ fee: 1 });
+		const size = getTransactionSize({ transaction: low });
+		initTransactionPool({ maxSize: 2 * size });
+
+		add(low);
+		add(pay({ fee: 2 }));
+		const high = pay({ fee: 5 });
+		add(high);
+
+		expect(getPoolIds()).toHaveLength(2);
+		expect(getPoolIds()).not.toContain(low.id);
+		expect(getPoolIds()).toContain(high.id);
+	});
+
+	it('refuses a transaction larger than the whole pool', () => {
+		const transaction = pay({ fee: 1 });
+		initTransactionPool({ maxSize: getTransactionSize({ transaction }) - 1 });
+
+		expect(() => add(transaction)).toThrow('Transaction is larger than the transaction pool');
+	});
+
+	it('reports the fee rate a new transaction must exceed once full', () => {
+		initTransactionPool({ maxCount: 2 });
+
+		const low = pay({ fee: 1 });
+		add(low);
+		expect(getTransactionPoolStats().minFeeRate).toBe(0);
+
+		add(pay({ fee: 2 }));
+		const stats = getTransactionPoolStats();
+
+		expect(stats.count).toBe(2);
+		expect(stats.totalFees).toBe(3);
+		expect(stats.minFeeRate).toBe(1 / getTransactionSize({ transaction: low }));
+		expect(stats.feeHistogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(2);
+	});
+});
+
+describe('getTransactionsByFeeRate', () => {
+	it('skips the transactions no longer fitting for smaller ones', () => {
+		const low = pay({ fee: 1 });
+		add(low);
+		const high = pay({ fee: 5 });
+		add(high);
+
+		const maxSize = getTransactionSize({ transaction: high });
+
+		expect(getTransactionsByFeeRate({ maxSize }).map(({ id }) => id)).toEqual([high.id]);
+	});
+
+	it('selects a parent paying a low fee along with its child paying a high one', () => {
+		const parent = spendFunding({ fee: 1 });
+		add(parent);
+		const other = pay({ fee: 5 });
+		add(other);
+
+		// The child spends the change of its parent, still unconfirmed
+		const change = new UnspentTxOut({
+			txOutId: parent.id,
+			txOutIndex: 1,
+			address: MINER_ADDRESS,
+			amount: parent.txOuts[1].amount,
+		});
+		const child = createPaymentTransaction({
+			payments: [{ address: RECEIVER, amount: 10 }],
+			privateKey: MINER_PRIVATE_KEY,
+			transactionPool: [],
+			unspentTxOuts: new UnspentTxOutSet([change]),
+			height: context.height,
+			fee: 20,
+			inputs: [change],
+		});
+		add(child);
+
+		expect(getTransactionsByFeeRate().map(({ id }) => id)).toEqual([
+			parent.id,
+			child.id,
+			other.id,
+		]);
+	});
+});
+
+describe('replace-by-fee', () => {
+	it('refuses to replace a transaction not signaling replace-by-fee', () => {
+		add(spendFunding({ fee: 1, replaceable: false }));
+
+		expect(() => add(spendFunding({ fee: 5 }))).toThrow(
+			'Transaction conflicts with a pooled transaction not signaling replace-by-fee'
+		);
+	});
+
+	it('refuses a replacement not paying the minimum relay fee on top of the replaced fees', () => {
+		const original = spendFunding({ fee: 1 });
+		add(original);
+
+		const replacement = spendFunding({ fee: 1.0001 });
+		const minFee = 1 + MIN_RELAY_FEE_RATE * getTransactionSize({ transaction: replacement });
+
+		expect(() => add(replacement)).toThrow(`Replacement fee must exceed ${minFee}`);
+		expect(getPoolIds()).toEqual([original.id]);
+	});
+
+	it('replaces a transaction when paying more than the replaced fees and the minimum relay fee', () => {
+		add(spendFunding({ fee: 1 }));
+
+		const replacement = spendFunding({ fee: 2 });
+		add(replacement);
+
+		expect(getPoolIds()).toEqual([replacement.id]);
+	});
+
+	it('refuses a larger replacement paying more fees at a lower fee rate', () => {
+		const original = spendFunding({ fee: 1 });
+		add(original);
+
+		const fee = 4.2;
+		const replacement = spendFunding({
+			fee,
+			payments: Array.from({ length: 16 }, (_, i) => ({
+				address: getPublicKey({ privateKey: (i + 3).toString(16).padStart(64, '0') }),
+				amount: 1,
+			})),
+		});
+		const [{ feeRate }] = getTransactionPoolEntries();
+
+		// The replacement pays the minimum increase, but spreads it over many more bytes
+		expect(fee).toBeGreaterThan(
+			1 + MIN_RELAY_FEE_RATE * getTransactionSize({ transaction: replacement })
+		);
+		expect(fee / getTransactionSize({ transaction: replacement })).toBeLessThan(feeRate);
+
+		expect(() => add(replacement)).toThrow(`Replacement fee rate must exceed ${feeRate}`);
+		expect(getPoolIds()).toEqual([original.id]);
+	});
+});
+
+describe('expireTransactions', () => {
+	it('drops the transactions pooled for longer than the expiry', () => {
+		initTransactionPool({ expiry: 1000 });
+		const now = jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+		const old = pay({ fee: 1 });
+		add(old);
+		now.mockReturnValue(NOW + 500);
+		const recent = pay({ fee: 1 });
+		add(recent);
+
+		now.mockReturnValue(NOW + 999);
+		expect(expireTransactions()).toEqual([]);
+
+		now.mockReturnValue(NOW + 1000);
+		expect(expireTransactions().map(({ id }) => id)).toEqual([old.id]);
+		expect(getPoolIds()).toEqual([recent.id]);
+	});
+
+	it('reports the age and expiry of the pooled transactions', () => {
+		initTransactionPool({ expiry: 1000 });
+		const now = jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+		add(pay({ fee: 1 }));
+		now.mockReturnValue(NOW + 300);
+
+		const [entry] = getTransactionPoolEntries();
+
+		expect(entry.age).toBe(300);
+		expect(entry.expiresAt).toBe(NOW + 1000);
+		expect(entry.local).toBe(false);
+	});
+});
+
+describe('takeTransactionsToRebroadcast', () => {
+	it('rebroadcasts only the local transactions, once every interval', () => {
+		const now = jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+		const local = pay({ fee: 1 });
+		add(local, unspentTxOuts, { local: true });
+		add(pay({ fee: 1 }));
+
+		now.mockReturnValue(NOW + 999);
+		expect(takeTransactionsToRebroadcast({ interval: 1000 })).toEqual([]);
+
+		now.mockReturnValue(NOW + 1000);
+		expect(takeTransactionsToRebroadcast({ interval: 1000 }).map(({ id }) => id)).toEqual([
+			local.id,
+		]);
+
+		// The interval starts again from the last broadcast
+		now.mockReturnValue(NOW + 1500);
+		expect(takeTransactionsToRebroadcast({ interval: 1000 })).toEqual([]);
+
+		expect(getTransactionPoolEntries().map(({ rebroadcasts }) => rebroadcasts)).toEqual([1, 0]);
+	});
+});
+
+describe('unconfirmed chains', () => {
+	// A wallet holding a single confirmed output
+	const confirmed = new UnspentTxOutSet([fundings[0]]);
+
+	const payUnconfirmed = ({ spendUnconfirmed = true }: { spendUnconfirmed?: boolean } = {}) =>
+		createPaymentTransaction({
+			payments: [{ address: RECEIVER, amount: 1 }],
+			privateKey: MINER_PRIVATE_KEY,
+			transactionPool: getTransactionPool(),
+			unspentTxOuts: confirmed,
+			height: context.height,
+			spendUnconfirmed,
+		});
+
+	it('spends the change of pooled wallet transactions once the confirmed outputs run short', () => {
+		const parent = payUnconfirmed();
+		add(parent, confirmed);
+
+		expect(() => payUnconfirmed({ spendUnconfirmed: false })).toThrow(
+			'Not enough coins to send transaction'
+		);
+
+		const child = payUnconfirmed();
+		add(child, confirmed);
+
+		expect(child.txIns.map(({ txOutId }) => txOutId)).toEqual([parent.id]);
+		expect(getPoolIds()).toEqual([parent.id, child.id]);
+	});
+
+	it('drops the chained transactions with the transaction they spend', () => {
+		add(payUnconfirmed(), confirmed);
+		add(payUnconfirmed(), confirmed);
+
+		// Another transaction spending the confirmed output was mined
+		updateTransactionPool(new UnspentTxOutSet(), context);
+
+		expect(getPoolIds()).toEqual([]);
+	});
+
+	it(`refuses a transaction depending on more than ${MAX_ANCESTORS} pooled transactions`, () => {
+		for (let i = 0; i <= MAX_ANCESTORS; i++) add(payUnconfirmed(), confirmed);
+
+		expect(() => add(payUnconfirmed(), confirmed)).toThrow(
+			`Transaction depends on more than ${MAX_ANCESTORS} pooled transactions`
+		);
+		expect(getPoolIds()).toHaveLength(MAX_ANCESTORS + 1);
+	});
+});
+
+describe('block size limit', () => {
+	const regtest = chainParams.selectChainParams({ network: 'regtest' });
+
+	const setMaxBlockSize = (maxBlockSize: number) =>
+		jest.spyOn(chainParams, 'getChainParams').mockReturnValue({ ...regtest, maxBlockSize });
+
+	// Enough blocks for the first two coinbase outputs to be mature in the next block
+	const HEIGHT = regtest.coinbaseMaturity + 2;
+
+	let outputs: UnspentTxOutSet;
+
+	beforeEach(() => {
+		initBlockchain({ store: new MemoryBlockStore() });
+		mineTestBlocks({ previous: getLastBlock(), difficulties: Array(HEIGHT).fill(0) }).forEach(
+			(newBlock) => addBlock({ newBlock })
+		);
+
+		outputs = new UnspentTxOutSet(getUnspentTxOuts());
+	});
+
+	const payNextBlock = ({ fee }: { fee: number }) =>
+		pay({ fee, outputs, height: getLastBlock().index + 1 });
+
+	it('rejects a block larger than the maximum block size', () => {
+		const block = mineTestBlock({
+			previous: getLastBlock(),
+			difficulty: 0,
+			transactions: [payNextBlock({ fee: 1 })],
+		});
+		const size = block.transactions.reduce(
+			(sum, transaction) => sum + getTransactionSize({ transaction }),
+			0
+		);
+
+		setMaxBlockSize(size - 1);
+		expect(addBlock({ newBlock: block })).toBe(false);
+
+		setMaxBlockSize(size);
+		expect(addBlock({ newBlock: block })).toBe(true);
+	});
+
+	it('fills the block template with the highest fee rates fitting the block', () => {
+		const low = payNextBlock({ fee: 1 });
+		add(low, outputs);
+		const high = payNextBlock({ fee: 5 });
+		add(high, outputs);
+
+		setMaxBlockSize(
+			COINBASE_SIZE_RESERVE +
+				getTransactionSize({ transaction: high }) +
+				getTransactionSize({ transaction: low }) -
+				1
+		);
+
+		const { transactions } = getBlockTemplate({ address: MINER_ADDRESS });
+
+		expect(transactions.slice(1).map(({ id }) => id)).toEqual([high.id]);
+		expect(transactions[0].txOuts[0].amount).toBe(50 + 5);
+	});
+});
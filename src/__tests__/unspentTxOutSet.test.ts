@@ -0,0 +1,61 @@
+import { UnspentTxOut } from '../transaction';
+import { UnspentTxOutSet } from '../unspentTxOutSet';
+
+const ALICE = 'alice';
+const BOB = 'bob';
+
+const output = (txOutId: string, txOutIndex: number, address: string, amount: number) =>
+	new UnspentTxOut({ txOutId, txOutIndex, address, amount });
+
+describe('UnspentTxOutSet', () => {
+	it('indexes the outputs by outpoint and by address', () => {
+		const set = new UnspentTxOutSet([
+			output('a', 0, ALICE, 10),
+			output('a', 1, BOB, 5),
+			output('b', 0, ALICE, 7),
+		]);
+
+		expect(set.size).toBe(3);
+		expect(set.get({ txOutId: 'a', txOutIndex: 1 })).toEqual(output('a', 1, BOB, 5));
+		expect(set.has({ txOutId: 'b', txOutIndex: 1 })).toBe(false);
+		expect(set.findByAddress(ALICE)).toEqual([
+			output('a', 0, ALICE, 10),
+			output('b', 0, ALICE, 7),
+		]);
+		expect(set.getBalance(ALICE)).toBe(17);
+		expect(set.getBalance('nobody')).toBe(0);
+	});
+
+	it('keeps the balances and address index in step when outputs are spent', () => {
+		const set = new UnspentTxOutSet([output('a', 0, ALICE, 10), output('b', 0, ALICE, 7)]);
+
+		expect(set.delete({ txOutId: 'a', txOutIndex: 0 })).toEqual(output('a', 0, ALICE, 10));
+		expect(set.getBalance(ALICE)).toBe(7);
+
+		set.delete({ txOutId: 'b', txOutIndex: 0 });
+		expect(set.findByAddress(ALICE)).toEqual([]);
+		expect(set.getBalance(ALICE)).toBe(0);
+
+		expect(set.delete({ txOutId: 'b', txOutIndex: 0 })).toBeUndefined();
+	});
+
+	it('replaces an output added again at the same outpoint', () => {
+		const set = new UnspentTxOutSet([output('a', 0, ALICE, 10)]);
+
+		set.add(output('a', 0, BOB, 3));
+
+		expect(set.size).toBe(1);
+		expect(set.getBalance(ALICE)).toBe(0);
+		expect(set.getBalance(BOB)).toBe(3);
+	});
+
+	it('clones into an independent set', () => {
+		const set = new UnspentTxOutSet([output('a', 0, ALICE, 10)]);
+		const clone = set.clone();
+
+		clone.delete({ txOutId: 'a', txOutIndex: 0 });
+
+		expect(set.getBalance(ALICE)).toBe(10);
+		expect(clone.toArray()).toEqual([]);
+	});
+});
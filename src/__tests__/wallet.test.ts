@@ -0,0 +1,36 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('initWallet', () => {
+	const directory = mkdtempSync(join(tmpdir(), 'wallet-'));
+	let wallet: typeof import('../wallet');
+
+	beforeAll(async () => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+
+		// The wallet location is read when the module loads
+		process.env.PRIVATE_KEY = join(directory, 'private_key');
+		wallet = await import('../wallet');
+	});
+
+	afterAll(() => {
+		jest.restoreAllMocks();
+		delete process.env.PRIVATE_KEY;
+		rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('creates a wallet when there is none', () => {
+		wallet.initWallet();
+
+		expect(existsSync(join(directory, 'private_key'))).toBe(true);
+	});
+
+	it('keeps the key of an existing wallet', () => {
+		const privateKey = wallet.getPrivateFromWallet();
+
+		wallet.initWallet();
+
+		expect(readFileSync(join(directory, 'private_key'), 'utf8')).toBe(privateKey);
+	});
+});
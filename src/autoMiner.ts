@@ -0,0 +1,121 @@
+import { generateBlock, getNextDifficulty } from './blockchain';
+import { MiningTemplate, getMiningStatus, getMiningTemplate } from './miner';
+import { validateAddress } from './transaction';
+
+const RETRY_DELAY = 1000; // Delay before mining again after a failed block, in milliseconds
+
+interface AutoMinerStatus {
+	running: boolean; // Whether the auto-miner is running
+	address: string | null; // Address the block rewards are paid to
+	startedAt: number | null; // Time the auto-miner was started
+	blocksFound: number; // Number of blocks found since the auto-miner was started
+	lastBlockHash: string | null; // Hash of the last block found
+	difficulty: number; // Difficulty of the next block
+	hashrate: number; // Proofs tried per second for the block being mined
+	template: MiningTemplate | null; // Block being mined, if any
+}
+
+// Aborts the running auto-miner, null when stopped
+let controller: AbortController | null = null;
+
+let minerAddress: string | null = null;
+let startedAt: number | null = null;
+let blocksFound = 0;
+let lastBlockHash: string | null = null;
+
+/**
+ * Mines blocks one after the other until the auto-miner is stopped.
+ *
+ * Each block is built on the current tip from the transaction pool. A failed block is retried
+ * after a short delay so a persistent failure does not spin.
+ *
+ * @param address The address the block rewards are paid to.
+ * @param signal Signal stopping the auto-miner.
+ */
+const runAutoMiner = async ({ address, signal }: { address: string; signal: AbortSignal }) => {
+	while (!signal.aborted) {
+		try {
+			const block = await generateBlock({ address, signal });
+
+			if (block) {
+				blocksFound++;
+				lastBlockHash = block.hash;
+				continue;
+			}
+		} catch (error) {
+			if (signal.aborted) return;
+
+			console.error(`\nAuto-miner error: ${(error as Error).message}`);
+		}
+
+		await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
+	}
+};
+
+/**
+ * Starts mining blocks continuously in the background.
+ *
+ * @param address The address the block rewards are paid to.
+ *
+ * @returns The status of the auto-miner.
+ *
+ * @throws {Error} If the auto-miner is already running or the address is invalid.
+ */
+const startAutoMiner = ({ address }: { address: string }): AutoMinerStatus => {
+	if (controller) throw new Error('The auto-miner is already running');
+
+	if (typeof address !== 'string' || !validateAddress({ address }))
+		throw new Error('Invalid miner address');
+
+	controller = new AbortController();
+	minerAddress = address;
+	startedAt = Date.now();
+	blocksFound = 0;
+	lastBlockHash = null;
+
+	console.log(`\nAuto-miner started, paying rewards to ${address}`);
+
+	runAutoMiner({ address, signal: controller.signal });
+
+	return getAutoMinerStatus();
+};
+
+/**
+ * Stops the auto-miner, cancelling the block being mined.
+ *
+ * @returns The status of the auto-miner.
+ *
+ * @throws {Error} If the auto-miner is not running.
+ */
+const stopAutoMiner = (): AutoMinerStatus => {
+	if (!controller) throw new Error('The auto-miner is not running');
+
+	controller.abort();
+	controller = null;
+
+	console.log(`\nAuto-miner stopped after ${blocksFound} block(s)`);
+
+	return getAutoMinerStatus();
+};
+
+/**
+ * Retrieves the status of the auto-miner.
+ *
+ * @returns The status of the auto-miner.
+ */
+const getAutoMinerStatus = (): AutoMinerStatus => {
+	const running = controller !== null;
+
+	return {
+		running,
+		address: minerAddress,
+		startedAt,
+		blocksFound,
+		lastBlockHash,
+		difficulty: getNextDifficulty(),
+		hashrate: running ? getMiningStatus().hashrate : 0,
+		template: running ? getMiningTemplate() : null,
+	};
+};
+
+export { AutoMinerStatus, startAutoMiner, stopAutoMiner, getAutoMinerStatus };
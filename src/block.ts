@@ -1,34 +1,87 @@
 import { Transaction } from './transaction';
 
+/**
+ * Consensus versions of a block. Each version changes how blocks and transactions are hashed:
+ * - 1: Legacy. Block and transaction hashes are built by concatenating fields. The block hash
+ *   does not commit to the transactions.
+ * - 2: Block and transaction hashes are built from their canonical serialization.
+ * - 3: The block header carries the Merkle root of the transaction IDs, and the block hash
+ *   covers the header only, so a transaction can be proven to be in a block without the
+ *   rest of the block.
+ * - 4: Input signatures sign a signature hash of their own, committing to the output they
+ *   spend and to the parts of the transaction their signature hash type selects, instead of
+ *   the transaction ID.
+ * - 5: Coinbase outputs may only be spent once they are as many blocks deep as the coinbase
+ *   maturity of the network.
+ *
+ * Every block after the genesis block must have the current version, so the rules of a new
+ * version apply to every block mined from then on. Only the genesis block keeps the version
+ * it was created with.
+ */
+const LEGACY_BLOCK_VERSION = 1;
+const CANONICAL_BLOCK_VERSION = 2;
+const MERKLE_BLOCK_VERSION = 3;
+const SIGHASH_BLOCK_VERSION = 4;
+const MATURITY_BLOCK_VERSION = 5;
+const CURRENT_BLOCK_VERSION = MATURITY_BLOCK_VERSION;
+
 class Block {
+	public version: number; // Consensus version of the block
 	public index: number; // Block ID
 	public timestamp: number; // Time of block creation
 	public transactions: Transaction[]; // List of transactions
 	public hash: string; // Hash of the block
 	public previousHash: string; // Hash of the previous block
+	public merkleRoot?: string; // Merkle root of the transaction IDs, from version 3 onwards
 	public difficulty: number; // Difficulty level of PoW challenge
 	public proof: number; // Proof calculated by the miner
 
 	/**
 	 * Create a new block
 	 *
+	 * @param version Consensus version of the block, legacy when missing
 	 * @param index Unique identifier of the block
 	 * @param timestamp Time of block creation
 	 * @param transactions List of transactions contained in the block
 	 * @param hash Hash of the block
 	 * @param previousHash Hash of the previous block
+	 * @param merkleRoot Merkle root of the transaction IDs, from version 3 onwards
 	 * @param difficulty Difficulty level of PoW challenge
 	 * @param proof Proof calculated by the miner
 	 */
-	constructor({ index, timestamp, transactions, hash, previousHash, difficulty, proof }: Block) {
+	constructor({
+		version,
+		index,
+		timestamp,
+		transactions,
+		hash,
+		previousHash,
+		merkleRoot,
+		difficulty,
+		proof,
+	}: Block) {
+		this.version = version ?? LEGACY_BLOCK_VERSION;
 		this.index = index;
 		this.timestamp = timestamp;
 		this.transactions = transactions;
 		this.hash = hash;
 		this.previousHash = previousHash;
+		this.merkleRoot = merkleRoot;
 		this.difficulty = difficulty;
 		this.proof = proof;
 	}
 }
 
-export { Block };
+// Block without its transactions, as synced by light clients
+type BlockHeader = Omit<Block, 'transactions'>;
+
+export {
+	Block,
+	BlockHeader,
+	LEGACY_BLOCK_VERSION,
+	CANONICAL_BLOCK_VERSION,
+	MERKLE_BLOCK_VERSION,
+	SIGHASH_BLOCK_VERSION,
+	MATURITY_BLOCK_VERSION,
+	CURRENT_BLOCK_VERSION,
+};
@@ -0,0 +1,347 @@
+import {
+	appendFileSync,
+	closeSync,
+	existsSync,
+	mkdirSync,
+	openSync,
+	readdirSync,
+	readFileSync,
+	readSync,
+	renameSync,
+	statSync,
+	truncateSync,
+	unlinkSync,
+	writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { Block } from './block';
+import { UnspentTxOut } from './transaction';
+
+const MAX_SEGMENT_SIZE = 8 * 1024 * 1024; // Maximum size of a segment file (8 MiB)
+
+const INDEX_FILE = 'index.dat'; // Name of the block index file
+
+interface BlockStore {
+	/**
+	 * Loads every stored block, ordered by block index.
+	 */
+	load(): Block[];
+
+	/**
+	 * Appends a block to the end of the store, together with its undo data: the unspent
+	 * transaction outputs its transactions spent.
+	 */
+	append(block: Block, undo: UnspentTxOut[]): void;
+
+	/**
+	 * Loads the undo data of the block at the given height, or null if it is not stored.
+	 */
+	loadUndo(height: number): UnspentTxOut[] | null;
+
+	/**
+	 * Removes every block with an index greater than or equal to the given height.
+	 */
+	truncate(height: number): void;
+}
+
+interface BlockIndexEntry {
+	hash: string; // Hash of the stored block
+	segment: number; // Number of the segment file holding the block
+	offset: number; // Byte offset of the block inside the segment file
+	length: number; // Byte length of the serialized block
+	undoOffset?: number; // Byte offset of the undo data inside the undo segment file
+	undoLength?: number; // Byte length of the serialized undo data
+}
+
+/**
+ * Block store that only keeps blocks in memory. Nothing survives a restart.
+ */
+class MemoryBlockStore implements BlockStore {
+	private blocks: Block[] = [];
+	private undos: UnspentTxOut[][] = [];
+
+	load(): Block[] {
+		return [...this.blocks];
+	}
+
+	append(block: Block, undo: UnspentTxOut[]): void {
+		this.blocks.push(block);
+		this.undos.push(undo);
+	}
+
+	loadUndo(height: number): UnspentTxOut[] | null {
+		return this.undos[height] ?? null;
+	}
+
+	truncate(height: number): void {
+		this.blocks = this.blocks.slice(0, height);
+		this.undos = this.undos.slice(0, height);
+	}
+}
+
+/**
+ * Block store that persists blocks into append-only segment files.
+ *
+ * Blocks are written as newline-delimited JSON into `blkNNNNN.dat` segment files, a new
+ * segment being started once the current one reaches `MAX_SEGMENT_SIZE`. The undo data of
+ * each block goes into the matching `revNNNNN.dat` segment. An append-only index file
+ * records the hash, segment, offsets and lengths of every block, so blocks can be read back
+ * without scanning the segments. The segments are always written before the index, so an
+ * interrupted write leaves at most a dangling block that is ignored on load.
+ */
+class FileBlockStore implements BlockStore {
+	private readonly directory: string;
+	private entries: BlockIndexEntry[] = [];
+
+	/**
+	 * Creates a file backed block store.
+	 *
+	 * @param directory The directory holding the segment and index files.
+	 */
+	constructor({ directory }: { directory: string }) {
+		this.directory = directory;
+
+		if (!existsSync(directory)) mkdirSync(directory, { recursive: true });
+
+		this.entries = this.readIndex();
+	}
+
+	load(): Block[] {
+		const blocks: Block[] = [];
+
+		for (let height = 0; height < this.entries.length; height++) {
+			const block = this.readBlock(this.entries[height]);
+
+			// Drop everything from the first unreadable block onwards
+			if (!block || block.hash !== this.entries[height].hash || block.index !== height) {
+				console.error(`\nCorrupted block store entry at height ${height}, truncating`);
+				this.truncate(height);
+				break;
+			}
+
+			blocks.push(block);
+		}
+
+		return blocks;
+	}
+
+	append(block: Block, undo: UnspentTxOut[]): void {
+		const data = Buffer.from(`${JSON.stringify(block)}\n`, 'utf8');
+		const undoData = Buffer.from(`${JSON.stringify(undo)}\n`, 'utf8');
+
+		const lastEntry = this.entries[this.entries.length - 1];
+
+		let segment = lastEntry ? lastEntry.segment : 0;
+		let offset = lastEntry ? lastEntry.offset + lastEntry.length : 0;
+		let undoOffset = lastEntry ? (lastEntry.undoOffset ?? 0) + (lastEntry.undoLength ?? 0) : 0;
+
+		// Start a new segment once the current one is full
+		if (offset > 0 && offset + data.length > MAX_SEGMENT_SIZE) {
+			segment++;
+			offset = 0;
+			undoOffset = 0;
+		}
+
+		appendToSegment({ path: this.getSegmentPath(segment), offset, data });
+		appendToSegment({
+			path: this.getUndoSegmentPath(segment),
+			offset: undoOffset,
+			data: undoData,
+		});
+
+		const entry: BlockIndexEntry = {
+			hash: block.hash,
+			segment,
+			offset,
+			length: data.length,
+			undoOffset,
+			undoLength: undoData.length,
+		};
+
+		appendFileSync(this.getIndexPath(), `${JSON.stringify(entry)}\n`);
+
+		this.entries.push(entry);
+	}
+
+	loadUndo(height: number): UnspentTxOut[] | null {
+		const entry = this.entries[height];
+
+		// Blocks stored before undo data was recorded have none
+		if (!entry || entry.undoOffset === undefined || entry.undoLength === undefined) return null;
+
+		const data = readFromSegment({
+			path: this.getUndoSegmentPath(entry.segment),
+			offset: entry.undoOffset,
+			length: entry.undoLength,
+		});
+
+		try {
+			return data ? JSON.parse(data) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	truncate(height: number): void {
+		if (height >= this.entries.length) return;
+
+		const firstRemoved = this.entries[height];
+
+		this.entries = this.entries.slice(0, height);
+
+		// Rewrite the index atomically
+		const temporaryPath = `${this.getIndexPath()}.tmp`;
+		writeFileSync(
+			temporaryPath,
+			this.entries.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+		);
+		renameSync(temporaryPath, this.getIndexPath());
+
+		// Cut the segments holding the first removed block and delete every later segment
+		if (existsSync(this.getSegmentPath(firstRemoved.segment))) {
+			truncateSync(this.getSegmentPath(firstRemoved.segment), firstRemoved.offset);
+		}
+
+		if (existsSync(this.getUndoSegmentPath(firstRemoved.segment))) {
+			truncateSync(
+				this.getUndoSegmentPath(firstRemoved.segment),
+				firstRemoved.undoOffset ?? 0
+			);
+		}
+
+		readdirSync(this.directory)
+			.filter((file) => /^(blk|rev)\d{5}\.dat$/.test(file))
+			.filter((file) => parseInt(file.slice(3, 8), 10) > firstRemoved.segment)
+			.forEach((file) => unlinkSync(join(this.directory, file)));
+	}
+
+	/**
+	 * Reads the index file, ignoring any incomplete trailing record.
+	 *
+	 * @returns The list of index entries ordered by block index.
+	 */
+	private readIndex(): BlockIndexEntry[] {
+		if (!existsSync(this.getIndexPath())) return [];
+
+		const entries: BlockIndexEntry[] = [];
+
+		for (const line of readFileSync(this.getIndexPath(), 'utf8').split('\n')) {
+			if (!line) continue;
+
+			try {
+				entries.push(JSON.parse(line));
+			} catch {
+				console.error('\nIgnoring incomplete block index record');
+				break;
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Reads a single block from its segment file.
+	 *
+	 * @param entry The index entry of the block.
+	 *
+	 * @returns The block, or null if it could not be read.
+	 */
+	private readBlock(entry: BlockIndexEntry): Block | null {
+		const data = readFromSegment({
+			path: this.getSegmentPath(entry.segment),
+			offset: entry.offset,
+			length: entry.length,
+		});
+
+		try {
+			return data ? new Block(JSON.parse(data)) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	private getSegmentPath(segment: number): string {
+		return join(this.directory, `blk${segment.toString().padStart(5, '0')}.dat`);
+	}
+
+	private getUndoSegmentPath(segment: number): string {
+		return join(this.directory, `rev${segment.toString().padStart(5, '0')}.dat`);
+	}
+
+	private getIndexPath(): string {
+		return join(this.directory, INDEX_FILE);
+	}
+}
+
+/**
+ * Appends data at the given offset of a segment file, discarding any bytes left behind past
+ * that offset by an interrupted write.
+ *
+ * @param path The path of the segment file.
+ * @param offset The offset the data must be written at.
+ * @param data The data to append.
+ */
+const appendToSegment = ({
+	path,
+	offset,
+	data,
+}: {
+	path: string;
+	offset: number;
+	data: Buffer;
+}) => {
+	if (existsSync(path) && statSync(path).size !== offset) truncateSync(path, offset);
+
+	appendFileSync(path, data);
+};
+
+/**
+ * Reads a record from a segment file.
+ *
+ * @param path The path of the segment file.
+ * @param offset The byte offset of the record.
+ * @param length The byte length of the record.
+ *
+ * @returns The record as a string, or null if it could not be read.
+ */
+const readFromSegment = ({
+	path,
+	offset,
+	length,
+}: {
+	path: string;
+	offset: number;
+	length: number;
+}): string | null => {
+	if (!existsSync(path)) return null;
+
+	const buffer = Buffer.alloc(length);
+	const fd = openSync(path, 'r');
+
+	try {
+		return readSync(fd, buffer, 0, length, offset) === length ? buffer.toString('utf8') : null;
+	} finally {
+		closeSync(fd);
+	}
+};
+
+/**
+ * Creates the block store selected by the node configuration.
+ *
+ * @param type The type of store, either 'file' or 'memory'.
+ * @param dataDir The directory the file store writes its blocks to.
+ *
+ * @returns The block store.
+ */
+const createBlockStore = ({ type, dataDir }: { type: string; dataDir: string }): BlockStore => {
+	switch (type) {
+		case 'memory':
+			return new MemoryBlockStore();
+		case 'file':
+			return new FileBlockStore({ directory: join(dataDir, 'blocks') });
+		default:
+			throw new Error(`Unknown block store type: ${type}`);
+	}
+};
+
+export { BlockStore, MemoryBlockStore, FileBlockStore, createBlockStore };
@@ -0,0 +1,175 @@
+import WebSocket from 'ws';
+import { hasBlock } from './blockTree';
+
+const MAX_BLOCK_HASHES = 500; // Maximum number of block hashes sent in response to a locator
+const MAX_BLOCKS_PER_BATCH = 50; // Maximum number of blocks requested from a peer at once
+const BLOCK_BATCH_TIMEOUT = 30 * 1000; // Time a peer has to send a requested batch, in milliseconds
+
+interface SyncStatus {
+	pendingBlocks: number; // Number of announced blocks not requested yet
+	inFlightBlocks: number; // Number of blocks requested from peers and not received yet
+	syncingPeers: number; // Number of peers blocks are being downloaded from
+	moreHashes: boolean; // Whether a peer has more block hashes to announce
+}
+
+interface Continuation {
+	peer: WebSocket; // Peer that announced a full batch of hashes
+	hash: string; // Last hash of that batch, to continue announcing from
+}
+
+// Hashes of announced blocks not requested yet, in chain order
+let pendingHashes: string[] = [];
+
+// Hashes of the blocks requested from each peer and not received yet
+const inFlightHashes: Map<WebSocket, string[]> = new Map();
+
+// Last hash of the last full batch of hashes announced by each peer, to continue from once the
+// queued blocks are downloaded
+const continuations: Map<WebSocket, string> = new Map();
+
+/**
+ * Queues block hashes announced by a peer for download.
+ *
+ * Blocks already known, queued or requested are skipped. A full batch of hashes means the
+ * peer has more to announce, so its last hash is kept to continue from with that peer.
+ *
+ * @param peer The peer that announced the hashes.
+ * @param hashes The announced block hashes, in chain order.
+ */
+const addBlockHashes = ({ peer, hashes }: { peer: WebSocket; hashes: string[] }) => {
+	const queued = new Set([...pendingHashes, ...Array.from(inFlightHashes.values()).flat()]);
+
+	for (const hash of hashes) {
+		if (typeof hash !== 'string' || queued.has(hash) || hasBlock({ hash })) continue;
+
+		pendingHashes.push(hash);
+		queued.add(hash);
+	}
+
+	if (hashes.length >= MAX_BLOCK_HASHES) continuations.set(peer, hashes[hashes.length - 1]);
+	else continuations.delete(peer);
+};
+
+/**
+ * Takes the next batch of block hashes to request from a peer.
+ *
+ * Nothing is taken while the peer still has a batch in flight, so each peer serves one batch
+ * at a time.
+ *
+ * @param peer The peer to request the blocks from.
+ *
+ * @returns The block hashes to request, empty if there is nothing to request.
+ */
+const takeBlockBatch = ({ peer }: { peer: WebSocket }): string[] => {
+	if (inFlightHashes.has(peer)) return [];
+
+	// Drop the blocks that arrived in the meantime, from another peer or a broadcast
+	pendingHashes = pendingHashes.filter((hash) => !hasBlock({ hash }));
+
+	const batch = pendingHashes.splice(0, MAX_BLOCKS_PER_BATCH);
+	if (batch.length > 0) inFlightHashes.set(peer, batch);
+
+	return batch;
+};
+
+/**
+ * Marks the batch in flight with a peer as received.
+ *
+ * Hashes of the batch the peer did not send back are dropped, as the peer no longer has them
+ * on its chain. They are announced again by the next locator exchange if still needed.
+ *
+ * @param peer The peer the blocks were received from.
+ */
+const completeBlockBatch = ({ peer }: { peer: WebSocket }) => {
+	inFlightHashes.delete(peer);
+};
+
+/**
+ * Puts the batch in flight with a peer back in front of the queue, so the same blocks are
+ * requested from another peer.
+ *
+ * @param peer The peer the batch was requested from.
+ */
+const requeueBatch = ({ peer }: { peer: WebSocket }) => {
+	const batch = inFlightHashes.get(peer);
+	if (!batch) return;
+
+	inFlightHashes.delete(peer);
+	pendingHashes = [...batch, ...pendingHashes];
+};
+
+/**
+ * Releases the sync state of a peer that disconnected, so the download resumes from the same
+ * blocks with another peer.
+ *
+ * @param peer The disconnected peer.
+ */
+const releasePeer = ({ peer }: { peer: WebSocket }) => {
+	requeueBatch({ peer });
+	continuations.delete(peer);
+};
+
+/**
+ * Requeues a batch a peer did not send within `BLOCK_BATCH_TIMEOUT`. Nothing happens when the
+ * peer sent the batch in the meantime, or was handed another one since.
+ *
+ * @param peer The peer the batch was requested from.
+ * @param batch The block hashes requested from the peer.
+ *
+ * @returns Whether the batch was requeued.
+ */
+const expireBlockBatch = ({ peer, batch }: { peer: WebSocket; batch: string[] }): boolean => {
+	if (inFlightHashes.get(peer) !== batch) return false;
+
+	requeueBatch({ peer });
+
+	return true;
+};
+
+/**
+ * Takes the hashes to continue announcing block hashes from, once the queued blocks are
+ * downloaded. Each hash is only handed out once.
+ *
+ * @returns The last hash of the last full batch of hashes announced by each peer that has
+ * more to announce, empty while blocks are still being downloaded.
+ */
+const takeContinuations = (): Continuation[] => {
+	if (pendingHashes.length > 0 || inFlightHashes.size > 0) return [];
+
+	const taken = Array.from(continuations, ([peer, hash]) => ({ peer, hash }));
+	continuations.clear();
+
+	return taken;
+};
+
+/**
+ * Retrieves the progress of the block download.
+ *
+ * @returns The sync status.
+ */
+const getSyncStatus = (): SyncStatus => {
+	return {
+		pendingBlocks: pendingHashes.length,
+		inFlightBlocks: Array.from(inFlightHashes.values()).reduce(
+			(count, batch) => count + batch.length,
+			0
+		),
+		syncingPeers: inFlightHashes.size,
+		moreHashes: continuations.size > 0,
+	};
+};
+
+export {
+	MAX_BLOCK_HASHES,
+	MAX_BLOCKS_PER_BATCH,
+	BLOCK_BATCH_TIMEOUT,
+	SyncStatus,
+	Continuation,
+	addBlockHashes,
+	takeBlockBatch,
+	completeBlockBatch,
+	releasePeer,
+	expireBlockBatch,
+	takeContinuations,
+	getSyncStatus,
+};
@@ -0,0 +1,452 @@
+import { Block } from './block';
+import {
+	MEDIAN_TIME_SPAN,
+	addBlock,
+	generateHashForBlock,
+	getAccumulatedDifficulty,
+	getBlockchain,
+	getDifficultySpan,
+	getExpectedDifficulty,
+	getLastBlock,
+	replaceChain,
+	validateBlockStructure,
+	validateNewBlock,
+} from './blockchain';
+import { checkHashDifficulty } from './proofOfWork';
+
+const MAX_ORPHAN_BLOCKS = 100; // Maximum number of blocks waiting for their parent
+
+const MAX_INVALID_BLOCKS = 100; // Maximum number of invalid blocks remembered so they are not fetched again
+
+const MAX_FORK_DEPTH = 100; // Number of blocks below the active tip a branch may fork from and still be kept
+
+type BranchStatus = 'active' | 'valid-fork' | 'invalid';
+
+interface BlockTreeNode {
+	block: Block; // The block itself
+	accumulatedDifficulty: number; // Accumulated difficulty from the genesis block up to this block
+	invalid: boolean; // Whether the block, or one of its ancestors, failed validation
+}
+
+interface BlockTip {
+	hash: string; // Hash of the block at the tip of the branch
+	height: number; // Index of the block at the tip of the branch
+	accumulatedDifficulty: number; // Accumulated difficulty of the branch
+	forkHeight: number; // Index of the first block of the branch not on the active chain
+	branchLength: number; // Number of blocks of the branch not on the active chain
+	status: BranchStatus; // Status of the branch
+}
+
+// Every known valid block connected to the genesis block, keyed by hash
+const nodes: Map<string, BlockTreeNode> = new Map();
+
+// Blocks whose parent has not arrived yet, keyed by hash
+const orphanBlocks: Map<string, Block> = new Map();
+
+// Last blocks that failed validation or extend such a block, keyed by hash
+const invalidBlocks: Map<string, BlockTreeNode> = new Map();
+
+/**
+ * Adds the blocks of the active chain that are missing from the tree.
+ *
+ * Blocks are walked back from the tip until a block already in the tree is found, so this
+ * only costs as much as the number of blocks added since the last call.
+ */
+const syncActiveChain = () => {
+	const blockchain = getBlockchain();
+
+	let index = blockchain.length - 1;
+	while (index >= 0 && !nodes.has(blockchain[index].hash)) index--;
+
+	for (index++; index < blockchain.length; index++) {
+		const block = blockchain[index];
+		const parent = nodes.get(block.previousHash);
+
+		invalidBlocks.delete(block.hash);
+		nodes.set(block.hash, {
+			block,
+			accumulatedDifficulty:
+				(parent ? parent.accumulatedDifficulty : 0) + getAccumulatedDifficulty([block]),
+			invalid: false,
+		});
+	}
+};
+
+/**
+ * Checks whether a block is part of the active chain.
+ *
+ * @param block The block to check.
+ * @param blockchain The active chain.
+ *
+ * @returns Whether the block is on the active chain.
+ */
+const isOnActiveChain = (block: Block, blockchain: Block[]): boolean => {
+	return blockchain[block.index]?.hash === block.hash;
+};
+
+/**
+ * Adds a block whose parent is in the tree, then connects the orphan blocks waiting for it.
+ *
+ * The block header is validated against its parent. Blocks failing validation, or extending
+ * an invalid block, are left out of the tree and remembered as invalid so they are not fetched
+ * again.
+ *
+ * @param block The block to add.
+ * @param parent The tree node of the parent block, valid or not.
+ */
+const connectBlock = (block: Block, parent: BlockTreeNode) => {
+	const pending: [Block, BlockTreeNode][] = [[block, parent]];
+
+	while (pending.length > 0) {
+		const [current, currentParent] = pending.pop()!;
+		const ancestors = getAncestorBlocks(
+			currentParent,
+			Math.max(MEDIAN_TIME_SPAN, getDifficultySpan())
+		);
+
+		const node: BlockTreeNode = {
+			block: current,
+			accumulatedDifficulty:
+				currentParent.accumulatedDifficulty + getAccumulatedDifficulty([current]),
+			invalid:
+				currentParent.invalid ||
+				!validateNewBlock({
+					newBlock: current,
+					previousBlock: currentParent.block,
+					previousTimestamps: ancestors
+						.slice(-MEDIAN_TIME_SPAN)
+						.map((ancestor) => ancestor.timestamp),
+					expectedDifficulty: getExpectedDifficulty({
+						chain: ancestors,
+						height: ancestors.length,
+					}),
+				}),
+		};
+
+		if (node.invalid) addInvalidBlock(node);
+		else nodes.set(current.hash, node);
+
+		// Connect the orphan blocks extending this block
+		orphanBlocks.forEach((orphan, hash) => {
+			if (orphan.previousHash !== current.hash) return;
+
+			orphanBlocks.delete(hash);
+			pending.push([orphan, node]);
+		});
+	}
+};
+
+/**
+ * Retrieves the last blocks of a branch, walking back from its tip, enough to check the
+ * timestamp and the difficulty of a block extending it.
+ *
+ * @param node The tree node of the tip of the branch.
+ * @param count The number of blocks to retrieve, fewer if the branch is shorter.
+ *
+ * @returns The blocks, oldest first.
+ */
+const getAncestorBlocks = (node: BlockTreeNode, count: number): Block[] => {
+	const blocks: Block[] = [];
+
+	let current: BlockTreeNode | undefined = node;
+
+	while (current && blocks.length < count) {
+		blocks.push(current.block);
+		current = nodes.get(current.block.previousHash);
+	}
+
+	return blocks.reverse();
+};
+
+/**
+ * Stores a block whose parent is unknown until the parent arrives.
+ *
+ * @param block The orphan block.
+ */
+const addOrphanBlock = (block: Block) => {
+	// Evict the oldest orphan when the pool is full
+	if (orphanBlocks.size >= MAX_ORPHAN_BLOCKS) {
+		orphanBlocks.delete(orphanBlocks.keys().next().value!);
+	}
+
+	orphanBlocks.set(block.hash, block);
+};
+
+/**
+ * Remembers a block as invalid, removing it from the tree.
+ *
+ * @param node The tree node of the invalid block.
+ */
+const addInvalidBlock = (node: BlockTreeNode) => {
+	node.invalid = true;
+	nodes.delete(node.block.hash);
+
+	// Forget the oldest invalid block when the pool is full
+	if (invalidBlocks.size >= MAX_INVALID_BLOCKS) {
+		invalidBlocks.delete(invalidBlocks.keys().next().value!);
+	}
+
+	invalidBlocks.set(node.block.hash, node);
+};
+
+/**
+ * Removes the branches forking from the active chain more than `MAX_FORK_DEPTH` blocks below
+ * its tip, so the tree does not grow with every stale fork. A branch forking that deep has to
+ * be received again in full to compete with the active chain. Invalid blocks that far below
+ * the tip are forgotten too.
+ */
+const pruneStaleBranches = () => {
+	const blockchain = getBlockchain();
+	const minForkIndex = blockchain.length - 1 - MAX_FORK_DEPTH;
+
+	if (minForkIndex <= 0) return;
+
+	// Index of the last active block each side block descends from, keyed by hash
+	const forkIndexes: Map<string, number> = new Map();
+
+	for (const node of nodes.values()) {
+		const branch: BlockTreeNode[] = [];
+
+		let current: BlockTreeNode | undefined = node;
+		while (
+			current &&
+			!isOnActiveChain(current.block, blockchain) &&
+			!forkIndexes.has(current.block.hash)
+		) {
+			branch.push(current);
+			current = nodes.get(current.block.previousHash);
+		}
+
+		const forkIndex = !current
+			? -1
+			: (forkIndexes.get(current.block.hash) ?? current.block.index);
+
+		branch.forEach((branchNode) => forkIndexes.set(branchNode.block.hash, forkIndex));
+	}
+
+	forkIndexes.forEach((forkIndex, hash) => {
+		if (forkIndex < minForkIndex) nodes.delete(hash);
+	});
+
+	invalidBlocks.forEach((node, hash) => {
+		if (node.block.index - 1 < minForkIndex) invalidBlocks.delete(hash);
+	});
+};
+
+/**
+ * Lists the valid blocks that have no valid child, each being the tip of a branch.
+ *
+ * @returns The tree nodes of the valid tips.
+ */
+const getValidTips = (): BlockTreeNode[] => {
+	const parents = new Set(Array.from(nodes.values()).map((node) => node.block.previousHash));
+
+	return Array.from(nodes.values()).filter((node) => !parents.has(node.block.hash));
+};
+
+/**
+ * Builds the chain from the genesis block up to a block of the tree.
+ *
+ * @param node The tree node of the last block of the chain.
+ *
+ * @returns The blocks of the chain.
+ */
+const getChainTo = (node: BlockTreeNode): Block[] => {
+	const chain: Block[] = [];
+
+	for (let current: BlockTreeNode | undefined = node; current; ) {
+		chain.push(current.block);
+		current = nodes.get(current.block.previousHash);
+	}
+
+	return chain.reverse();
+};
+
+/**
+ * Switches the active chain to the valid tip with the most accumulated difficulty.
+ *
+ * Ties are resolved in favour of the active chain. When switching to a tip fails, the tip is
+ * marked as invalid and the next best tip is tried, so an invalid block only takes down the
+ * branch built on it.
+ *
+ * @returns Whether the active chain changed.
+ */
+const activateBestChain = (): boolean => {
+	let changed = false;
+
+	for (;;) {
+		const activeTip = nodes.get(getLastBlock().hash)!;
+
+		const bestTip = getValidTips().reduce(
+			(best, tip) => (tip.accumulatedDifficulty > best.accumulatedDifficulty ? tip : best),
+			activeTip
+		);
+
+		if (bestTip === activeTip) return changed;
+
+		console.log(
+			`\nSwitching to tip ${bestTip.block.hash} at height ${bestTip.block.index} ` +
+				`(accumulated difficulty ${bestTip.accumulatedDifficulty})`
+		);
+
+		// Extend the active chain directly when the tip builds on it, otherwise reorganize
+		const activated =
+			bestTip.block.previousHash === activeTip.block.hash
+				? addBlock({ newBlock: bestTip.block })
+				: replaceChain(getChainTo(bestTip));
+
+		if (activated) {
+			changed = true;
+			syncActiveChain();
+		} else {
+			console.error(`\nFailed to activate block ${bestTip.block.hash}, marking it invalid`);
+			addInvalidBlock(bestTip);
+		}
+	}
+};
+
+/**
+ * Adds blocks received from a peer to the block tree and activates the best chain.
+ *
+ * Blocks extending any known block are kept, whether they extend the active chain or a
+ * competing branch. Blocks whose parent is unknown are kept as orphans until it arrives.
+ * Blocks whose hash does not match their contents or their difficulty are dropped before
+ * being stored anywhere. Branches left too far behind the active tip are then pruned.
+ *
+ * @param blocks The received blocks.
+ *
+ * @returns Whether the active chain changed, and the number of blocks left orphaned.
+ */
+const receiveBlocks = ({
+	blocks,
+}: {
+	blocks: Block[];
+}): { activated: boolean; orphans: number } => {
+	syncActiveChain();
+
+	let orphans = 0;
+
+	for (const block of blocks) {
+		if (!validateBlockStructure({ block })) {
+			console.error(`\nInvalid block structure: ${JSON.stringify(block)}`);
+			continue;
+		}
+
+		// Recompute the hash so a block cannot claim the hash of another block, which would get
+		// that block skipped as known or stored as orphan or invalid under the wrong key
+		const hash = generateHashForBlock({ block });
+
+		if (hash !== block.hash || !checkHashDifficulty(hash, block.difficulty)) {
+			console.error(`\nInvalid block hash: ${block.hash}`);
+			continue;
+		}
+
+		// Skip blocks already known
+		if (hasBlock({ hash })) continue;
+
+		const parent = nodes.get(block.previousHash) ?? invalidBlocks.get(block.previousHash);
+
+		if (parent) {
+			connectBlock(block, parent);
+		} else {
+			addOrphanBlock(block);
+			orphans++;
+		}
+	}
+
+	const activated = activateBestChain();
+	pruneStaleBranches();
+
+	return { activated, orphans };
+};
+
+/**
+ * Lists the tips of every known branch along with its status.
+ *
+ * A branch is `active` when its tip is the tip of the active chain, `valid-fork` when its
+ * blocks passed header validation but it is not the active chain, and `invalid` when it ends
+ * with a block that failed validation.
+ *
+ * @returns The tips, most accumulated difficulty first.
+ */
+const getBlockTips = (): BlockTip[] => {
+	syncActiveChain();
+
+	const blockchain = getBlockchain();
+
+	// The first invalid block of each branch still in the tree is reported as the tip of an
+	// invalid branch
+	const invalidTips = Array.from(invalidBlocks.values()).filter((node) =>
+		nodes.has(node.block.previousHash)
+	);
+
+	return [...getValidTips(), ...invalidTips]
+		.map((node): BlockTip => {
+			const chain = getChainTo(node);
+			const forkHeight = chain.findIndex((block) => !isOnActiveChain(block, blockchain));
+			const activeLength = forkHeight === -1 ? chain.length : forkHeight;
+
+			return {
+				hash: node.block.hash,
+				height: node.block.index,
+				accumulatedDifficulty: node.accumulatedDifficulty,
+				forkHeight: activeLength,
+				branchLength: chain.length - activeLength,
+				status: node.invalid
+					? 'invalid'
+					: node.block.hash === getLastBlock().hash
+						? 'active'
+						: 'valid-fork',
+			};
+		})
+		.sort((a, b) => b.accumulatedDifficulty - a.accumulatedDifficulty);
+};
+
+/**
+ * Checks whether a block is already known, either in the tree, waiting for its parent or
+ * remembered as invalid.
+ *
+ * @param hash The hash of the block.
+ *
+ * @returns Whether the block is known.
+ */
+const hasBlock = ({ hash }: { hash: string }): boolean => {
+	syncActiveChain();
+
+	return nodes.has(hash) || orphanBlocks.has(hash) || invalidBlocks.has(hash);
+};
+
+/**
+ * Finds valid blocks of the tree by hash, whether they are on the active chain or not.
+ *
+ * @param hashes The hashes of the blocks to find.
+ *
+ * @returns The blocks found, in the order of the hashes.
+ */
+const getBlocks = ({ hashes }: { hashes: string[] }): Block[] => {
+	syncActiveChain();
+
+	return hashes
+		.map((hash) => nodes.get(hash))
+		.filter((node): node is BlockTreeNode => node !== undefined)
+		.map((node) => node.block);
+};
+
+/**
+ * Lists the blocks waiting for their parent to arrive.
+ *
+ * @returns The orphan blocks.
+ */
+const getOrphanBlocks = (): Block[] => {
+	return Array.from(orphanBlocks.values());
+};
+
+export {
+	BlockTip,
+	BranchStatus,
+	receiveBlocks,
+	hasBlock,
+	getBlocks,
+	getBlockTips,
+	getOrphanBlocks,
+};
@@ -1,73 +1,299 @@
-import { Block } from './block';
-import sha256 from 'crypto-js/sha256';
-import { hexToBinary } from './utils';
+import {
+	Block,
+	BlockHeader,
+	CURRENT_BLOCK_VERSION,
+	LEGACY_BLOCK_VERSION,
+	MERKLE_BLOCK_VERSION,
+} from './block';
+import { getChainParams } from './chainParams';
+import { BlockStore, MemoryBlockStore } from './blockStore';
+import { SnapshotInfo, SnapshotStore } from './snapshotStore';
+import { serializeTransaction } from './serialization';
+import { checkHashDifficulty, generateHash, isValidDifficulty } from './proofOfWork';
+import { DifficultyPolicy, createDifficultyPolicy } from './difficulty';
+import { getAdjustedTime } from './networkTime';
+import {
+	Condition,
+	LockContext,
+	getConditionAddress,
+	findConditionStructureError,
+} from './conditions';
+import { SIGHASH_TYPES } from './signatureHash';
+import { MiningJobData, mineBlock, notifyNewTip } from './miner';
+import { MerkleProof, getMerkleBranch, getMerkleRoot } from './merkle';
+import { refreshPoolJob } from './pool';
 import { broadcastMessage, responseLatestMsg, broadcastTransactionPool } from './p2p';
 import {
+	Payment,
 	createTransaction,
+	createPaymentTransaction,
+	createConditionSpendTransaction,
+	signWitnesses,
 	getBalance,
+	getImmatureBalance,
 	getPrivateFromWallet,
 	getPublicFromWallet,
 	findUnspentTxOuts,
 } from './wallet';
 import {
 	getCoinbaseTransaction,
+	getTotalFees,
+	getTransactionId,
+	getTransactionSize,
 	validateAddress,
 	processTransactions,
+	getSpentTxOuts,
+	revertUnspentTxOuts,
 	Transaction,
 	UnspentTxOut,
 } from './transaction';
-import { addToTransactionPool, getTransactionPool, updateTransactionPool } from './transactionPool';
+import { UnspentTxOutSet, getOutpointKey } from './unspentTxOutSet';
+import {
+	addToTransactionPool,
+	getTransactionPool,
+	getTransactionsByFeeRate,
+	updateTransactionPool,
+} from './transactionPool';
 
-const genesisBlock: Block = new Block({
-	index: 0,
-	timestamp: 1734667274522,
-	transactions: [
-		{
-			txIns: [
-				{
-					signature: '',
-					txOutId: '',
-					txOutIndex: 0,
-				},
-			],
-			txOuts: [
-				{
-					address:
-						'04bfcab8722991ae774db48f934ca79cfb7dd991229153b9f732ba5334aafcd8e7266e47076996b55a14bf9913ee3145ce0cfc1372ada8ada74bd287450313534a',
-					amount: 50,
-				},
-			],
-			id: 'e655f6a5f26dc9b4cac6e46f52336428287759cf81ef5ff10854f69d68f43fa3',
-		},
-	],
-	hash: '45dcbece109d098f2764e371d20e29c5ef3dcc10d985c6bc8d563d1fbdc82d9e',
-	previousHash: '',
-	difficulty: 0,
-	proof: 0,
-});
+let blockchain: Block[] = [getChainParams().genesisBlock];
 
-let blockchain: Block[] = [genesisBlock];
+// Store the blockchain is written through to
+let blockStore: BlockStore = new MemoryBlockStore();
 
-// List of unspent transaction outputs
-let unspentTxOuts: UnspentTxOut[] = processTransactions({
-	transactions: blockchain[0].transactions,
-	unspentTxOuts: [],
-	blockIndex: 0,
-});
+// Store the unspent transaction output snapshots are written to
+let snapshotStore: SnapshotStore | null = null;
+let snapshotInterval = 0;
+let lastSnapshotHeight = 0;
+
+/**
+ * Computes the unspent transaction outputs of a chain holding only the genesis block of the
+ * selected network.
+ *
+ * @returns The unspent transaction outputs created by the genesis block.
+ */
+const getGenesisUnspentTxOuts = (): UnspentTxOutSet => {
+	const { genesisBlock } = getChainParams();
+
+	return processTransactions({
+		transactions: genesisBlock.transactions,
+		unspentTxOuts: new UnspentTxOutSet(),
+		blockIndex: 0,
+		blockTimestamp: genesisBlock.timestamp,
+		blockVersion: genesisBlock.version,
+	});
+};
+
+// Set of unspent transaction outputs
+let unspentTxOuts: UnspentTxOutSet = getGenesisUnspentTxOuts();
 
 const getUnspentTxOuts = (): UnspentTxOut[] => {
 	// Deep clone using structured cloning
-	return JSON.parse(JSON.stringify(unspentTxOuts));
+	return JSON.parse(JSON.stringify(unspentTxOuts.toArray()));
+};
+
+/**
+ * Retrieves the total amount of the unspent transaction outputs, the coins in existence at the
+ * tip.
+ *
+ * @returns The circulating supply.
+ */
+const getCirculatingSupply = (): number => {
+	return unspentTxOuts.getTotalAmount();
+};
+
+/**
+ * Retrieves the unspent transaction outputs sent to an address.
+ *
+ * @param address The address to look up.
+ *
+ * @returns The unspent transaction outputs of the address.
+ */
+const getUnspentTxOutsByAddress = ({ address }: { address: string }): UnspentTxOut[] => {
+	return unspentTxOuts.findByAddress(address);
+};
+
+const setUnspentTxOuts = ({ newUnspentTxOuts }: { newUnspentTxOuts: UnspentTxOutSet }) => {
+	console.log('Replacing unspentTxOuts with:', newUnspentTxOuts.toArray());
+	unspentTxOuts = newUnspentTxOuts.clone(); // Clone to ensure immutability
+};
+
+// Policy computing the difficulty of the next block
+let difficultyPolicy: DifficultyPolicy = createDifficultyPolicy({
+	type: getChainParams().difficultyPolicy,
+	chainParams: getChainParams(),
+});
+
+const MEDIAN_TIME_SPAN = 11; // Number of last blocks the median time past is taken over
+
+const MAX_FUTURE_DRIFT = 60 * 1000; // How far a block may be ahead of the network-adjusted time, in milliseconds
+
+const COINBASE_SIZE_RESERVE = 1000; // Room left for the coinbase transaction when filling a block, in bytes
+
+/**
+ * Sets the policy computing the difficulty blocks and headers must carry.
+ *
+ * @param difficulty The difficulty policy, the default one of the network if not given.
+ */
+const initDifficultyPolicy = ({ difficulty }: { difficulty?: DifficultyPolicy } = {}) => {
+	const chainParams = getChainParams();
+
+	difficultyPolicy =
+		difficulty ?? createDifficultyPolicy({ type: chainParams.difficultyPolicy, chainParams });
+};
+
+/**
+ * Loads the blockchain from a block store and re-validates it.
+ *
+ * Every stored block is validated against its predecessor. The unspent transaction outputs
+ * are restored from the latest snapshot taken on the stored chain, and only the transactions
+ * of the blocks after it are replayed. Without a usable snapshot every block is replayed.
+ * Blocks from the first invalid one onwards are dropped from the store. An empty store is
+ * seeded with the genesis block.
+ *
+ * @param store The block store to load the blockchain from and write new blocks to.
+ * @param snapshots The snapshot store to restore from and write snapshots to, if any.
+ * @param interval Number of blocks between two automatic snapshots, 0 to disable them.
+ * @param difficulty The policy computing the difficulty of new blocks, the default one of the
+ * network if not given.
+ */
+const initBlockchain = ({
+	store,
+	snapshots,
+	interval = 0,
+	difficulty,
+}: {
+	store: BlockStore;
+	snapshots?: SnapshotStore;
+	interval?: number;
+	difficulty?: DifficultyPolicy;
+}) => {
+	const { genesisBlock } = getChainParams();
+
+	initDifficultyPolicy({ difficulty });
+
+	// Start from the genesis block of the selected network
+	blockchain = [genesisBlock];
+	unspentTxOuts = getGenesisUnspentTxOuts();
+
+	blockStore = store;
+	snapshotStore = snapshots ?? null;
+	snapshotInterval = interval;
+
+	const storedBlocks = blockStore.load();
+
+	// Seed the store when it is empty or holds a chain with a different genesis block
+	if (storedBlocks.length === 0 || !isGenesisBlock({ block: storedBlocks[0] })) {
+		if (storedBlocks.length > 0)
+			console.error('\nStored genesis block mismatch, discarding store');
+
+		blockStore.truncate(0);
+		blockStore.append(genesisBlock, []);
+		return;
+	}
+
+	// Validate the structure and linkage of every stored block
+	const chain: Block[] = [genesisBlock];
+
+	for (const block of storedBlocks.slice(1)) {
+		if (
+			!validateNewBlock({
+				newBlock: block,
+				previousBlock: chain[chain.length - 1],
+				previousTimestamps: getPreviousTimestamps({ chain, height: chain.length }),
+				expectedDifficulty: getExpectedDifficulty({ chain, height: chain.length }),
+			})
+		) {
+			console.error(`\nStored block ${block.index} is invalid, truncating store`);
+			blockStore.truncate(block.index);
+			break;
+		}
+
+		chain.push(block);
+	}
+
+	// Restore the unspent transaction outputs from the latest snapshot on the chain
+	const snapshot = snapshotStore
+		? snapshotStore.loadLatest({
+				isOnChain: ({ height, hash }) => chain[height]?.hash === hash,
+			})
+		: null;
+
+	let chainUnspentTxOuts: UnspentTxOutSet = snapshot
+		? new UnspentTxOutSet(snapshot.unspentTxOuts.map((uTxO) => new UnspentTxOut(uTxO)))
+		: unspentTxOuts.clone();
+
+	if (snapshot)
+		console.log(`\nRestored unspent outputs from snapshot at height ${snapshot.height}`);
+
+	// Replay the transactions of the blocks after the snapshot
+	for (const block of chain.slice((snapshot ? snapshot.height : 0) + 1)) {
+		try {
+			chainUnspentTxOuts = processTransactions({
+				transactions: block.transactions,
+				unspentTxOuts: chainUnspentTxOuts,
+				blockIndex: block.index,
+				blockTimestamp: block.timestamp,
+				blockVersion: block.version,
+			});
+		} catch (error) {
+			console.error(
+				`\nStored block ${block.index} is invalid (${(error as Error).message}), truncating store`
+			);
+			blockStore.truncate(block.index);
+			chain.splice(block.index);
+			break;
+		}
+	}
+
+	blockchain = chain;
+	unspentTxOuts = chainUnspentTxOuts;
+	lastSnapshotHeight = snapshot ? snapshot.height : 0;
+
+	console.log(`\nLoaded ${blockchain.length} blocks from the block store`);
+};
+
+/**
+ * Writes a snapshot of the unspent transaction outputs at the current tip.
+ *
+ * @returns The information of the written snapshot.
+ *
+ * @throws {Error} If no snapshot store is configured.
+ */
+const createSnapshot = (): SnapshotInfo => {
+	if (!snapshotStore) throw new Error('Snapshots are not enabled.');
+
+	const lastBlock = getLastBlock();
+
+	const info = snapshotStore.write({
+		height: lastBlock.index,
+		hash: lastBlock.hash,
+		unspentTxOuts: unspentTxOuts.toArray(),
+	});
+
+	lastSnapshotHeight = info.height;
+
+	return info;
 };
 
-const setUnspentTxOuts = ({ newUnspentTxOuts }: { newUnspentTxOuts: UnspentTxOut[] }) => {
-	console.log('Replacing unspentTxOuts with:', newUnspentTxOuts);
-	unspentTxOuts = [...newUnspentTxOuts]; // Use spread operator to ensure immutability
+/**
+ * Lists the snapshots of the unspent transaction outputs, newest first.
+ *
+ * @returns The information of every stored snapshot.
+ */
+const getSnapshots = (): SnapshotInfo[] => {
+	return snapshotStore ? snapshotStore.list() : [];
 };
 
-const BLOCK_GENERATION_INTERVAL = 10; // Number of blocks to generate per interval (10 seconds)
+/**
+ * Writes a snapshot when the tip is at least `snapshotInterval` blocks past the latest one.
+ */
+const snapshotIfDue = () => {
+	if (!snapshotStore || snapshotInterval <= 0) return;
 
-const DIFFICULTY_ADJUSTMENT_INTERVAL = 10; // Number of blocks to adjust difficulty per interval (10 blocks)
+	if (getLastBlock().index < lastSnapshotHeight + snapshotInterval) return;
+
+	console.log(`\nWrote unspent outputs snapshot at height ${createSnapshot().height}`);
+};
 
 /**
  * Initializes the blockchain by adding the genesis block to the chain.
@@ -84,23 +310,27 @@ const initializeChain = () => {
 const createGenesisBlock = (): Block => {
 	const timestamp = Date.now();
 
+	const transactions = [
+		{
+			txIns: [{ signature: '', txOutId: '', txOutIndex: 0 }],
+			txOuts: [
+				{
+					address:
+						'04bfcab8722991ae774db48f934ca79cfb7dd991229153b9f732ba5334aafcd8e7266e47076996b55a14bf9913ee3145ce0cfc1372ada8ada74bd287450313534a',
+					amount: 50,
+				},
+			],
+			id: 'e655f6a5f26dc9b4cac6e46f52336428287759cf81ef5ff10854f69d68f43fa3',
+		},
+	];
+
 	const genesisData = {
+		version: CURRENT_BLOCK_VERSION,
 		index: 0,
 		timestamp,
-		transactions: [
-			{
-				txIns: [{ signature: '', txOutId: '', txOutIndex: 0 }],
-				txOuts: [
-					{
-						address:
-							'04bfcab8722991ae774db48f934ca79cfb7dd991229153b9f732ba5334aafcd8e7266e47076996b55a14bf9913ee3145ce0cfc1372ada8ada74bd287450313534a',
-						amount: 50,
-					},
-				],
-				id: 'e655f6a5f26dc9b4cac6e46f52336428287759cf81ef5ff10854f69d68f43fa3',
-			},
-		],
+		transactions,
 		previousHash: '',
+		merkleRoot: getTransactionsMerkleRoot({ transactions }),
 		difficulty: 0,
 		proof: 0,
 	};
@@ -113,35 +343,42 @@ const createGenesisBlock = (): Block => {
 };
 
 /**
- * Generates a hash based on the given block data.
+ * Checks whether a block is the genesis block of the chain.
  *
- * @param index Unique identifier of the block.
- * @param previousHash Hash of the previous block.
- * @param timestamp Time of block creation.
- * @param transactions List of transactions contained in the block.
- * @param difficulty Difficulty level of PoW challenge.
- * @param proof Proof calculated by the miner.
+ * Blocks are compared by hash and by the canonical serialization of their transactions, so
+ * a genesis block received without a version field or with its keys in another order still
+ * matches.
  *
- * @returns The generated hash.
+ * @param block The block to check.
+ *
+ * @returns Whether the block is the genesis block.
  */
-const generateHash = ({
-	index,
-	previousHash,
-	timestamp,
-	transactions,
-	difficulty,
-	proof,
-}: {
-	index: number;
-	previousHash: string;
-	timestamp: number;
-	transactions: Transaction[];
-	difficulty: number;
-	proof: number;
-}): string => {
-	return sha256(
-		`${index}${previousHash}${timestamp}${transactions}${difficulty}${proof}`
-	).toString();
+const isGenesisBlock = ({ block }: { block: Block }): boolean => {
+	const { genesisBlock } = getChainParams();
+
+	const serializeTransactions = (transactions: Transaction[]) =>
+		transactions
+			.map((transaction) => serializeTransaction({ transaction, withSignatures: true }))
+			.join(',');
+
+	return (
+		block.index === genesisBlock.index &&
+		block.hash === genesisBlock.hash &&
+		Array.isArray(block.transactions) &&
+		serializeTransactions(block.transactions) ===
+			serializeTransactions(genesisBlock.transactions)
+	);
+};
+
+/**
+ * Calculates the Merkle root of the IDs of a list of transactions.
+ *
+ * @param transactions The transactions, in block order.
+ *
+ * @returns The Merkle root.
+ */
+const getTransactionsMerkleRoot = ({ transactions }: { transactions: Transaction[] }): string => {
+	return getMerkleRoot({ txIds: transactions.map((transaction) => transaction.id) });
 };
 
 /**
@@ -153,10 +390,12 @@ const generateHash = ({
  */
 const generateHashForBlock = ({ block }: { block: Block }): string => {
 	return generateHash({
+		version: block.version,
 		index: block.index,
 		previousHash: block.previousHash,
 		timestamp: block.timestamp,
 		transactions: block.transactions,
+		merkleRoot: block.merkleRoot,
 		difficulty: block.difficulty,
 		proof: block.proof,
 	});
@@ -181,30 +420,167 @@ const getLastBlock = (): Block => {
 };
 
 /**
- * Generates a new block and adds it to the blockchain.
+ * Builds a block locator describing the active chain to a peer.
  *
- * @param transactions The transactions to include in the new block.
+ * The locator lists block hashes from the tip back to the genesis block: the last ten one by
+ * one, then with a step doubling each time. A peer finds the fork point from the first hash
+ * it knows, whatever the length of the chain, while the locator stays short.
+ *
+ * @returns The block hashes, tip first, always ending with the genesis block.
+ */
+const getBlockLocator = (): string[] => {
+	const locator: string[] = [];
+
+	let step = 1;
+	for (let index = blockchain.length - 1; index > 0; index -= step) {
+		locator.push(blockchain[index].hash);
+		if (locator.length >= 10) step *= 2;
+	}
+
+	locator.push(blockchain[0].hash);
+
+	return locator;
+};
+
+/**
+ * Lists the hashes of the active chain blocks following the fork point with a block locator.
+ *
+ * The fork point is the most recent block of the active chain found in the locator. When none
+ * is found, hashes are listed from the block after the genesis block.
+ *
+ * @param locator The block hashes of the peer, tip first.
+ * @param limit The maximum number of hashes to list.
+ *
+ * @returns The block hashes following the fork point, in chain order.
+ */
+const getBlockHashesAfter = ({
+	locator,
+	limit,
+}: {
+	locator: string[];
+	limit: number;
+}): string[] => {
+	const known = new Set(locator);
+
+	let forkIndex = blockchain.length - 1;
+	while (forkIndex > 0 && !known.has(blockchain[forkIndex].hash)) forkIndex--;
+
+	return blockchain.slice(forkIndex + 1, forkIndex + 1 + limit).map((block) => block.hash);
+};
+
+/**
+ * Computes the timestamp of the next block: the network-adjusted time, kept after the median
+ * time past even if the clock lags behind the chain.
+ *
+ * @returns The timestamp, in milliseconds since the epoch.
+ */
+const getNextBlockTimestamp = (): number => {
+	const medianTimePast = getMedianTimePast({
+		timestamps: getPreviousTimestamps({ chain: blockchain, height: blockchain.length }),
+	});
+
+	return Math.max(getAdjustedTime(), medianTimePast + 1);
+};
+
+/**
+ * Builds the block pooled transactions are checked against: the block following the tip, at
+ * the timestamp it would be mined with now.
  *
- * @returns The newly generated block.
+ * @returns The lock context of the next block.
  */
-const generateRawBlock = ({ transactions }: { transactions: Transaction[] }): Block => {
+const getNextLockContext = (): LockContext => {
+	return { height: getLastBlock().index + 1, timestamp: getNextBlockTimestamp() };
+};
+
+/**
+ * Builds the data of the next block on top of the current tip, everything but its proof and
+ * hash.
+ *
+ * @param transactions The transactions of the block.
+ *
+ * @returns The block data.
+ */
+const buildBlockTemplate = ({ transactions }: { transactions: Transaction[] }): MiningJobData => {
 	const lastBlock = getLastBlock();
-	const timestamp = Date.now();
-	const difficulty = getDifficulty(blockchain);
 
-	const newBlockData = {
+	return {
+		version: CURRENT_BLOCK_VERSION,
 		index: lastBlock.index + 1,
 		previousHash: lastBlock.hash,
-		timestamp,
+		timestamp: getNextBlockTimestamp(),
 		transactions,
-		difficulty,
+		merkleRoot: getTransactionsMerkleRoot({ transactions }),
+		difficulty: getNextDifficulty(),
 	};
+};
 
-	// Create the new block
-	const newBlock = findBlock(newBlockData);
+/**
+ * Builds the transactions of the next block: a coinbase transaction paying an address the
+ * block reward and the fees, followed by the pooled transactions with the highest fee rates
+ * that fit in the block size limit.
+ *
+ * @param address The address the block reward is paid to.
+ *
+ * @returns The transactions of the block.
+ */
+const buildBlockTransactions = ({ address }: { address: string }): Transaction[] => {
+	const transactions = getTransactionsByFeeRate({
+		maxSize: getChainParams().maxBlockSize - COINBASE_SIZE_RESERVE,
+	});
 
-	// Add the new block to the blockchain
-	if (!addBlock({ newBlock })) console.error('\nFailed to generate block');
+	// Create the coinbase transaction
+	const transaction: Transaction = getCoinbaseTransaction({
+		address,
+		blockIndex: getLastBlock().index + 1,
+		fees: getTotalFees({ transactions, unspentTxOuts }),
+	});
+
+	return [transaction].concat(transactions);
+};
+
+/**
+ * Builds a template of the next block for an external miner, which only has to find a proof
+ * and the matching hash before submitting it.
+ *
+ * @param address The address the block reward is paid to.
+ *
+ * @returns The block template.
+ *
+ * @throws {Error} If the address is invalid.
+ */
+const getBlockTemplate = ({ address }: { address: string }): MiningJobData => {
+	if (typeof address !== 'string' || !validateAddress({ address }))
+		throw new Error('Invalid address');
+
+	return buildBlockTemplate({ transactions: buildBlockTransactions({ address }) });
+};
+
+/**
+ * Adds a block solved by an external miner to the blockchain and broadcasts it.
+ *
+ * The block must extend the current tip with the expected difficulty, and pass the same
+ * validation as any new block.
+ *
+ * @param block The solved block.
+ *
+ * @returns The added block.
+ *
+ * @throws {Error} If the block is stale or rejected.
+ */
+const submitBlock = ({ block }: { block: Block }): Block => {
+	if (!block || !validateBlockStructure({ block })) throw new Error('Invalid block structure');
+
+	if (block.previousHash !== getLastBlock().hash)
+		throw new Error('Stale block, the tip has changed');
+
+	if (block.difficulty !== getNextDifficulty())
+		throw new Error(`Invalid difficulty, expected ${getNextDifficulty()}`);
+
+	const newBlock = new Block(block);
+
+	if (!addBlock({ newBlock })) throw new Error('Block rejected');
+
+	console.log(`\nAccepted block ${newBlock.hash} at height ${newBlock.index} from a miner`);
 
 	// Broadcast the latest block to connected peers
 	broadcastMessage(responseLatestMsg());
@@ -213,27 +589,79 @@ const generateRawBlock = ({ transactions }: { transactions: Transaction[] }): Bl
 };
 
 /**
- * Generates a new block with a single coinbase transaction and adds it to the blockchain.
+ * Mines a new block on top of the current tip and adds it to the blockchain.
  *
- * The coinbase transaction is created with the current public key from the wallet and the next block index.
+ * Mining runs in the worker pool, so the node keeps serving requests meanwhile. When the tip
+ * changes before a proof is found, the transactions are built again for the new tip.
  *
- * @returns The newly generated block.
+ * @param buildTransactions Builds the transactions of the block for the current tip.
+ * @param signal Signal cancelling the mining.
+ *
+ * @returns The newly generated block, or null if it could not be added to the blockchain.
  */
+const mineNextBlock = async ({
+	buildTransactions,
+	signal,
+}: {
+	buildTransactions: () => Transaction[];
+	signal?: AbortSignal;
+}): Promise<Block | null> => {
+	const buildBlockData = () => buildBlockTemplate({ transactions: buildTransactions() });
 
-const generateBlock = (): Block => {
-	// Create the coinbase transaction
-	const transaction: Transaction = getCoinbaseTransaction({
-		address: getPublicFromWallet(),
-		blockIndex: getLastBlock().index + 1,
-	});
+	// Find a proof for the new block
+	const newBlock = await mineBlock({ buildBlockData, signal });
 
-	const transactions: Transaction[] = [transaction].concat(getTransactionPool());
+	// Add the new block to the blockchain
+	if (!addBlock({ newBlock })) {
+		console.error('\nFailed to generate block');
+		return null;
+	}
+
+	// Broadcast the latest block to connected peers
+	broadcastMessage(responseLatestMsg());
+
+	return newBlock;
+};
+
+/**
+ * Generates a new block and adds it to the blockchain.
+ *
+ * @param transactions The transactions to include in the new block.
+ *
+ * @returns The newly generated block, or null if it could not be added to the blockchain.
+ */
+const generateRawBlock = ({
+	transactions,
+}: {
+	transactions: Transaction[];
+}): Promise<Block | null> => {
+	return mineNextBlock({ buildTransactions: () => transactions });
+};
 
-	return generateRawBlock({ transactions });
+/**
+ * Generates a new block with a coinbase transaction and the transaction pool, and adds it to
+ * the blockchain.
+ *
+ * The coinbase transaction is created with the next block index and pays the given address,
+ * the current public key from the wallet by default.
+ *
+ * @param address The address the block reward is paid to.
+ * @param signal Signal cancelling the mining.
+ *
+ * @returns The newly generated block, or null if it could not be added to the blockchain.
+ */
+const generateBlock = ({
+	address = getPublicFromWallet(),
+	signal,
+}: {
+	address?: string;
+	signal?: AbortSignal;
+} = {}): Promise<Block | null> => {
+	return mineNextBlock({ buildTransactions: () => buildBlockTransactions({ address }), signal });
 };
 
 const getMyUnspentTransactionOutputs = () => {
-	return findUnspentTxOuts({ address: getPublicFromWallet(), unspentTxOuts: getUnspentTxOuts() });
+	return findUnspentTxOuts({ address: getPublicFromWallet(), unspentTxOuts });
 };
 
 /**
@@ -243,7 +671,7 @@ const getMyUnspentTransactionOutputs = () => {
  * @param address The address to which the transaction is sent.
  * @param amount The amount of the transaction in Satoshis.
  *
- * @returns The newly generated block.
+ * @returns The newly generated block, or null if it could not be added to the blockchain.
  */
 const generateBlockWithTransaction = ({
 	address,
@@ -251,46 +679,84 @@ const generateBlockWithTransaction = ({
 }: {
 	address: string;
 	amount: number;
-}): Block => {
+}): Promise<Block | null> => {
 	// Check if the address is valid
 	if (!validateAddress({ address })) console.error('\nInvalid address');
 
 	// Check if the amount is valid
 	if (typeof amount !== 'number') console.error('\nAmount must be a number');
 
-	// Create the coinbase transaction
-	const coinbaseTx: Transaction = getCoinbaseTransaction({
-		address: getPublicFromWallet(),
-		blockIndex: getLastBlock().index + 1,
-	});
-
 	// Create the transaction
 	const transaction: Transaction = createTransaction({
 		receiverAddress: address,
 		amount,
 		privateKey: getPrivateFromWallet(),
 		unspentTxOuts,
+		height: getLastBlock().index + 1,
 		transactionPool: getTransactionPool(),
 	});
 
-	// Add the transactions to the payload
-	const transactions: Transaction[] = [coinbaseTx, transaction];
-
-	return generateRawBlock({ transactions });
+	return mineNextBlock({
+		buildTransactions: () => {
+			// Create the coinbase transaction
+			const coinbaseTx: Transaction = getCoinbaseTransaction({
+				address: getPublicFromWallet(),
+				blockIndex: getLastBlock().index + 1,
+				fees: getTotalFees({ transactions: [transaction], unspentTxOuts }),
+			});
+
+			// Add the transactions to the payload
+			return [coinbaseTx, transaction];
+		},
+	});
 };
 
 /**
  * Retrieves the balance of the account with the public key in the wallet.
  *
- * @returns The balance of the account in Satoshis.
+ * @returns The spendable balance of the account in Satoshis, and the amount of its coinbase
+ * outputs not mature yet.
  */
-const accountBalance = (): number => {
-	return getBalance({ address: getPublicFromWallet(), unspentTxOuts: getUnspentTxOuts() });
+const accountBalance = (): { balance: number; immatureBalance: number } => {
+	const address = getPublicFromWallet();
+	const height = getLastBlock().index + 1;
+
+	return {
+		balance: getBalance({ address, unspentTxOuts, height }),
+		immatureBalance: getImmatureBalance({ address, unspentTxOuts, height }),
+	};
 };
 
-const sendTransaction = ({ address, amount }: { address: string; amount: number }): Transaction => {
+/**
+ * Sends a transaction from the wallet and broadcasts it.
+ *
+ * @param address The address the amount is sent to.
+ * @param amount The amount sent, in Satoshis.
+ * @param fee The fee paid to the miner, 0 by default.
+ * @param feeRate The fee paid per byte of the transaction, instead of a set fee.
+ * @param replaceable Whether the transaction signals replace-by-fee, so its fee can be bumped.
+ * @param spendUnconfirmed Whether the change of pending wallet transactions may be spent.
+ *
+ * @returns The transaction.
+ *
+ * @throws {Error} If the transaction is invalid or the wallet does not have enough coins.
+ */
+const sendTransaction = ({
+	address,
+	amount,
+	fee,
+	feeRate,
+	replaceable,
+	spendUnconfirmed,
+}: {
+	address: string;
+	amount: number;
+	fee?: number;
+	feeRate?: number;
+	replaceable?: boolean;
+	spendUnconfirmed?: boolean;
+}): Transaction => {
 	const privateKey = getPrivateFromWallet();
-	const unspentTxOuts = getUnspentTxOuts();
 	const transactionPool = getTransactionPool();
 
 	// Create the transaction
@@ -299,11 +765,286 @@ const sendTransaction = ({ address, amount }: { address: string; amount: number
 		amount,
 		privateKey,
 		unspentTxOuts,
-		transactionPool,
+		height: getLastBlock().index + 1,
+		transactionPool,
+		fee,
+		feeRate,
+		replaceable: replaceable === true,
+		spendUnconfirmed: spendUnconfirmed === true,
+	});
+
+	// Add transaction to the pool, rebroadcast until it is confirmed
+	addToTransactionPool(transaction, unspentTxOuts, {
+		context: getNextLockContext(),
+		local: true,
+	});
+
+	// Broadcast updated transaction pool
+	broadcastTransactionPool();
+
+	return transaction;
+};
+
+/**
+ * Sends a single transaction from the wallet paying several addresses, and broadcasts it.
+ *
+ * @param payments The addresses to pay and their amounts.
+ *
+ * @returns The transaction.
+ *
+ * @throws {Error} If the payments are invalid or the wallet does not have enough coins.
+ */
+const sendPayments = ({ payments }: { payments: Payment[] }): Transaction => {
+	if (
+		payments.some(({ address }) => typeof address !== 'string' || !validateAddress({ address }))
+	)
+		throw new Error('Invalid payment address');
+
+	// Create the transaction
+	const transaction: Transaction = createPaymentTransaction({
+		payments,
+		privateKey: getPrivateFromWallet(),
+		unspentTxOuts,
+		height: getLastBlock().index + 1,
+		transactionPool: getTransactionPool(),
+	});
+
+	// Add transaction to the pool, rebroadcast until it is confirmed
+	addToTransactionPool(transaction, unspentTxOuts, {
+		context: getNextLockContext(),
+		local: true,
+	});
+
+	// Broadcast updated transaction pool
+	broadcastTransactionPool();
+
+	return transaction;
+};
+
+/**
+ * Replaces a pooled wallet transaction signaling replace-by-fee with one paying the same
+ * addresses and a higher fee, and broadcasts it.
+ *
+ * The replacement spends the inputs of the original first, adding more coins of the wallet if
+ * the higher fee needs them, and sends the rest back as change. It signals replace-by-fee too,
+ * so its fee can be bumped again.
+ *
+ * @param id The ID of the pooled transaction.
+ * @param fee The fee of the replacement.
+ * @param feeRate The fee paid per byte of the replacement, instead of a set fee.
+ *
+ * @returns The replacement transaction.
+ *
+ * @throws {Error} If the transaction is not a replaceable wallet transaction of the pool, or the
+ * replacement does not pay enough to replace it.
+ */
+const bumpFee = ({
+	id,
+	fee,
+	feeRate,
+}: {
+	id: string;
+	fee?: number;
+	feeRate?: number;
+}): Transaction => {
+	if (fee === undefined && feeRate === undefined) throw new Error('Set a fee or a fee rate');
+
+	const transactionPool: Transaction[] = getTransactionPool();
+	const original = transactionPool.find((transaction) => transaction.id === id);
+
+	if (!original) throw new Error('Transaction not found in the pool');
+	if (original.replaceable !== true)
+		throw new Error('Transaction does not signal replace-by-fee');
+
+	const myAddress = getPublicFromWallet();
+
+	const inputs = original.txIns
+		.map((txIn) => unspentTxOuts.get(txIn))
+		.filter((uTxO): uTxO is UnspentTxOut => uTxO?.address === myAddress);
+
+	if (inputs.length !== original.txIns.length)
+		throw new Error('Transaction does not only spend confirmed coins of the wallet');
+
+	// The last output paying the wallet is the change, unless it is the only output
+	const txOuts = original.txOuts;
+	const hasChange = txOuts.length > 1 && txOuts[txOuts.length - 1].address === myAddress;
+	const payments = (hasChange ? txOuts.slice(0, -1) : txOuts).map(({ address, amount }) => ({
+		address,
+		amount,
+	}));
+
+	// Create the replacement
+	const transaction: Transaction = createPaymentTransaction({
+		payments,
+		privateKey: getPrivateFromWallet(),
+		unspentTxOuts,
+		height: getLastBlock().index + 1,
+		transactionPool,
+		fee,
+		feeRate,
+		replaceable: true,
+		inputs,
+	});
+
+	// Replace the original in the pool, rebroadcast until it is confirmed
+	addToTransactionPool(transaction, unspentTxOuts, {
+		context: getNextLockContext(),
+		local: true,
+	});
+
+	// Broadcast updated transaction pool
+	broadcastTransactionPool();
+
+	return transaction;
+};
+
+/**
+ * Sends an amount from the wallet to an output locked with a condition, and broadcasts it.
+ * The output is sent to the address of the condition, where it stays until an input meets the
+ * condition.
+ *
+ * @param condition The condition locking the amount.
+ * @param amount The amount locked, in Satoshis.
+ * @param fee The fee paid to the miner, 0 by default.
+ * @param feeRate The fee paid per byte of the transaction, instead of a set fee.
+ *
+ * @returns The transaction.
+ *
+ * @throws {Error} If the condition is invalid or the wallet does not have enough coins.
+ */
+const lockFunds = ({
+	condition,
+	amount,
+	fee,
+	feeRate,
+}: {
+	condition: Condition;
+	amount: number;
+	fee?: number;
+	feeRate?: number;
+}): Transaction => {
+	const conditionError = findConditionStructureError({ condition });
+	if (conditionError) throw new Error(`Invalid condition: ${conditionError}`);
+
+	// Create the transaction
+	const transaction: Transaction = createPaymentTransaction({
+		payments: [{ address: getConditionAddress({ condition }), amount, condition }],
+		privateKey: getPrivateFromWallet(),
+		unspentTxOuts,
+		height: getLastBlock().index + 1,
+		transactionPool: getTransactionPool(),
+		fee,
+		feeRate,
+	});
+
+	// Add transaction to the pool, rebroadcast until it is confirmed
+	addToTransactionPool(transaction, unspentTxOuts, {
+		context: getNextLockContext(),
+		local: true,
+	});
+
+	// Broadcast updated transaction pool
+	broadcastTransactionPool();
+
+	return transaction;
+};
+
+/**
+ * Creates an unsigned transaction spending a confirmed output locked with a condition, paying
+ * its value less the fee to an address.
+ *
+ * @param txOutId The ID of the transaction holding the output.
+ * @param txOutIndex The index of the output.
+ * @param address The address paid.
+ * @param fee The fee paid to the miner, 0 by default.
+ *
+ * @returns The transaction, to be signed by the parties the condition requires.
+ *
+ * @throws {Error} If the output is not an unspent output locked with a condition, or the
+ * address or fee is invalid.
+ */
+const createConditionSpend = ({
+	txOutId,
+	txOutIndex,
+	address,
+	fee,
+}: {
+	txOutId: string;
+	txOutIndex: number;
+	address: string;
+	fee?: number;
+}): Transaction => {
+	const unspentTxOut = unspentTxOuts.get({ txOutId, txOutIndex });
+
+	if (!unspentTxOut) throw new Error('Unspent transaction output not found');
+
+	if (typeof address !== 'string' || !validateAddress({ address }))
+		throw new Error('Invalid address');
+
+	return createConditionSpendTransaction({ inputs: [unspentTxOut], address, fee });
+};
+
+/**
+ * Signs the inputs of a transaction spending outputs locked with conditions with the key of
+ * the wallet, adding the signature, and the preimage of a hash lock if given, to their
+ * witnesses.
+ *
+ * @param transaction The transaction.
+ * @param preimage The preimage of a hash lock, in hex.
+ * @param sighash The name of the signature hash type, such as 'ALL' or 'SINGLE|ANYONECANPAY',
+ * 'ALL' by default.
+ *
+ * @returns The transaction with the updated witnesses.
+ *
+ * @throws {Error} If the transaction ID or the signature hash type is invalid, or no input
+ * accepts the wallet key or the preimage.
+ */
+const signTransaction = ({
+	transaction,
+	preimage,
+	sighash = 'ALL',
+}: {
+	transaction: Transaction;
+	preimage?: string;
+	sighash?: string;
+}): Transaction => {
+	if (
+		!transaction ||
+		!Array.isArray(transaction.txIns) ||
+		!Array.isArray(transaction.txOuts) ||
+		getTransactionId({ transaction }) !== transaction.id
+	)
+		throw new Error('Invalid transaction');
+
+	if (
+		preimage !== undefined &&
+		(typeof preimage !== 'string' || !/^([a-fA-F0-9]{2})*$/.test(preimage))
+	)
+		throw new Error('Preimage must be a hex string');
+
+	if (!Object.prototype.hasOwnProperty.call(SIGHASH_TYPES, sighash))
+		throw new Error(`Unknown signature hash type: ${sighash}`);
+
+	return signWitnesses({
+		transaction,
+		privateKey: getPrivateFromWallet(),
+		unspentTxOuts,
+		preimage,
+		sighashType: SIGHASH_TYPES[sighash],
 	});
+};
 
-	// Add transaction to the pool
-	addToTransactionPool(transaction, unspentTxOuts);
+/**
+ * Adds a signed transaction to the transaction pool and broadcasts it.
+ *
+ * @param transaction The transaction.
+ *
+ * @returns The transaction.
+ *
+ * @throws {Error} If the transaction cannot enter the pool.
+ */
+const submitTransaction = ({ transaction }: { transaction: Transaction }): Transaction => {
+	addToTransactionPool(transaction, unspentTxOuts, { context: getNextLockContext() });
 
 	// Broadcast updated transaction pool
 	broadcastTransactionPool();
@@ -320,23 +1061,50 @@ const sendTransaction = ({ address, amount }: { address: string; amount: number
  */
 const addBlock = ({ newBlock }: { newBlock: Block }): boolean => {
 	// Validate the new block structure and data
-	if (!validateNewBlock({ newBlock, previousBlock: getLastBlock() })) return false;
+	if (
+		!validateNewBlock({
+			newBlock,
+			previousBlock: getLastBlock(),
+			previousTimestamps: getPreviousTimestamps({
+				chain: blockchain,
+				height: blockchain.length,
+			}),
+			expectedDifficulty: getNextDifficulty(),
+		})
+	)
+		return false;
 
-	//  Process the transactions and get the referenced unspent transaction outputs
-	const referencedUTxO = processTransactions({
-		transactions: newBlock.transactions,
-		unspentTxOuts,
-		blockIndex: newBlock.index,
-	});
+	// Unspent transaction outputs spent by the block, needed to roll it back
+	const spentTxOuts = getSpentTxOuts({ transactions: newBlock.transactions, unspentTxOuts });
 
-	// If there are no referenced unspent transaction outputs, return false
-	if (referencedUTxO === null) return false;
+	//  Process the transactions and update the unspent transaction outputs in place
+	try {
+		processTransactions({
+			transactions: newBlock.transactions,
+			unspentTxOuts,
+			blockIndex: newBlock.index,
+			blockTimestamp: newBlock.timestamp,
+			blockVersion: newBlock.version,
+		});
+	} catch (error) {
+		console.error(`\n${(error as Error).message}`);
+		return false;
+	}
 
 	// Add the new block to the blockchain
 	blockchain.push(newBlock);
 
-	// Update the list of unspent transaction outputs
-	unspentTxOuts = referencedUTxO;
+	// Persist the new block
+	blockStore.append(newBlock, spentTxOuts);
+
+	snapshotIfDue();
+
+	// Remove the transactions the block spent from the transaction pool
+	updateTransactionPool(unspentTxOuts, getNextLockContext());
+
+	// Restart any block being mined, locally or by the pool, on top of the new tip
+	notifyNewTip({ hash: newBlock.hash });
+	refreshPoolJob({ hash: newBlock.hash });
 
 	return true;
 };
@@ -350,6 +1118,8 @@ const addBlock = ({ newBlock }: { newBlock: Block }): boolean => {
  * - previousHash: a string
  * - timestamp: a number
  * - transactions: a string
+ * - version: a number, or missing for legacy blocks
+ * - merkleRoot: a string, or missing for blocks before version 3
  *
  * @param {Object} block The block to validate.
  *
@@ -361,7 +1131,9 @@ const validateBlockStructure = ({ block }: { block: Block }): boolean => {
 		typeof block.hash === 'string' &&
 		typeof block.previousHash === 'string' &&
 		typeof block.timestamp === 'number' &&
-		typeof block.transactions === 'object'
+		typeof block.transactions === 'object' &&
+		(block.version === undefined || typeof block.version === 'number') &&
+		(block.merkleRoot === undefined || typeof block.merkleRoot === 'string')
 	);
 };
 
@@ -369,19 +1141,26 @@ const validateBlockStructure = ({ block }: { block: Block }): boolean => {
  * Validates a new block.
  *
  * A new block is considered to be valid if it has a valid structure, its index is one greater than the previous block,
- * its previous hash matches the hash of the previous block, and its hash is correct.
+ * its previous hash matches the hash of the previous block, its timestamp follows the timestamp rules, its difficulty
+ * is the one the difficulty policy expects after the previous block, and its hash is correct and meets its difficulty.
  *
  * @param {Object} newBlock The block to validate.
  * @param {Object} previousBlock The previous block.
+ * @param {number[]} previousTimestamps The timestamps of the last blocks up to the previous one, oldest first.
+ * @param {number} expectedDifficulty The difficulty of the block following the previous one.
  *
  * @returns {boolean} Whether the block is valid.
  */
 const validateNewBlock = ({
 	newBlock,
 	previousBlock,
+	previousTimestamps,
+	expectedDifficulty,
 }: {
 	newBlock: Block;
 	previousBlock: Block;
+	previousTimestamps: number[];
+	expectedDifficulty: number;
 }): boolean => {
 	// Validate the block structure
 	if (!validateBlockStructure({ block: newBlock })) {
@@ -403,9 +1182,28 @@ const validateNewBlock = ({
 		return false;
 	}
 
+	// Validate the block version
+	if (!validateBlockVersion({ newBlock })) {
+		console.error('\nInvalid block version:', newBlock.version);
+		return false;
+	}
+
+	// Validate the Merkle root
+	if (!validateMerkleRoot({ block: newBlock })) {
+		console.error('\nInvalid Merkle root:', newBlock.merkleRoot);
+		return false;
+	}
+
+	// Validate the block size
+	if (getBlockSize({ block: newBlock }) > getChainParams().maxBlockSize) {
+		console.error('\nBlock exceeds the maximum block size:', getBlockSize({ block: newBlock }));
+		return false;
+	}
+
 	// Validate the block timestamp
-	if (!validateTimestamp(newBlock, previousBlock)) {
-		console.error('\nInvalid block timestamp:', newBlock.timestamp);
+	const timestampError = checkTimestamp({ newBlock, previousTimestamps });
+	if (timestampError) {
+		console.error(`\nInvalid block timestamp: ${timestampError}`);
 		return false;
 	}
 
@@ -415,31 +1213,235 @@ const validateNewBlock = ({
 		return false;
 	}
 
+	// Validate the difficulty, so a block cannot claim an easier or a heavier one than its chain
+	if (newBlock.difficulty !== expectedDifficulty) {
+		console.error(
+			`\nInvalid block difficulty. Expected: ${expectedDifficulty}, Found: ${newBlock.difficulty}`
+		);
+		return false;
+	}
+
+	// Validate the proof of work
+	if (
+		!isValidDifficulty(newBlock.difficulty) ||
+		!checkHashDifficulty(newBlock.hash, newBlock.difficulty)
+	) {
+		console.error('\nBlock hash does not meet its difficulty:', newBlock.hash);
+		return false;
+	}
+
+	return true;
+};
+
+/**
+ * Validates the consensus version of a block.
+ *
+ * Every block after the genesis block must have the current version, so a miner cannot pick
+ * an older version to skip the rules introduced since. Blocks without a version are legacy
+ * blocks.
+ *
+ * @param newBlock The block to validate.
+ *
+ * @returns Whether the block version is valid.
+ */
+const validateBlockVersion = ({ newBlock }: { newBlock: BlockHeader }): boolean => {
+	return (newBlock.version ?? LEGACY_BLOCK_VERSION) === CURRENT_BLOCK_VERSION;
+};
+
+/**
+ * Validates the structure of a block header received by a light client.
+ *
+ * A header is considered to have a valid structure if it has the fields of a block other than
+ * the transactions, and a non-negative integer difficulty.
+ *
+ * @param header The block header to validate.
+ *
+ * @returns Whether the block header has a valid structure.
+ */
+const validateHeaderStructure = ({ header }: { header: BlockHeader }): boolean => {
+	return (
+		header !== null &&
+		typeof header === 'object' &&
+		typeof header.index === 'number' &&
+		typeof header.hash === 'string' &&
+		typeof header.previousHash === 'string' &&
+		typeof header.timestamp === 'number' &&
+		typeof header.proof === 'number' &&
+		isValidDifficulty(header.difficulty) &&
+		(header.version === undefined || typeof header.version === 'number') &&
+		(header.merkleRoot === undefined || typeof header.merkleRoot === 'string')
+	);
+};
+
+/**
+ * Validates a new block header without its transactions.
+ *
+ * The header is checked the way a block is, except for what depends on the transactions. Its
+ * hash is recomputed from the header, so it must be version 3 or later: earlier hashes cover
+ * the transactions, so a peer could pair such a hash with any Merkle root. The hash must meet
+ * the difficulty the chain expects rather than the one the header declares.
+ *
+ * @param newHeader The block header to validate.
+ * @param previousHeader The previous block header.
+ * @param previousTimestamps The timestamps of the last headers up to the previous one, oldest
+ * first.
+ * @param expectedDifficulty The difficulty the policy expects for the header.
+ *
+ * @returns Whether the block header is valid.
+ */
+const validateNewHeader = ({
+	newHeader,
+	previousHeader,
+	previousTimestamps,
+	expectedDifficulty,
+}: {
+	newHeader: BlockHeader;
+	previousHeader: BlockHeader;
+	previousTimestamps: number[];
+	expectedDifficulty: number;
+}): boolean => {
+	// Validate the header structure
+	if (!validateHeaderStructure({ header: newHeader })) {
+		console.error('\nInvalid block header structure:', newHeader);
+		return false;
+	}
+
+	// Validate the block index
+	if (newHeader.index !== previousHeader.index + 1) {
+		console.error(
+			`\nInvalid block index. Expected: ${previousHeader.index + 1}, Found: ${newHeader.index}`
+		);
+		return false;
+	}
+
+	// Validate the previous hash
+	if (newHeader.previousHash !== previousHeader.hash) {
+		console.error('\nInvalid previous hash:', newHeader.previousHash);
+		return false;
+	}
+
+	// Validate the block version
+	if (!validateBlockVersion({ newBlock: newHeader })) {
+		console.error('\nInvalid block version:', newHeader.version);
+		return false;
+	}
+
+	// Validate the block timestamp
+	const timestampError = checkTimestamp({ newBlock: newHeader, previousTimestamps });
+	if (timestampError) {
+		console.error(`\nInvalid block timestamp: ${timestampError}`);
+		return false;
+	}
+
+	// Validate the difficulty, so a header cannot claim an easier or a heavier one than its chain
+	if (newHeader.difficulty !== expectedDifficulty) {
+		console.error(
+			`\nInvalid block difficulty. Expected: ${expectedDifficulty}, Found: ${newHeader.difficulty}`
+		);
+		return false;
+	}
+
+	// Validate the proof of work
+	if (!checkHashDifficulty(newHeader.hash, newHeader.difficulty)) {
+		console.error('\nBlock hash does not meet its difficulty:', newHeader.hash);
+		return false;
+	}
+
+	// Only headers from version 3 onwards have a hash covering the header alone
+	if ((newHeader.version ?? LEGACY_BLOCK_VERSION) < MERKLE_BLOCK_VERSION) {
+		console.error(
+			'\nBlock header hash cannot be verified without the transactions:',
+			newHeader.hash
+		);
+		return false;
+	}
+
+	// Validate the header hash
+	if (generateHash({ ...newHeader, transactions: [] }) !== newHeader.hash) {
+		console.error('\nInvalid block hash:', newHeader.hash);
+		return false;
+	}
+
 	return true;
 };
 
+/**
+ * Strips the transactions from a block.
+ *
+ * @param block The block to strip.
+ *
+ * @returns The block header.
+ */
+const getBlockHeader = ({ block }: { block: Block }): BlockHeader => {
+	return {
+		version: block.version,
+		index: block.index,
+		timestamp: block.timestamp,
+		hash: block.hash,
+		previousHash: block.previousHash,
+		merkleRoot: block.merkleRoot,
+		difficulty: block.difficulty,
+		proof: block.proof,
+	};
+};
+
+/**
+ * Computes the size of a block, the total size of its transactions.
+ *
+ * @param block The block.
+ *
+ * @returns The size of the block, in bytes.
+ */
+const getBlockSize = ({ block }: { block: Block }): number => {
+	return block.transactions.reduce(
+		(sum, transaction) => sum + getTransactionSize({ transaction }),
+		0
+	);
+};
+
+/**
+ * Validates the Merkle root of a block.
+ *
+ * From version 3 onwards, the Merkle root must match the IDs of the block transactions, as
+ * the block hash only commits to the transactions through it. Earlier blocks have none.
+ *
+ * @param block The block to validate.
+ *
+ * @returns Whether the Merkle root is valid.
+ */
+const validateMerkleRoot = ({ block }: { block: Block }): boolean => {
+	if ((block.version ?? LEGACY_BLOCK_VERSION) < MERKLE_BLOCK_VERSION)
+		return block.merkleRoot === undefined;
+
+	return (
+		Array.isArray(block.transactions) &&
+		block.transactions.length > 0 &&
+		block.merkleRoot === getTransactionsMerkleRoot({ transactions: block.transactions })
+	);
+};
+
 /**
  * Validates the entire blockchain to ensure its integrity and consistency.
  *
  * This function verifies that the first block in the provided chain is a valid
  * genesis block. It then iterates over each block in the chain (except the genesis
  * block) to validate its structure, index, and hash against the previous block.
- * It also processes the transactions within each block and updates the list of
+ * It also processes the transactions within each block and updates the set of
  * unspent transaction outputs (UTxOs). If any block fails validation or if the
  * transactions are invalid, the function logs an error and returns null.
  *
  * @param block The blockchain to validate, represented as an array of Block objects.
  *
- * @returns The updated list of unspent transaction outputs if the chain is valid,
+ * @returns The updated set of unspent transaction outputs if the chain is valid,
  * or null if the chain is invalid.
  */
-const validateChain = ({ block }: { block: Block[] }): UnspentTxOut[] | null => {
+const validateChain = ({ block }: { block: Block[] }): UnspentTxOutSet | null => {
 	console.log('Validating blockchain:');
 	console.log(JSON.stringify(block, null, 2));
 
 	// Check if the first block is the valid genesis block
 	const isValidGenesis = (block: Block): boolean => {
-		return JSON.stringify(block) === JSON.stringify(blockchain[0]);
+		return isGenesisBlock({ block });
 	};
 
 	if (!isValidGenesis(block[0])) {
@@ -447,25 +1449,36 @@ const validateChain = ({ block }: { block: Block[] }): UnspentTxOut[] | null =>
 		return null;
 	}
 
-	let unspentTxOuts: UnspentTxOut[] = [];
+	const unspentTxOuts = new UnspentTxOutSet();
 
 	// Validate each block in the chain
 	for (let i = 0; i < block.length; i++) {
 		const currentBlock = block[i];
 
 		// Skip genesis block for further validation
-		if (i > 0 && !validateNewBlock({ newBlock: currentBlock, previousBlock: block[i - 1] })) {
+		if (
+			i > 0 &&
+			!validateNewBlock({
+				newBlock: currentBlock,
+				previousBlock: block[i - 1],
+				previousTimestamps: getPreviousTimestamps({ chain: block, height: i }),
+				expectedDifficulty: getExpectedDifficulty({ chain: block, height: i }),
+			})
+		) {
 			console.log(`Invalid block at index ${i}`);
 			return null;
 		}
 
 		// Process transactions and validate unspentTxOuts
-		unspentTxOuts = processTransactions({
-			transactions: currentBlock.transactions,
-			unspentTxOuts,
-			blockIndex: currentBlock.index,
-		});
-		if (unspentTxOuts === null) {
+		try {
+			processTransactions({
+				transactions: currentBlock.transactions,
+				unspentTxOuts,
+				blockIndex: currentBlock.index,
+				blockTimestamp: currentBlock.timestamp,
+				blockVersion: currentBlock.version,
+			});
+		} catch {
 			console.log('Invalid transactions in blockchain at block index', i);
 			return null;
 		}
@@ -474,36 +1487,139 @@ const validateChain = ({ block }: { block: Block[] }): UnspentTxOut[] | null =>
 	return unspentTxOuts;
 };
 
+/**
+ * Rebuilds the unspent transaction outputs as they were after the block below the given height.
+ *
+ * The blocks from the tip down to that height are rolled back using their stored undo data.
+ * When the undo data of a block is missing, the chain is replayed up to that height instead.
+ *
+ * @param height The height of the first block to roll back.
+ *
+ * @returns The unspent transaction outputs, or null if they could not be rebuilt.
+ */
+const rollbackUnspentTxOuts = ({ height }: { height: number }): UnspentTxOutSet | null => {
+	const rolledBack = unspentTxOuts.clone();
+
+	for (let index = blockchain.length - 1; index >= height; index--) {
+		const spentTxOuts = blockStore.loadUndo(index);
+
+		if (!spentTxOuts) {
+			console.log(`\nNo undo data for block ${index}, replaying the chain up to ${height}`);
+			return validateChain({ block: blockchain.slice(0, height) });
+		}
+
+		revertUnspentTxOuts({
+			transactions: blockchain[index].transactions,
+			spentTxOuts,
+			unspentTxOuts: rolledBack,
+		});
+	}
+
+	return rolledBack;
+};
+
 /**
  * Replaces the current blockchain with a new one.
  *
- * This function can be used to update the blockchain to a longer chain.
+ * This function can be used to update the blockchain to a chain with more accumulated
+ * difficulty. Instead of validating
+ * the new chain from the genesis block, it finds the fork point with the current chain, rolls
+ * back the orphaned blocks above it using their undo data and applies the blocks of the new
+ * branch. Transactions of the orphaned blocks that are still valid go back into the
+ * transaction pool.
  *
  * @param {Block[]} newChain The new blockchain.
  *
  * @returns {boolean} Whether the replacement was successful.
  */
 const replaceChain = (newChain: Block[]): boolean => {
-	const unspentTxOuts = validateChain({ block: newChain });
+	// Check if the new chain starts from the same genesis block
+	if (newChain.length === 0 || !isGenesisBlock({ block: newChain[0] })) {
+		console.log('Invalid genesis block');
+		return false;
+	}
+
+	// Check if the new chain has more accumulated difficulty than the current chain
+	if (getAccumulatedDifficulty(newChain) <= getAccumulatedDifficulty(blockchain)) return false;
+
+	// Index of the first block that differs from the current chain
+	const forkHeight = newChain.findIndex(
+		(block, index) => !blockchain[index] || blockchain[index].hash !== block.hash
+	);
+
+	const orphanedBlocks = blockchain.slice(forkHeight);
+	const newBlocks = newChain.slice(forkHeight);
+
+	// Validate the blocks of the new branch
+	for (const block of newBlocks) {
+		if (
+			!validateNewBlock({
+				newBlock: block,
+				previousBlock: newChain[block.index - 1],
+				previousTimestamps: getPreviousTimestamps({ chain: newChain, height: block.index }),
+				expectedDifficulty: getExpectedDifficulty({ chain: newChain, height: block.index }),
+			})
+		) {
+			console.log(`Invalid block at index ${block.index}`);
+			return false;
+		}
+	}
+
+	// Roll back the orphaned blocks
+	const chainUnspentTxOuts = rollbackUnspentTxOuts({ height: forkHeight });
+
+	if (!chainUnspentTxOuts) return false;
 
-	const isChainValid = unspentTxOuts !== null;
+	// Apply the new branch, recording the undo data of each block
+	const spentTxOuts: UnspentTxOut[][] = [];
 
-	// Check if the new chain is valid
-	if (!isChainValid) return false;
+	for (const block of newBlocks) {
+		spentTxOuts.push(
+			getSpentTxOuts({ transactions: block.transactions, unspentTxOuts: chainUnspentTxOuts })
+		);
 
-	if (getAccumulatedDifficulty(newChain) < getAccumulatedDifficulty(blockchain)) return false;
+		try {
+			processTransactions({
+				transactions: block.transactions,
+				unspentTxOuts: chainUnspentTxOuts,
+				blockIndex: block.index,
+				blockTimestamp: block.timestamp,
+				blockVersion: block.version,
+			});
+		} catch {
+			console.log('Invalid transactions in blockchain at block index', block.index);
+			return false;
+		}
+	}
 
-	// Check if the new chain is longer than the current chain
-	if (newChain.length <= blockchain.length) return false;
+	// Persist the new chain, keeping the blocks shared with the current one
+	blockStore.truncate(forkHeight);
+	newBlocks.forEach((block, index) => blockStore.append(block, spentTxOuts[index]));
 
 	// Replace the current chain with the new chain
 	blockchain = newChain;
 
 	// Set the new unspent transaction outputs
-	setUnspentTxOuts({ newUnspentTxOuts: unspentTxOuts });
+	setUnspentTxOuts({ newUnspentTxOuts: chainUnspentTxOuts });
+
+	if (orphanedBlocks.length > 0) {
+		console.log(
+			`\nChain reorganization of depth ${orphanedBlocks.length} at height ${forkHeight}: ` +
+				`${orphanedBlocks[orphanedBlocks.length - 1].hash} -> ${getLastBlock().hash}`
+		);
+	}
+
+	snapshotIfDue();
 
 	// Update the transaction pool
-	updateTransactionPool(unspentTxOuts);
+	updateTransactionPool(unspentTxOuts, getNextLockContext());
+
+	// Return the transactions of the orphaned blocks to the transaction pool
+	returnToTransactionPool({ blocks: orphanedBlocks, newBlocks });
+
+	// Restart any block being mined, locally or by the pool, on top of the new tip
+	notifyNewTip({ hash: getLastBlock().hash });
+	refreshPoolJob({ hash: getLastBlock().hash });
 
 	// Broadcast the latest block to connected peers
 	broadcastMessage(responseLatestMsg());
@@ -511,6 +1627,46 @@ const replaceChain = (newChain: Block[]): boolean => {
 	return true;
 };
 
+/**
+ * Adds the transactions of orphaned blocks back into the transaction pool.
+ *
+ * Coinbase transactions, transactions already included in the new branch and transactions
+ * that are no longer valid are skipped.
+ *
+ * @param blocks The orphaned blocks.
+ * @param newBlocks The blocks of the branch that replaced them.
+ */
+const returnToTransactionPool = ({
+	blocks,
+	newBlocks,
+}: {
+	blocks: Block[];
+	newBlocks: Block[];
+}) => {
+	const includedTxIds = new Set(
+		newBlocks.flatMap((block) => block.transactions).map((transaction) => transaction.id)
+	);
+
+	const transactions = blocks
+		.flatMap((block) => block.transactions.slice(1))
+		.filter((transaction) => !includedTxIds.has(transaction.id));
+
+	let returned = 0;
+
+	for (const transaction of transactions) {
+		try {
+			addToTransactionPool(transaction, unspentTxOuts, { context: getNextLockContext() });
+			returned++;
+		} catch (error) {
+			console.log(
+				`\nDropping orphaned transaction ${transaction.id}: ${(error as Error).message}`
+			);
+		}
+	}
+
+	if (returned > 0) console.log(`\nReturned ${returned} orphaned transactions to the pool`);
+};
+
 /**
  * Handles an incoming transaction by adding it to the transaction pool.
  *
@@ -518,186 +1674,277 @@ const replaceChain = (newChain: Block[]): boolean => {
  * @param {Transaction} options.transaction The transaction to add to the pool.
  */
 const handleReceivedTransaction = ({ transaction }: { transaction: Transaction }) => {
-	addToTransactionPool(transaction, getUnspentTxOuts());
+	addToTransactionPool(transaction, unspentTxOuts, { context: getNextLockContext() });
 };
 
 /**
- * Checks if a given hash has a difficulty level equal to or greater than the given level.
- *
- * The difficulty level is determined by the number of leading zeros in the binary representation of the hash.
+ * Computes the difficulty a new block must have, as computed by the difficulty policy of the
+ * node from the blocks before it. Only the last blocks the policy depends on are passed to it.
  *
- * @param {string} hash The hash to check.
- * @param {number} difficulty The difficulty level to check against.
+ * @param chain The chain the new block extends, from the genesis block or at least the span of
+ * the policy back.
+ * @param height The position of the new block in the chain.
  *
- * @returns {boolean} Whether the hash has a difficulty level equal to or greater than the given level.
+ * @returns The expected difficulty of the new block.
  */
-const checkHashDifficulty = (hash: string, difficulty: number): boolean => {
-	// Convert the hash to a binary string
-	const binary: string | null = hexToBinary(hash);
-
-	// Check if the binary string starts with the required number of zeros
-	const requiredPrefix: string = '0'.repeat(difficulty);
+const getExpectedDifficulty = ({
+	chain,
+	height,
+}: {
+	chain: BlockHeader[];
+	height: number;
+}): number => {
+	return difficultyPolicy.getNextDifficulty(
+		chain.slice(Math.max(0, height - difficultyPolicy.span), height)
+	);
+};
 
-	// If no binary string is found, return false
-	if (!binary) return false;
+/**
+ * Retrieves the number of last blocks the difficulty of a new block depends on.
+ *
+ * @returns The span of the difficulty policy.
+ */
+const getDifficultySpan = (): number => {
+	return difficultyPolicy.span;
+};
 
-	return binary.startsWith(requiredPrefix);
+/**
+ * Retrieves the difficulty of the next block on top of the active chain.
+ *
+ * @returns The difficulty level of the next block.
+ */
+const getNextDifficulty = (): number => {
+	return getExpectedDifficulty({ chain: blockchain, height: blockchain.length });
 };
 
 /**
- * Determines the current difficulty level of the blockchain.
+ * Retrieves the timestamps the median time past of a new block is taken over: those of the
+ * `MEDIAN_TIME_SPAN` blocks before it.
  *
- * The difficulty is adjusted every set number of blocks, based on the defined
- * `DIFFICULTY_ADJUSTMENT_INTERVAL`. If the last block's index is a multiple of
- * this interval and it is not the genesis block, the difficulty is recalculated.
- * Otherwise, the difficulty of the last block is returned.
+ * @param chain The chain the new block extends, each block at its index.
+ * @param height The index of the new block.
  *
- * @param blockchain The array of blocks in the blockchain.
+ * @returns The timestamps, oldest first.
+ */
+const getPreviousTimestamps = ({
+	chain,
+	height,
+}: {
+	chain: BlockHeader[];
+	height: number;
+}): number[] => {
+	return chain
+		.slice(Math.max(0, height - MEDIAN_TIME_SPAN), height)
+		.map((block) => block.timestamp);
+};
+
+/**
+ * Computes the median time past: the median timestamp of the last `MEDIAN_TIME_SPAN` blocks.
+ * With an even number of blocks, the later of the two middle timestamps is taken.
+ *
+ * @param timestamps The timestamps of the last blocks, oldest first.
  *
- * @returns The current difficulty level.
+ * @returns The median time past.
  */
-const getDifficulty = (blockchain: Block[]): number => {
-	// Get the last block
-	const lastBlock: Block = blockchain[blockchain.length - 1];
+const getMedianTimePast = ({ timestamps }: { timestamps: number[] }): number => {
+	const sorted = timestamps.slice(-MEDIAN_TIME_SPAN).sort((a, b) => a - b);
 
-	// If the index is a multiple of 10 and not the genesis block, adjust the difficulty
-	if (lastBlock.index % DIFFICULTY_ADJUSTMENT_INTERVAL === 0 && lastBlock.index !== 0) {
-		return adjustDifficulty(blockchain, lastBlock);
-	} else return lastBlock.difficulty;
+	return sorted[Math.floor(sorted.length / 2)];
 };
 
 /**
- * Adjusts the difficulty level of the blockchain based on the time taken to mine
- * the last set of blocks.
+ * Checks the timestamp of a block against the consensus rules.
  *
- * The difficulty is recalculated every `DIFFICULTY_ADJUSTMENT_INTERVAL` blocks.
- * If the time taken to mine these blocks is less than half the expected time,
- * the difficulty is increased by 1. If the time taken is more than twice the
- * expected time, the difficulty is decreased by 1. Otherwise, the difficulty
- * remains the same.
+ * The timestamp, in milliseconds, must be a whole number strictly after the median time past
+ * of the blocks before it, so miners cannot walk the chain time backwards. It must be at most
+ * `MAX_FUTURE_DRIFT` ahead of the network-adjusted time, so a block cannot claim a time far
+ * in the future. Timestamps may otherwise go backwards from one block to the next.
  *
- * @param blockchain The array of blocks in the blockchain.
- * @param lastBlock The last block in the blockchain.
+ * @param newBlock The block to check.
+ * @param previousTimestamps The timestamps of the last blocks before it, oldest first.
  *
- * @returns The adjusted difficulty level.
+ * @returns Why the timestamp is rejected, or null if it is valid.
  */
-const adjustDifficulty = (blockchain: Block[], lastBlock: Block): number => {
-	// The last block to adjust the difficulty
-	const lastAdjustmentBlock: Block =
-		blockchain[blockchain.length - DIFFICULTY_ADJUSTMENT_INTERVAL];
+const checkTimestamp = ({
+	newBlock,
+	previousTimestamps,
+}: {
+	newBlock: BlockHeader;
+	previousTimestamps: number[];
+}): string | null => {
+	const { timestamp } = newBlock;
+
+	if (!Number.isInteger(timestamp)) return `${timestamp} is not a whole number of milliseconds`;
 
-	// Time expected to mine a block
-	const timeExpected: number = BLOCK_GENERATION_INTERVAL * DIFFICULTY_ADJUSTMENT_INTERVAL;
+	const medianTimePast = getMedianTimePast({ timestamps: previousTimestamps });
 
-	// Time taken to mine the last block
-	const timeTaken: number = lastBlock.timestamp / 1000 - lastAdjustmentBlock.timestamp / 1000;
+	if (timestamp <= medianTimePast)
+		return `${timestamp} is not after the median time past ${medianTimePast}`;
 
-	// If the time taken is less than half the expected time, increase the difficulty
-	if (timeTaken < timeExpected / 2) return lastAdjustmentBlock.difficulty + 1;
+	const adjustedTime = getAdjustedTime();
 
-	// If the time taken is more than twice the expected time, decrease the difficulty
-	if (timeTaken > timeExpected * 2) return lastAdjustmentBlock.difficulty - 1;
+	if (timestamp > adjustedTime + MAX_FUTURE_DRIFT)
+		return (
+			`${timestamp} is more than ${MAX_FUTURE_DRIFT / 1000}s ahead of the ` +
+			`network-adjusted time ${adjustedTime}`
+		);
 
-	return lastAdjustmentBlock.difficulty;
+	return null;
 };
 
 /**
- * Finds a valid block by trying different proofs until a valid hash is found.
+ * Calculates the total difficulty of all blocks in the blockchain.
  *
- * This function takes in the block data, generates a hash, and checks if the hash
- * starts with the required number of zeros. If it does, the function returns the
- * block with the valid hash. If not, the function increments the proof and tries
- * again.
+ * The total difficulty is the sum of 2 raised to the power of each block's difficulty.
  *
- * @param index The index of the block to find.
- * @param previousHash The hash of the previous block.
- * @param timestamp The timestamp of the block to find.
- * @param transactions The transactions contained in the block to find.
- * @param difficulty The difficulty level of the PoW challenge.
+ * @param blockchain The array of blocks in the blockchain.
  *
- * @returns The block with a valid hash.
+ * @returns The total difficulty of the blockchain.
  */
-const findBlock = ({
-	index,
-	previousHash,
-	timestamp,
-	transactions,
-	difficulty,
-}: {
-	index: number;
-	previousHash: string;
-	timestamp: number;
-	transactions: Transaction[];
-	difficulty: number;
-}): Block => {
-	let proof = 0;
-
-	while (true) {
-		const blockData = {
-			index,
-			previousHash,
-			transactions,
-			timestamp,
-			difficulty,
-			proof,
-		};
-
-		// Generate the block hash
-		const hash = generateHash(blockData);
+const getAccumulatedDifficulty = (blockchain: BlockHeader[]): number => {
+	return blockchain
+		.map((block) => block.difficulty)
+		.map((diffculty) => Math.pow(2, diffculty))
+		.reduce((a, b) => a + b, 0);
+};
 
-		// Check if the hash starts with the required number of zeros
-		if (checkHashDifficulty(hash, difficulty)) return new Block({ ...blockData, hash, proof });
+/**
+ * Builds a Merkle proof that a transaction is included in a block of the active chain.
+ *
+ * The proof links the transaction ID to the Merkle root in the block header, so it can be
+ * verified with the header alone. Blocks before version 3 have no Merkle root, so
+ * transactions in them cannot be proven.
+ *
+ * @param id The ID of the transaction.
+ *
+ * @returns The Merkle proof, or null if the transaction is not in a block with a Merkle root.
+ */
+const getTransactionProof = ({ id }: { id: string }): MerkleProof | null => {
+	for (const block of blockchain) {
+		const position = block.transactions.findIndex((transaction) => transaction.id === id);
 
-		// Increment the proof
-		proof++;
+		if (position !== -1) return buildMerkleProof({ block, position });
 	}
+
+	return null;
 };
 
 /**
- * Validates the timestamp of a block.
+ * Builds the Merkle proof of the transaction at a position in a block.
  *
- * A block is considered to have a valid timestamp if the timestamp is within the last minute.
+ * @param block The block holding the transaction.
+ * @param position The position of the transaction in the block.
  *
- * @param newBlock The block to validate.
- * @param previousBlock The previous block.
- *
- * @returns Whether the timestamp is valid.
+ * @returns The Merkle proof, or null if the block has no Merkle root.
  */
-const validateTimestamp = (newBlock: Block, previousBlock: Block): boolean => {
-	return (
-		previousBlock.timestamp - 60 < newBlock.timestamp && newBlock.timestamp - 60 < Date.now()
-	);
+const buildMerkleProof = ({
+	block,
+	position,
+}: {
+	block: Block;
+	position: number;
+}): MerkleProof | null => {
+	if (block.merkleRoot === undefined) return null;
+
+	const branch = getMerkleBranch({
+		txIds: block.transactions.map((transaction) => transaction.id),
+		position,
+	});
+
+	if (!branch) return null;
+
+	return {
+		txId: block.transactions[position].id,
+		blockHash: block.hash,
+		blockIndex: block.index,
+		merkleRoot: block.merkleRoot,
+		branch,
+	};
 };
 
 /**
- * Calculates the total difficulty of all blocks in the blockchain.
+ * Builds Merkle proofs for every transaction of the active chain involving an address, so a
+ * light client can track its wallet without downloading blocks.
  *
- * The total difficulty is the sum of 2 raised to the power of each block's difficulty.
+ * A transaction involves the address when one of its outputs is sent to it, or one of its
+ * inputs spends such an output. Transactions in blocks without a Merkle root are left out.
  *
- * @param blockchain The array of blocks in the blockchain.
+ * @param address The address to look up.
  *
- * @returns The total difficulty of the blockchain.
+ * @returns The transactions along with their Merkle proofs, in chain order.
  */
-const getAccumulatedDifficulty = (blockchain: Block[]): number => {
-	return blockchain
-		.map((block) => block.difficulty)
-		.map((diffculty) => Math.pow(2, diffculty))
-		.reduce((a, b) => a + b, 0);
+const getAddressTransactionProofs = ({
+	address,
+}: {
+	address: string;
+}): { transaction: Transaction; proof: MerkleProof }[] => {
+	const outpoints: Set<string> = new Set();
+	const proofs: { transaction: Transaction; proof: MerkleProof }[] = [];
+
+	for (const block of blockchain) {
+		block.transactions.forEach((transaction, position) => {
+			const spends = transaction.txIns.some((txIn) => outpoints.has(getOutpointKey(txIn)));
+			let receives = false;
+
+			transaction.txOuts.forEach((txOut, txOutIndex) => {
+				if (txOut.address !== address) return;
+
+				outpoints.add(getOutpointKey({ txOutId: transaction.id, txOutIndex }));
+				receives = true;
+			});
+
+			if (!spends && !receives) return;
+
+			const proof = buildMerkleProof({ block, position });
+			if (proof) proofs.push({ transaction, proof });
+		});
+	}
+
+	return proofs;
 };
 
 export {
+	MEDIAN_TIME_SPAN,
 	getLastBlock,
 	getBlockchain,
 	addBlock,
 	replaceChain,
+	initBlockchain,
+	initDifficultyPolicy,
+	createSnapshot,
+	getSnapshots,
 	initializeChain,
 	generateBlock,
 	generateBlockWithTransaction,
 	accountBalance,
 	generateRawBlock,
 	validateBlockStructure,
+	validateNewBlock,
+	generateHashForBlock,
+	getAccumulatedDifficulty,
 	sendTransaction,
+	sendPayments,
+	bumpFee,
+	lockFunds,
+	createConditionSpend,
+	signTransaction,
+	submitTransaction,
 	getUnspentTxOuts,
+	getUnspentTxOutsByAddress,
+	getCirculatingSupply,
 	handleReceivedTransaction,
 	getMyUnspentTransactionOutputs,
+	getTransactionProof,
+	getAddressTransactionProofs,
+	getBlockLocator,
+	getBlockHashesAfter,
+	getNextDifficulty,
+	getExpectedDifficulty,
+	getDifficultySpan,
+	getBlockTemplate,
+	submitBlock,
+	getBlockHeader,
+	validateHeaderStructure,
+	validateNewHeader,
+	getPreviousTimestamps,
 };
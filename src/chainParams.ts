@@ -0,0 +1,174 @@
+import { Block, LEGACY_BLOCK_VERSION, MERKLE_BLOCK_VERSION } from './block';
+
+type NetworkName = 'mainnet' | 'testnet' | 'regtest';
+
+interface ChainParams {
+	name: NetworkName; // Name of the network
+	magic: string; // Network magic sent in the P2P handshake, peers on another network are refused
+	genesisBlock: Block; // First block of the chain
+	initialBlockReward: number; // Block reward paid by the coinbase transaction before the first halving
+	halvingInterval: number; // Number of blocks between two halvings of the block reward, 0 for a flat reward
+	tailEmission: number; // Lowest block reward, paid forever once the halvings reach it, 0 for none
+	blockGenerationInterval: number; // Expected time between two blocks, in seconds
+	difficultyAdjustmentInterval: number; // Number of blocks between two interval retargets
+	difficultyPolicy: string; // Difficulty policy used unless configured otherwise
+	maxBlockSize: number; // Largest total size of the transactions of a block, in bytes
+	coinbaseMaturity: number; // Number of blocks before a coinbase output may be spent
+	httpPort: number; // Default HTTP port
+	p2pPort: number; // Default P2P port
+	dataDir: string; // Default directory the blocks and snapshots are written to
+}
+
+// Address the genesis coinbase transactions pay to
+const GENESIS_ADDRESS =
+	'04bfcab8722991ae774db48f934ca79cfb7dd991229153b9f732ba5334aafcd8e7266e47076996b55a14bf9913ee3145ce0cfc1372ada8ada74bd287450313534a';
+
+const MAINNET: ChainParams = {
+	name: 'mainnet',
+	magic: '4f524c4e',
+	genesisBlock: new Block({
+		version: LEGACY_BLOCK_VERSION,
+		index: 0,
+		timestamp: 1734667274522,
+		transactions: [
+			{
+				txIns: [
+					{
+						signature: '',
+						txOutId: '',
+						txOutIndex: 0,
+					},
+				],
+				txOuts: [
+					{
+						address: GENESIS_ADDRESS,
+						amount: 50,
+					},
+				],
+				id: 'e655f6a5f26dc9b4cac6e46f52336428287759cf81ef5ff10854f69d68f43fa3',
+			},
+		],
+		hash: '45dcbece109d098f2764e371d20e29c5ef3dcc10d985c6bc8d563d1fbdc82d9e',
+		previousHash: '',
+		difficulty: 0,
+		proof: 0,
+	}),
+	initialBlockReward: 50,
+	halvingInterval: 100000,
+	tailEmission: 0,
+	blockGenerationInterval: 10,
+	difficultyAdjustmentInterval: 10,
+	difficultyPolicy: 'interval',
+	maxBlockSize: 1000000,
+	coinbaseMaturity: 100,
+	httpPort: 3000,
+	p2pPort: 5000,
+	dataDir: 'data',
+};
+
+// Public test network, retargeting on every block so swings in hashrate settle quickly
+const TESTNET: ChainParams = {
+	name: 'testnet',
+	magic: '4f524c54',
+	genesisBlock: new Block({
+		version: MERKLE_BLOCK_VERSION,
+		index: 0,
+		timestamp: 1767225600000,
+		transactions: [
+			{
+				txIns: [{ signature: '', txOutId: '', txOutIndex: 0 }],
+				txOuts: [{ address: GENESIS_ADDRESS, amount: 50 }],
+				id: '9f1a2ad2311a30c21dddc89ee2c243ce7267e28419f3c4230ee9a32b899d0c23',
+			},
+		],
+		merkleRoot: '9f1a2ad2311a30c21dddc89ee2c243ce7267e28419f3c4230ee9a32b899d0c23',
+		hash: 'a601325d877fd19cb9321d6128d18c0421e4bb027f96e8c3fe39c399454e6ff0',
+		previousHash: '',
+		difficulty: 0,
+		proof: 0,
+	}),
+	initialBlockReward: 50,
+	halvingInterval: 1000,
+	tailEmission: 1,
+	blockGenerationInterval: 10,
+	difficultyAdjustmentInterval: 10,
+	difficultyPolicy: 'lwma',
+	maxBlockSize: 1000000,
+	coinbaseMaturity: 100,
+	httpPort: 3001,
+	p2pPort: 5001,
+	dataDir: 'data/testnet',
+};
+
+// Local network for integration tests, every block is mined at difficulty 0 right away
+const REGTEST: ChainParams = {
+	name: 'regtest',
+	magic: '4f524c52',
+	genesisBlock: new Block({
+		version: MERKLE_BLOCK_VERSION,
+		index: 0,
+		timestamp: 1767225600001,
+		transactions: [
+			{
+				txIns: [{ signature: '', txOutId: '', txOutIndex: 0 }],
+				txOuts: [{ address: GENESIS_ADDRESS, amount: 50 }],
+				id: '9f1a2ad2311a30c21dddc89ee2c243ce7267e28419f3c4230ee9a32b899d0c23',
+			},
+		],
+		merkleRoot: '9f1a2ad2311a30c21dddc89ee2c243ce7267e28419f3c4230ee9a32b899d0c23',
+		hash: 'd56886e9b46b01ad5282cf8650a2bab36c0487605eebb60cd0c9e7d2a9355443',
+		previousHash: '',
+		difficulty: 0,
+		proof: 0,
+	}),
+	initialBlockReward: 50,
+	halvingInterval: 150,
+	tailEmission: 0,
+	blockGenerationInterval: 10,
+	difficultyAdjustmentInterval: 10,
+	difficultyPolicy: 'fixed',
+	maxBlockSize: 1000000,
+	coinbaseMaturity: 10,
+	httpPort: 3002,
+	p2pPort: 5002,
+	dataDir: 'data/regtest',
+};
+
+const CHAIN_PARAMS: Record<NetworkName, ChainParams> = {
+	mainnet: MAINNET,
+	testnet: TESTNET,
+	regtest: REGTEST,
+};
+
+// Parameters of the network the node runs on
+let chainParams: ChainParams = MAINNET;
+
+/**
+ * Selects the network the node runs on. Must be called before the blockchain is initialized,
+ * as the genesis block and consensus rules depend on it.
+ *
+ * @param network The name of the network, either 'mainnet', 'testnet' or 'regtest'.
+ *
+ * @returns The parameters of the network.
+ *
+ * @throws {Error} If the network is unknown.
+ */
+const selectChainParams = ({ network }: { network: string }): ChainParams => {
+	if (!Object.prototype.hasOwnProperty.call(CHAIN_PARAMS, network))
+		throw new Error(`Unknown network: ${network}`);
+
+	chainParams = CHAIN_PARAMS[network as NetworkName];
+
+	return chainParams;
+};
+
+/**
+ * Retrieves the parameters of the network the node runs on.
+ *
+ * @returns The chain parameters.
+ */
+const getChainParams = (): ChainParams => {
+	return chainParams;
+};
+
+export { ChainParams, NetworkName, selectChainParams, getChainParams };
@@ -0,0 +1,508 @@
+import sha256 from 'crypto-js/sha256';
+import Hex from 'crypto-js/enc-hex';
+import { canonicalStringify } from './serialization';
+
+const MAX_CONDITION_DEPTH = 4; // Deepest nesting of 'all' and 'any' conditions
+const MAX_CONDITIONS = 16; // Most conditions combined by a single 'all' or 'any' condition
+const MAX_PUBLIC_KEYS = 16; // Most public keys of a multisig condition
+const MAX_WITNESS_SIGNATURES = 16; // Most signatures in the witness of an input
+const MAX_PREIMAGE_SIZE = 64; // Largest hash lock preimage, in bytes
+
+interface SignatureCondition {
+	type: 'signature';
+	publicKey: string; // Public key whose signature unlocks the output
+}
+
+interface MultisigCondition {
+	type: 'multisig';
+	required: number; // Number of distinct public keys that must sign
+	publicKeys: string[]; // Public keys allowed to sign
+}
+
+interface AbsoluteLockCondition {
+	type: 'absoluteLock';
+	height?: number; // Index of the first block the output may be spent in
+	timestamp?: number; // Block timestamp the output may be spent from, in milliseconds since the epoch
+}
+
+interface RelativeLockCondition {
+	type: 'relativeLock';
+	blocks?: number; // Number of blocks after the one confirming the output before it may be spent
+	duration?: number; // Time after the block confirming the output before it may be spent, in milliseconds
+}
+
+interface HashLockCondition {
+	type: 'hashLock';
+	hash: string; // SHA-256 hash of the preimage that unlocks the output, in hex
+}
+
+interface AllCondition {
+	type: 'all';
+	conditions: Condition[]; // Conditions that must all be met
+}
+
+interface AnyCondition {
+	type: 'any';
+	conditions: Condition[]; // Conditions of which at least one must be met
+}
+
+// Condition an output is locked with, which the input spending it must meet
+type Condition =
+	| SignatureCondition
+	| MultisigCondition
+	| AbsoluteLockCondition
+	| RelativeLockCondition
+	| HashLockCondition
+	| AllCondition
+	| AnyCondition;
+
+interface Witness {
+	signatures: string[]; // Signatures of the input, in any order
+	preimage?: string; // Preimage of a hash lock, in hex
+}
+
+// Checks a signature of the spending input with a public key
+type SignatureVerifier = ({
+	publicKey,
+	signature,
+}: {
+	publicKey: string;
+	signature: string;
+}) => boolean;
+
+interface LockContext {
+	height: number; // Index of the block the spending transaction is included in
+	timestamp: number; // Timestamp of that block, in milliseconds since the epoch
+}
+
+interface LockedOutput {
+	height?: number; // Index of the block that confirmed the output, unset while unconfirmed
+	timestamp?: number; // Timestamp of that block
+}
+
+// Fields allowed in each type of condition
+const CONDITION_FIELDS: Record<Condition['type'], string[]> = {
+	signature: ['type', 'publicKey'],
+	multisig: ['type', 'required', 'publicKeys'],
+	absoluteLock: ['type', 'height', 'timestamp'],
+	relativeLock: ['type', 'blocks', 'duration'],
+	hashLock: ['type', 'hash'],
+	all: ['type', 'conditions'],
+	any: ['type', 'conditions'],
+};
+
+/**
+ * Computes the address of the outputs locked with a condition: the SHA-256 hash of the
+ * canonical serialization of the condition. It is shorter than a public key, so coins locked
+ * with a condition are never mistaken for coins of a wallet.
+ *
+ * @param condition The condition.
+ *
+ * @returns The address, in hex.
+ */
+const getConditionAddress = ({ condition }: { condition: Condition }): string => {
+	return sha256(canonicalStringify(condition)).toString();
+};
+
+const isPublicKey = (value: unknown): boolean => {
+	return typeof value === 'string' && /^04[a-fA-F0-9]{128}$/.test(value);
+};
+
+const isLockValue = (value: unknown): boolean => {
+	return value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+};
+
+/**
+ * Validates the structure of a condition: its type is known, it has the fields of its type and
+ * no others, and the fields have valid values.
+ *
+ * Conditions come from peers, so the reason a condition is invalid is returned rather than
+ * logged, for the caller to report once per transaction.
+ *
+ * @param condition The condition to validate.
+ * @param depth The nesting depth of the condition.
+ *
+ * @returns Why the condition has an invalid structure, or null if it is valid.
+ */
+const findConditionStructureError = ({
+	condition,
+	depth = 0,
+}: {
+	condition: Condition;
+	depth?: number;
+}): string | null => {
+	if (
+		!condition ||
+		typeof condition !== 'object' ||
+		!Object.prototype.hasOwnProperty.call(CONDITION_FIELDS, condition.type)
+	)
+		return 'Unknown condition type';
+
+	if (Object.keys(condition).some((key) => !CONDITION_FIELDS[condition.type].includes(key)))
+		return `Unexpected field in ${condition.type} condition`;
+
+	switch (condition.type) {
+		case 'signature':
+			return isPublicKey(condition.publicKey)
+				? null
+				: 'Invalid public key in signature condition';
+		case 'multisig':
+			return Array.isArray(condition.publicKeys) &&
+				condition.publicKeys.length <= MAX_PUBLIC_KEYS &&
+				condition.publicKeys.every(isPublicKey) &&
+				new Set(condition.publicKeys).size === condition.publicKeys.length &&
+				Number.isInteger(condition.required) &&
+				condition.required > 0 &&
+				condition.required <= condition.publicKeys.length
+				? null
+				: 'Invalid public keys or required signatures in multisig condition';
+		case 'absoluteLock':
+			return isLockValue(condition.height) &&
+				isLockValue(condition.timestamp) &&
+				(condition.height === undefined) !== (condition.timestamp === undefined)
+				? null
+				: 'Invalid height or timestamp in absoluteLock condition';
+		case 'relativeLock':
+			return isLockValue(condition.blocks) &&
+				isLockValue(condition.duration) &&
+				(condition.blocks === undefined) !== (condition.duration === undefined)
+				? null
+				: 'Invalid blocks or duration in relativeLock condition';
+		case 'hashLock':
+			return typeof condition.hash === 'string' && /^[a-f0-9]{64}$/.test(condition.hash)
+				? null
+				: 'Invalid hash in hashLock condition';
+		case 'all':
+		case 'any': {
+			if (depth >= MAX_CONDITION_DEPTH) return 'Conditions nested too deep';
+
+			if (
+				!Array.isArray(condition.conditions) ||
+				condition.conditions.length === 0 ||
+				condition.conditions.length > MAX_CONDITIONS
+			)
+				return `Invalid number of conditions in ${condition.type} condition`;
+
+			for (const nested of condition.conditions) {
+				const error = findConditionStructureError({ condition: nested, depth: depth + 1 });
+				if (error) return error;
+			}
+
+			return null;
+		}
+	}
+};
+
+/**
+ * Validates the structure of the witness of an input.
+ *
+ * @param witness The witness to validate.
+ *
+ * @returns Why the witness has an invalid structure, or null if it is valid.
+ */
+const findWitnessStructureError = ({ witness }: { witness: Witness }): string | null => {
+	if (!witness || typeof witness !== 'object') return 'Invalid witness type';
+
+	if (
+		!Array.isArray(witness.signatures) ||
+		witness.signatures.length > MAX_WITNESS_SIGNATURES ||
+		!witness.signatures.every((signature) => typeof signature === 'string')
+	)
+		return 'Invalid witness signatures';
+
+	if (
+		witness.preimage !== undefined &&
+		(typeof witness.preimage !== 'string' ||
+			!/^([a-fA-F0-9]{2})*$/.test(witness.preimage) ||
+			witness.preimage.length > MAX_PREIMAGE_SIZE * 2)
+	)
+		return 'Invalid witness preimage';
+
+	return null;
+};
+
+/**
+ * Computes the hash a hash lock commits to: the SHA-256 hash of the bytes of a preimage.
+ *
+ * @param preimage The preimage, in hex.
+ *
+ * @returns The hash, in hex.
+ */
+const getPreimageHash = ({ preimage }: { preimage: string }): string => {
+	return sha256(Hex.parse(preimage)).toString();
+};
+
+/**
+ * Checks whether a signature of the witness is valid for a public key.
+ */
+const hasSignature = ({
+	publicKey,
+	witness,
+	verifySignature,
+}: {
+	publicKey: string;
+	witness: Witness;
+	verifySignature: SignatureVerifier;
+}): boolean => {
+	return witness.signatures.some((signature) => verifySignature({ publicKey, signature }));
+};
+
+/**
+ * Evaluates the condition an output is locked with against the witness of the input spending
+ * it.
+ *
+ * Signatures are checked by the verifier of the spending input. Absolute locks compare
+ * with the block the spending transaction is included in, and relative locks with the time
+ * elapsed since the block that confirmed the output, so an unconfirmed output never meets
+ * them.
+ *
+ * @param condition The condition of the output.
+ * @param witness The witness of the input.
+ * @param verifySignature Checks a witness signature of the spending input with a public key.
+ * @param output The confirmation of the output.
+ * @param context The block the spending transaction is included in.
+ *
+ * @returns Whether the condition is met.
+ */
+const evaluateCondition = ({
+	condition,
+	witness,
+	verifySignature,
+	output,
+	context,
+}: {
+	condition: Condition;
+	witness: Witness;
+	verifySignature: SignatureVerifier;
+	output: LockedOutput;
+	context: LockContext;
+}): boolean => {
+	switch (condition.type) {
+		case 'signature':
+			return hasSignature({ publicKey: condition.publicKey, witness, verifySignature });
+		case 'multisig':
+			return (
+				condition.publicKeys.filter((publicKey) =>
+					hasSignature({ publicKey, witness, verifySignature })
+				).length >= condition.required
+			);
+		case 'absoluteLock':
+			return condition.height !== undefined
+				? context.height >= condition.height
+				: context.timestamp >= condition.timestamp!;
+		case 'relativeLock':
+			if (output.height === undefined || output.timestamp === undefined) return false;
+
+			return condition.blocks !== undefined
+				? context.height >= output.height + condition.blocks
+				: context.timestamp >= output.timestamp + condition.duration!;
+		case 'hashLock':
+			return (
+				witness.preimage !== undefined &&
+				getPreimageHash({ preimage: witness.preimage }) === condition.hash
+			);
+		case 'all':
+			return condition.conditions.every((nested) =>
+				evaluateCondition({ condition: nested, witness, verifySignature, output, context })
+			);
+		case 'any':
+			return condition.conditions.some((nested) =>
+				evaluateCondition({ condition: nested, witness, verifySignature, output, context })
+			);
+	}
+};
+
+/**
+ * Lists the public keys that may sign for a condition, in any of its branches.
+ *
+ * @param condition The condition.
+ *
+ * @returns The public keys.
+ */
+const getConditionPublicKeys = ({ condition }: { condition: Condition }): string[] => {
+	switch (condition.type) {
+		case 'signature':
+			return [condition.publicKey];
+		case 'multisig':
+			return condition.publicKeys;
+		case 'all':
+		case 'any':
+			return condition.conditions.flatMap((nested) =>
+				getConditionPublicKeys({ condition: nested })
+			);
+		default:
+			return [];
+	}
+};
+
+/**
+ * Lists the hashes whose preimage a condition accepts, in any of its branches.
+ *
+ * @param condition The condition.
+ *
+ * @returns The hashes, in hex.
+ */
+const getConditionHashes = ({ condition }: { condition: Condition }): string[] => {
+	switch (condition.type) {
+		case 'hashLock':
+			return [condition.hash];
+		case 'all':
+		case 'any':
+			return condition.conditions.flatMap((nested) =>
+				getConditionHashes({ condition: nested })
+			);
+		default:
+			return [];
+	}
+};
+
+/**
+ * Builds a condition requiring the signatures of `required` of the given public keys.
+ *
+ * @param required The number of signatures required.
+ * @param publicKeys The public keys allowed to sign.
+ *
+ * @returns The multisig condition.
+ */
+const createMultisigCondition = ({
+	required,
+	publicKeys,
+}: {
+	required: number;
+	publicKeys: string[];
+}): MultisigCondition => {
+	return { type: 'multisig', required, publicKeys };
+};
+
+/**
+ * Builds a condition locking an output until a block height or a block timestamp, and
+ * requiring the signature of a public key after that.
+ *
+ * @param publicKey The public key that may spend the output.
+ * @param height The index of the first block the output may be spent in.
+ * @param timestamp The block timestamp the output may be spent from, instead of a height.
+ *
+ * @returns The time-locked condition.
+ */
+const createAbsoluteLockCondition = ({
+	publicKey,
+	height,
+	timestamp,
+}: {
+	publicKey: string;
+	height?: number;
+	timestamp?: number;
+}): AllCondition => {
+	return {
+		type: 'all',
+		conditions: [
+			{ type: 'absoluteLock', height, timestamp },
+			{ type: 'signature', publicKey },
+		],
+	};
+};
+
+/**
+ * Builds a condition locking an output for a number of blocks or a duration after it is
+ * confirmed, and requiring the signature of a public key after that.
+ *
+ * @param publicKey The public key that may spend the output.
+ * @param blocks The number of blocks the output stays locked after its confirmation.
+ * @param duration The time the output stays locked after its confirmation, in milliseconds,
+ * instead of a number of blocks.
+ *
+ * @returns The time-locked condition.
+ */
+const createRelativeLockCondition = ({
+	publicKey,
+	blocks,
+	duration,
+}: {
+	publicKey: string;
+	blocks?: number;
+	duration?: number;
+}): AllCondition => {
+	return {
+		type: 'all',
+		conditions: [
+			{ type: 'relativeLock', blocks, duration },
+			{ type: 'signature', publicKey },
+		],
+	};
+};
+
+/**
+ * Builds a condition requiring the preimage of a hash and the signature of a public key.
+ *
+ * @param publicKey The public key that may spend the output.
+ * @param hash The SHA-256 hash of the preimage, in hex.
+ *
+ * @returns The hash-locked condition.
+ */
+const createHashLockCondition = ({
+	publicKey,
+	hash,
+}: {
+	publicKey: string;
+	hash: string;
+}): AllCondition => {
+	return {
+		type: 'all',
+		conditions: [
+			{ type: 'hashLock', hash },
+			{ type: 'signature', publicKey },
+		],
+	};
+};
+
+/**
+ * Builds a hashed timelock condition, the building block of atomic swaps: the recipient may
+ * spend the output with the preimage of a hash, and the sender may take it back once a block
+ * height is reached.
+ *
+ * @param recipient The public key of the recipient.
+ * @param refundPublicKey The public key of the sender.
+ * @param hash The SHA-256 hash of the preimage, in hex.
+ * @param refundHeight The index of the first block the sender may take the output back in.
+ *
+ * @returns The hashed timelock condition.
+ */
+const createHashTimeLockCondition = ({
+	recipient,
+	refundPublicKey,
+	hash,
+	refundHeight,
+}: {
+	recipient: string;
+	refundPublicKey: string;
+	hash: string;
+	refundHeight: number;
+}): AnyCondition => {
+	return {
+		type: 'any',
+		conditions: [
+			createHashLockCondition({ publicKey: recipient, hash }),
+			createAbsoluteLockCondition({ publicKey: refundPublicKey, height: refundHeight }),
+		],
+	};
+};
+
+export {
+	Condition,
+	Witness,
+	SignatureVerifier,
+	LockContext,
+	LockedOutput,
+	getConditionAddress,
+	getConditionPublicKeys,
+	getConditionHashes,
+	getPreimageHash,
+	findConditionStructureError,
+	findWitnessStructureError,
+	evaluateCondition,
+	createMultisigCondition,
+	createAbsoluteLockCondition,
+	createRelativeLockCondition,
+	createHashLockCondition,
+	createHashTimeLockCondition,
+};
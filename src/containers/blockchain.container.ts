@@ -9,9 +9,40 @@ import {
 	accountBalance,
 	getMyUnspentTransactionOutputs,
 	getUnspentTxOuts,
+	getUnspentTxOutsByAddress,
+	getCirculatingSupply,
 	sendTransaction,
+	bumpFee,
+	lockFunds,
+	createConditionSpend,
+	signTransaction,
+	submitTransaction,
+	createSnapshot,
+	getSnapshots,
+	getTransactionProof,
+	getBlockTemplate,
+	submitBlock,
 } from '../blockchain';
-import { getTransactionPool } from '../transactionPool';
+import {
+	getTransactionPool,
+	getTransactionPoolEntries,
+	getTransactionPoolStats,
+} from '../transactionPool';
+import { getBlockTips, getOrphanBlocks } from '../blockTree';
+import { getSyncStatus } from '../blockSync';
+import { getNetworkTimeStatus } from '../networkTime';
+import { getChainParams } from '../chainParams';
+import { getSupplyInfo } from '../emission';
+import { getMiningStatus } from '../miner';
+import { getAutoMinerStatus, startAutoMiner, stopAutoMiner } from '../autoMiner';
+import { getPoolStatus } from '../pool';
+import {
+	getHeaders,
+	getLastHeader,
+	getVerifiedBalance,
+	getVerifiedTransactions,
+	isLightClient,
+} from '../lightClient';
 import { getPublicFromWallet } from '../wallet';
 
 // Initialize router
@@ -63,6 +94,147 @@ router.get('/blocks/:hash', (req: Request, res: Response) => {
 	res.status(200).json(block);
 });
 
+/**
+ * @swagger
+ * /blockchain/headers:
+ *   get:
+ *     summary: Get the block headers, synced from peers in light client mode
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/headers', (req: Request, res: Response) => {
+	res.status(200).json(getHeaders());
+});
+
+/**
+ * @swagger
+ * /blockchain/verified-transactions:
+ *   get:
+ *     summary: Get the wallet transactions and balance verified through Merkle proofs in light client mode
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.get('/verified-transactions', (req: Request, res: Response) => {
+	if (!isLightClient()) {
+		res.status(400).json({ error: 'The node is not running as a light client' });
+		return;
+	}
+
+	res.status(200).json({
+		balance: getVerifiedBalance(),
+		transactions: getVerifiedTransactions(),
+	});
+});
+
+/**
+ * @swagger
+ * /blockchain/sync:
+ *   get:
+ *     summary: Get the progress of the block download from peers
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/sync', (req: Request, res: Response) => {
+	res.status(200).json(getSyncStatus());
+});
+
+/**
+ * @swagger
+ * /blockchain/network-time:
+ *   get:
+ *     summary: Get the local time and the network-adjusted time from the peer clocks
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/network-time', (req: Request, res: Response) => {
+	res.status(200).json(getNetworkTimeStatus());
+});
+
+/**
+ * @swagger
+ * /blockchain/chain-params:
+ *   get:
+ *     summary: Get the parameters of the network the node runs on
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/chain-params', (req: Request, res: Response) => {
+	const { genesisBlock, ...chainParams } = getChainParams();
+
+	res.status(200).json({ ...chainParams, genesisHash: genesisBlock.hash });
+});
+
+/**
+ * @swagger
+ * /blockchain/supply:
+ *   get:
+ *     summary: Get the circulating and scheduled supply, the current block reward and the height of the next halving
+ *     description: The circulating supply is the total of the unspent transaction outputs, null on light clients. The scheduled supply is what the emission schedule issues up to the tip, an upper bound of the circulating supply as coinbase transactions may claim less than the block reward and fees.
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/supply', (req: Request, res: Response) => {
+	// Light clients follow the tip through their header chain
+	const height = isLightClient() ? getLastHeader().index : getBlockchain().length - 1;
+
+	res.status(200).json(
+		getSupplyInfo({
+			height,
+			circulatingSupply: isLightClient() ? null : getCirculatingSupply(),
+		})
+	);
+});
+
+/**
+ * @swagger
+ * /blockchain/tips:
+ *   get:
+ *     summary: Get the tips of all known branches and their status (active, valid-fork or invalid)
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/tips', (req: Request, res: Response) => {
+	res.status(200).json(getBlockTips());
+});
+
+/**
+ * @swagger
+ * /blockchain/orphan-blocks:
+ *   get:
+ *     summary: Get the blocks waiting for their parent block
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/orphan-blocks', (req: Request, res: Response) => {
+	res.status(200).json(getOrphanBlocks());
+});
+
 /**
  * @swagger
  * /blockchain/transactions/{id}:
@@ -92,6 +264,40 @@ router.get('/transaction/:id', (req: Request, res: Response) => {
 	res.status(200).json(transaction);
 });
 
+/**
+ * @swagger
+ * /blockchain/transaction/{id}/proof:
+ *   get:
+ *     summary: Get a Merkle proof that a transaction is included in a block
+ *     tags: [Blockchain]
+ *     parameters: [
+ *      {
+ *          name: 'id',
+ *          in: 'path',
+ *          description: 'Transaction ID'
+ *      },
+ *     ]
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ *       '404':
+ *         description: Not Found.
+ */
+router.get('/transaction/:id/proof', (req: Request, res: Response) => {
+	const { id } = req.params;
+
+	const proof = getTransactionProof({ id });
+
+	if (!proof) {
+		res.status(404).json({
+			error: `Transaction ${id} is not in a block with a Merkle root on the active chain`,
+		});
+		return;
+	}
+
+	res.status(200).json(proof);
+});
+
 /**
  * @swagger
  * /blockchain/address:
@@ -128,7 +334,7 @@ router.get('/address', (req: Request, res: Response) => {
 router.get('/address/:address', (req: Request, res: Response) => {
 	const { address } = req.params;
 
-	const unspentTxOuts = getUnspentTxOuts().filter((uTxO) => uTxO.address === address);
+	const unspentTxOuts = getUnspentTxOutsByAddress({ address });
 
 	res.status(200).json({ unspentTxOuts });
 });
@@ -168,6 +374,7 @@ router.get('/my-unspent-transaction-outputs', (req: Request, res: Response) => {
  * /blockchain/balance:
  *   get:
  *     summary: Get owner's coin balance
+ *     description: Returns the spendable balance, and apart from it the immature balance, the amount of the coinbase outputs that may not be spent until they are deep enough.
  *     tags: [Blockchain]
  *     parameters: []
  *     responses:
@@ -175,7 +382,7 @@ router.get('/my-unspent-transaction-outputs', (req: Request, res: Response) => {
  *         description: Success response.
  */
 router.get('/balance', (req: Request, res: Response) => {
-	res.status(200).json({ balance: accountBalance() });
+	res.status(200).json(accountBalance());
 });
 
 /**
@@ -214,6 +421,36 @@ router.get('/transaction-pool', (req: Request, res: Response) => {
 	res.status(200).json(getTransactionPool());
 });
 
+/**
+ * @swagger
+ * /blockchain/transaction-pool/stats:
+ *   get:
+ *     summary: Get the size of the transaction pool, its limits and a histogram of its fee rates
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/transaction-pool/stats', (req: Request, res: Response) => {
+	res.status(200).json(getTransactionPoolStats());
+});
+
+/**
+ * @swagger
+ * /blockchain/transaction-pool/entries:
+ *   get:
+ *     summary: Get the pooled transactions with their fee rate, age, expiry and rebroadcast count
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/transaction-pool/entries', (req: Request, res: Response) => {
+	res.status(200).json(getTransactionPoolEntries());
+});
+
 /**
  * @swagger
  * /blockchain/mine:
@@ -226,10 +463,13 @@ router.get('/transaction-pool', (req: Request, res: Response) => {
  *       '500':
  *         description: Internal server error.
  */
-router.post('/mine', (req: Request, res: Response) => {
-	const newBlock: Block = generateBlock();
+router.post('/mine', async (req: Request, res: Response) => {
+	const newBlock: Block | null = await generateBlock().catch(() => null);
 
-	if (!newBlock) res.status(500).json({ error: 'Failed to generate a new block' });
+	if (!newBlock) {
+		res.status(500).json({ error: 'Failed to generate a new block' });
+		return;
+	}
 
 	res.status(201).json(newBlock);
 });
@@ -259,14 +499,20 @@ router.post('/mine', (req: Request, res: Response) => {
  *       '500':
  *         description: Internal server error.
  */
-router.post('/mine-raw', (req: Request, res: Response) => {
+router.post('/mine-raw', async (req: Request, res: Response) => {
 	const { data } = req.body;
 
-	if (!data) res.status(400).json({ error: 'Data is required to mine a block' });
+	if (!data) {
+		res.status(400).json({ error: 'Data is required to mine a block' });
+		return;
+	}
 
-	const newBlock: Block = generateRawBlock({ transactions: data });
+	const newBlock: Block | null = await generateRawBlock({ transactions: data }).catch(() => null);
 
-	if (!newBlock) res.status(500).json({ error: 'Failed to generate a new block' });
+	if (!newBlock) {
+		res.status(500).json({ error: 'Failed to generate a new block' });
+		return;
+	}
 
 	res.status(201).json(newBlock);
 });
@@ -288,6 +534,15 @@ router.post('/mine-raw', (req: Request, res: Response) => {
  *                 type: string
  *               amount:
  *                 type: integer
+ *               fee:
+ *                 type: number
+ *                 description: Fee paid to the miner, 0 by default.
+ *               feeRate:
+ *                 type: number
+ *                 description: Fee paid per byte of the transaction, instead of a set fee.
+ *               replaceable:
+ *                 type: boolean
+ *                 description: Signal replace-by-fee, so the fee can be bumped later.
  *             required:
  *               - address
  *               - amount
@@ -299,15 +554,21 @@ router.post('/mine-raw', (req: Request, res: Response) => {
  *       '500':
  *         description: Internal server error.
  */
-router.post('/mine-transaction', (req: Request, res: Response) => {
+router.post('/mine-transaction', async (req: Request, res: Response) => {
 	const { address, amount } = req.body;
 
-	if (!address || !amount) res.status(400).json({ error: 'Address or amount are missing!' });
+	if (!address || !amount) {
+		res.status(400).json({ error: 'Address or amount are missing!' });
+		return;
+	}
 
 	try {
-		const response = generateBlockWithTransaction({ address, amount });
+		const response = await generateBlockWithTransaction({ address, amount });
 
-		if (!response) res.status(500).json({ error: 'Failed to generate a new block' });
+		if (!response) {
+			res.status(500).json({ error: 'Failed to generate a new block' });
+			return;
+		}
 
 		res.status(201).json(response);
 	} catch (error: Error | any) {
@@ -315,6 +576,174 @@ router.post('/mine-transaction', (req: Request, res: Response) => {
 	}
 });
 
+/**
+ * @swagger
+ * /blockchain/mining/status:
+ *   get:
+ *     summary: Get the mining status and hashrate
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/mining/status', (req: Request, res: Response) => {
+	res.status(200).json(getMiningStatus());
+});
+
+/**
+ * @swagger
+ * /blockchain/block-template:
+ *   get:
+ *     summary: Get a template of the next block for an external miner to find a proof for
+ *     tags: [Blockchain]
+ *     parameters: [
+ *      {
+ *          name: 'address',
+ *          in: 'query',
+ *          description: 'Address the block reward is paid to, the wallet address by default'
+ *      },
+ *     ]
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.get('/block-template', (req: Request, res: Response) => {
+	const { address = getPublicFromWallet() } = req.query;
+
+	if (isLightClient()) {
+		res.status(400).json({ error: 'Light clients cannot build blocks' });
+		return;
+	}
+
+	try {
+		res.status(200).json(getBlockTemplate({ address: address as string }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/submit-block:
+ *   post:
+ *     summary: Submit a block solved by an external miner
+ *     tags: [Blockchain]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: The block template along with the proof found and the resulting hash
+ *     responses:
+ *       '201':
+ *         description: Created.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/submit-block', (req: Request, res: Response) => {
+	if (isLightClient()) {
+		res.status(400).json({ error: 'Light clients cannot accept blocks' });
+		return;
+	}
+
+	try {
+		res.status(201).json(submitBlock({ block: req.body }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/miner/start:
+ *   post:
+ *     summary: Start mining blocks continuously from the transaction pool
+ *     tags: [Blockchain]
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               address:
+ *                 type: string
+ *                 description: Address the block rewards are paid to, the wallet address by default
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/miner/start', (req: Request, res: Response) => {
+	const { address = getPublicFromWallet() } = req.body ?? {};
+
+	if (isLightClient()) {
+		res.status(400).json({ error: 'Light clients cannot mine' });
+		return;
+	}
+
+	try {
+		res.status(200).json(startAutoMiner({ address }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/miner/stop:
+ *   post:
+ *     summary: Stop the continuous miner
+ *     tags: [Blockchain]
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/miner/stop', (req: Request, res: Response) => {
+	try {
+		res.status(200).json(stopAutoMiner());
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/miner/status:
+ *   get:
+ *     summary: Get the blocks found, current difficulty and block template of the continuous miner
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/miner/status', (req: Request, res: Response) => {
+	res.status(200).json(getAutoMinerStatus());
+});
+
+/**
+ * @swagger
+ * /blockchain/pool/status:
+ *   get:
+ *     summary: Get the workers, share contributions, blocks found and payouts of the mining pool
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/pool/status', (req: Request, res: Response) => {
+	res.status(200).json(getPoolStatus());
+});
+
 /**
  * @swagger
  * /blockchain/send-transaction:
@@ -344,12 +773,19 @@ router.post('/mine-transaction', (req: Request, res: Response) => {
  *         description: Internal server error.
  */
 router.post('/send-transaction', (req: Request, res: Response) => {
-	const { address, amount } = req.body;
+	const { address, amount, fee, feeRate, replaceable, spendUnconfirmed } = req.body;
 
 	if (!address || !amount) res.status(400).json({ error: 'Address or amount are missing!' });
 
 	try {
-		const response = sendTransaction({ address, amount });
+		const response = sendTransaction({
+			address,
+			amount,
+			fee,
+			feeRate,
+			replaceable,
+			spendUnconfirmed,
+		});
 
 		if (!response) res.status(500).json({ error: 'Failed send transaction.' });
 
@@ -359,6 +795,203 @@ router.post('/send-transaction', (req: Request, res: Response) => {
 	}
 });
 
+/**
+ * @swagger
+ * /blockchain/bump-fee:
+ *   post:
+ *     summary: Replace a pending wallet transaction signaling replace-by-fee with one paying a higher fee
+ *     tags: [Blockchain]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 description: ID of the pooled transaction to replace.
+ *               fee:
+ *                 type: number
+ *                 description: Fee of the replacement.
+ *               feeRate:
+ *                 type: number
+ *                 description: Fee paid per byte of the replacement, instead of a set fee.
+ *             required:
+ *               - id
+ *     responses:
+ *       '201':
+ *         description: Created.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/bump-fee', (req: Request, res: Response) => {
+	const { id, fee, feeRate } = req.body;
+
+	try {
+		res.status(201).json(bumpFee({ id, fee, feeRate }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/lock-funds:
+ *   post:
+ *     summary: Send coins from the wallet to an output locked with a condition
+ *     description: The condition is a signature, multisig, absoluteLock, relativeLock or hashLock condition, or an all or any combination of them. The output is sent to the address of the condition.
+ *     tags: [Blockchain]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               condition:
+ *                 type: object
+ *                 description: Condition locking the coins.
+ *               amount:
+ *                 type: number
+ *               fee:
+ *                 type: number
+ *               feeRate:
+ *                 type: number
+ *             required:
+ *               - condition
+ *               - amount
+ *     responses:
+ *       '201':
+ *         description: Created.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/lock-funds', (req: Request, res: Response) => {
+	const { condition, amount, fee, feeRate } = req.body;
+
+	try {
+		res.status(201).json(lockFunds({ condition, amount, fee, feeRate }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/spend-locked:
+ *   post:
+ *     summary: Create an unsigned transaction spending an output locked with a condition
+ *     tags: [Blockchain]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               txOutId:
+ *                 type: string
+ *               txOutIndex:
+ *                 type: integer
+ *               address:
+ *                 type: string
+ *                 description: Address paid the value of the output, less the fee.
+ *               fee:
+ *                 type: number
+ *             required:
+ *               - txOutId
+ *               - txOutIndex
+ *               - address
+ *     responses:
+ *       '201':
+ *         description: Created.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/spend-locked', (req: Request, res: Response) => {
+	const { txOutId, txOutIndex, address, fee } = req.body;
+
+	try {
+		res.status(201).json(createConditionSpend({ txOutId, txOutIndex, address, fee }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/sign-transaction:
+ *   post:
+ *     summary: Add the signature of the wallet, and a hash lock preimage, to the witnesses of a transaction
+ *     tags: [Blockchain]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               transaction:
+ *                 type: object
+ *               preimage:
+ *                 type: string
+ *                 description: Preimage of a hash lock, in hex.
+ *               sighash:
+ *                 type: string
+ *                 enum: [ALL, NONE, SINGLE, ALL|ANYONECANPAY, NONE|ANYONECANPAY, SINGLE|ANYONECANPAY]
+ *                 description: Parts of the transaction the signature commits to, ALL by default.
+ *             required:
+ *               - transaction
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/sign-transaction', (req: Request, res: Response) => {
+	const { transaction, preimage, sighash } = req.body;
+
+	try {
+		res.status(200).json(signTransaction({ transaction, preimage, sighash }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
+/**
+ * @swagger
+ * /blockchain/submit-transaction:
+ *   post:
+ *     summary: Add a signed transaction to the transaction pool and broadcast it
+ *     tags: [Blockchain]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               transaction:
+ *                 type: object
+ *             required:
+ *               - transaction
+ *     responses:
+ *       '201':
+ *         description: Created.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/submit-transaction', (req: Request, res: Response) => {
+	const { transaction } = req.body;
+
+	try {
+		res.status(201).json(submitTransaction({ transaction }));
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
 /**
  * @swagger
  * /blockchain/add-peer:
@@ -399,6 +1032,41 @@ router.post('/add-peer', (req: Request, res: Response) => {
 	}
 });
 
+/**
+ * @swagger
+ * /blockchain/snapshots:
+ *   get:
+ *     summary: List the unspent transaction output snapshots
+ *     tags: [Blockchain]
+ *     parameters: []
+ *     responses:
+ *       '200':
+ *         description: Success response.
+ */
+router.get('/snapshots', (req: Request, res: Response) => {
+	res.status(200).json(getSnapshots());
+});
+
+/**
+ * @swagger
+ * /blockchain/snapshots:
+ *   post:
+ *     summary: Force a snapshot of the unspent transaction outputs at the current tip
+ *     tags: [Blockchain]
+ *     responses:
+ *       '201':
+ *         description: Created.
+ *       '400':
+ *         description: Bad Request.
+ */
+router.post('/snapshots', (req: Request, res: Response) => {
+	try {
+		res.status(201).json(createSnapshot());
+	} catch (error) {
+		res.status(400).json({ message: (error as Error).message });
+	}
+});
+
 /**
  * @swagger
  * /blockchain/stop:
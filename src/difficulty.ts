@@ -0,0 +1,210 @@
+import { BlockHeader } from './block';
+import { ChainParams } from './chainParams';
+
+const LWMA_WINDOW = 45; // Number of last solve times the moving average weighs
+
+const LWMA_MAX_SOLVE_TIME = 6; // Longest solve time counted, in expected block times
+
+const DIFFICULTY_PRECISION = 1e6; // Fractional difficulties are rounded to this many steps per bit
+
+// Fields of a block header the difficulty policies depend on
+type DifficultyHeader = Pick<BlockHeader, 'index' | 'timestamp' | 'difficulty'>;
+
+interface DifficultyPolicy {
+	/**
+	 * Name of the policy, as selected in the node configuration.
+	 */
+	readonly name: string;
+
+	/**
+	 * Number of last headers, up to the tip, the next difficulty depends on. Passing fewer
+	 * headers than this, unless they start at the genesis block, gives a different difficulty.
+	 */
+	readonly span: number;
+
+	/**
+	 * Computes the difficulty of the block following the last of the given headers, which run
+	 * from the genesis block, or at least `span` headers back, to the tip.
+	 */
+	getNextDifficulty(headers: DifficultyHeader[]): number;
+}
+
+/**
+ * Retargets every set number of blocks by a whole bit, the original algorithm of the chain.
+ *
+ * When the last interval of blocks took less than half the expected time the difficulty goes
+ * up by 1, when it took more than twice the expected time it goes down by 1, never below 0.
+ */
+class IntervalDifficultyPolicy implements DifficultyPolicy {
+	readonly name = 'interval';
+	private readonly blockTime: number;
+	private readonly interval: number;
+
+	/**
+	 * Creates an interval difficulty policy.
+	 *
+	 * @param blockTime Expected time between two blocks, in seconds.
+	 * @param interval Number of blocks between two retargets.
+	 */
+	constructor({ blockTime, interval }: { blockTime: number; interval: number }) {
+		this.blockTime = blockTime;
+		this.interval = interval;
+	}
+
+	get span(): number {
+		return this.interval;
+	}
+
+	getNextDifficulty(headers: DifficultyHeader[]): number {
+		const lastBlock = headers[headers.length - 1];
+
+		// Only retarget on every interval, never on the genesis block
+		if (lastBlock.index % this.interval !== 0 || lastBlock.index === 0)
+			return lastBlock.difficulty;
+
+		// The last block to adjust the difficulty
+		const lastAdjustmentBlock = headers[Math.max(0, headers.length - this.interval)];
+
+		// Time expected to mine the interval
+		const timeExpected = this.blockTime * this.interval;
+
+		// Time taken to mine the interval
+		const timeTaken = lastBlock.timestamp / 1000 - lastAdjustmentBlock.timestamp / 1000;
+
+		// If the time taken is less than half the expected time, increase the difficulty
+		if (timeTaken < timeExpected / 2) return lastAdjustmentBlock.difficulty + 1;
+
+		// If the time taken is more than twice the expected time, decrease the difficulty
+		if (timeTaken > timeExpected * 2) return Math.max(0, lastAdjustmentBlock.difficulty - 1);
+
+		return lastAdjustmentBlock.difficulty;
+	}
+}
+
+/**
+ * Retargets on every block with a linearly weighted moving average (LWMA) of the last solve
+ * times, the most recent ones weighing the most.
+ *
+ * The next work is the average work of the window scaled by the expected over the weighted
+ * solve time, and the difficulty is its base 2 logarithm, so it is usually fractional. Solve
+ * times are clamped between 1 ms and 6 expected block times so a single odd timestamp cannot
+ * swing it, and the difficulty moves by at most 1 bit per block, never below 0.
+ */
+class LwmaDifficultyPolicy implements DifficultyPolicy {
+	readonly name = 'lwma';
+	private readonly blockTime: number;
+	private readonly window: number;
+
+	/**
+	 * Creates an LWMA difficulty policy.
+	 *
+	 * @param blockTime Expected time between two blocks, in seconds.
+	 * @param window Number of last solve times averaged.
+	 */
+	constructor({ blockTime, window = LWMA_WINDOW }: { blockTime: number; window?: number }) {
+		this.blockTime = blockTime;
+		this.window = window;
+	}
+
+	get span(): number {
+		return this.window + 1;
+	}
+
+	getNextDifficulty(headers: DifficultyHeader[]): number {
+		const lastBlock = headers[headers.length - 1];
+
+		// The solve times of the window, the genesis block has none
+		const blocks = headers.slice(-(this.window + 1));
+		if (blocks.length < 2) return lastBlock.difficulty;
+
+		let weightedSolveTime = 0;
+		let totalWork = 0;
+		let totalWeight = 0;
+
+		for (let i = 1; i < blocks.length; i++) {
+			const solveTime = Math.min(
+				Math.max((blocks[i].timestamp - blocks[i - 1].timestamp) / 1000, 0.001),
+				LWMA_MAX_SOLVE_TIME * this.blockTime
+			);
+
+			weightedSolveTime += i * solveTime;
+			totalWork += 2 ** blocks[i].difficulty;
+			totalWeight += i;
+		}
+
+		const averageWork = totalWork / (blocks.length - 1);
+		const nextWork = (averageWork * this.blockTime * totalWeight) / weightedSolveTime;
+
+		const difficulty = Math.min(
+			Math.max(Math.log2(nextWork), lastBlock.difficulty - 1, 0),
+			lastBlock.difficulty + 1
+		);
+
+		return Math.round(difficulty * DIFFICULTY_PRECISION) / DIFFICULTY_PRECISION;
+	}
+}
+
+/**
+ * Keeps every block at the same difficulty, so blocks are mined as fast as the difficulty
+ * allows. Meant for local test networks.
+ */
+class FixedDifficultyPolicy implements DifficultyPolicy {
+	readonly name = 'fixed';
+	readonly span = 1;
+	private readonly difficulty: number;
+
+	/**
+	 * Creates a fixed difficulty policy.
+	 *
+	 * @param difficulty The difficulty of every block.
+	 */
+	constructor({ difficulty }: { difficulty: number }) {
+		this.difficulty = difficulty;
+	}
+
+	getNextDifficulty(): number {
+		return this.difficulty;
+	}
+}
+
+/**
+ * Creates the difficulty policy selected by the node configuration.
+ *
+ * @param type The type of policy, either 'interval', 'lwma' or 'fixed'.
+ * @param chainParams The parameters of the network, giving the expected block time, the
+ * retarget interval and the difficulty of the genesis block kept by the fixed policy.
+ *
+ * @returns The difficulty policy.
+ */
+const createDifficultyPolicy = ({
+	type,
+	chainParams,
+}: {
+	type: string;
+	chainParams: ChainParams;
+}): DifficultyPolicy => {
+	const blockTime = chainParams.blockGenerationInterval;
+
+	switch (type) {
+		case 'interval':
+			return new IntervalDifficultyPolicy({
+				blockTime,
+				interval: chainParams.difficultyAdjustmentInterval,
+			});
+		case 'lwma':
+			return new LwmaDifficultyPolicy({ blockTime });
+		case 'fixed':
+			return new FixedDifficultyPolicy({ difficulty: chainParams.genesisBlock.difficulty });
+		default:
+			throw new Error(`Unknown difficulty policy: ${type}`);
+	}
+};
+
+export {
+	DifficultyHeader,
+	DifficultyPolicy,
+	IntervalDifficultyPolicy,
+	LwmaDifficultyPolicy,
+	FixedDifficultyPolicy,
+	createDifficultyPolicy,
+};
@@ -0,0 +1,123 @@
+import { getChainParams } from './chainParams';
+
+const MAX_HALVINGS = 64; // Past this many halvings the reward is 0, whatever the initial reward
+
+interface SupplyInfo {
+	height: number; // Index of the tip
+	circulatingSupply: number | null; // Coins held by the unspent transaction outputs at the tip, null on light clients
+	scheduledSupply: number; // Coins the emission schedule issues from the genesis block to the tip
+	currentReward: number; // Block reward of the next block
+	nextHalvingHeight: number | null; // Index of the next block with a lower reward, null if the reward no longer drops
+	maxSupply: number | null; // Coins issued once the reward reaches 0, null if coins are issued forever
+}
+
+/**
+ * Computes the block reward paid by the coinbase transaction of a block.
+ *
+ * The reward starts at the initial block reward of the network and halves, rounded down,
+ * every `halvingInterval` blocks. It never drops below the tail emission.
+ *
+ * @param blockIndex The index of the block.
+ *
+ * @returns The block reward.
+ */
+const getBlockReward = ({ blockIndex }: { blockIndex: number }): number => {
+	const { initialBlockReward, halvingInterval, tailEmission } = getChainParams();
+
+	const halvings = halvingInterval > 0 ? Math.floor(blockIndex / halvingInterval) : 0;
+	const reward = halvings >= MAX_HALVINGS ? 0 : Math.floor(initialBlockReward / 2 ** halvings);
+
+	return Math.max(reward, tailEmission);
+};
+
+/**
+ * Computes the coins the emission schedule issues from the genesis block to a block, both
+ * included. The rewards are summed one halving era at a time.
+ *
+ * This is an upper bound of the coins in existence, not a count of them: a coinbase transaction
+ * may claim less than the block reward and fees, and the unclaimed coins are never issued.
+ *
+ * @param height The index of the last block.
+ *
+ * @returns The scheduled coins.
+ */
+const getScheduledSupply = ({ height }: { height: number }): number => {
+	const { halvingInterval } = getChainParams();
+
+	let supply = 0;
+
+	for (let start = 0; start <= height; ) {
+		const end =
+			halvingInterval > 0
+				? Math.min(height, start - (start % halvingInterval) + halvingInterval - 1)
+				: height;
+
+		supply += (end - start + 1) * getBlockReward({ blockIndex: start });
+		start = end + 1;
+	}
+
+	return supply;
+};
+
+/**
+ * Finds the next block paying a lower reward than a given block.
+ *
+ * @param blockIndex The index of the block.
+ *
+ * @returns The index of the next block with a lower reward, or null if the reward no longer
+ * drops.
+ */
+const getNextHalvingHeight = ({ blockIndex }: { blockIndex: number }): number | null => {
+	const { halvingInterval } = getChainParams();
+
+	if (halvingInterval <= 0) return null;
+
+	const height = (Math.floor(blockIndex / halvingInterval) + 1) * halvingInterval;
+
+	return getBlockReward({ blockIndex: height }) < getBlockReward({ blockIndex }) ? height : null;
+};
+
+/**
+ * Computes the coins issued once the reward reaches 0.
+ *
+ * @returns The maximum supply, or null if the reward never reaches 0.
+ */
+const getMaxSupply = (): number | null => {
+	const { initialBlockReward, halvingInterval, tailEmission } = getChainParams();
+
+	if (tailEmission > 0 || (halvingInterval <= 0 && initialBlockReward > 0)) return null;
+
+	let halvings = 0;
+	while (halvings < MAX_HALVINGS && Math.floor(initialBlockReward / 2 ** halvings) > 0)
+		halvings++;
+
+	return getScheduledSupply({ height: halvings * halvingInterval - 1 });
+};
+
+/**
+ * Reports the supply of a chain and its emission schedule.
+ *
+ * @param height The index of the tip.
+ * @param circulatingSupply The total amount of the unspent transaction outputs at the tip, the
+ * coins actually in existence, or null if unknown.
+ *
+ * @returns The supply information.
+ */
+const getSupplyInfo = ({
+	height,
+	circulatingSupply,
+}: {
+	height: number;
+	circulatingSupply: number | null;
+}): SupplyInfo => {
+	return {
+		height,
+		circulatingSupply,
+		scheduledSupply: getScheduledSupply({ height }),
+		currentReward: getBlockReward({ blockIndex: height + 1 }),
+		nextHalvingHeight: getNextHalvingHeight({ blockIndex: height + 1 }),
+		maxSupply: getMaxSupply(),
+	};
+};
+
+export { SupplyInfo, getBlockReward, getScheduledSupply, getSupplyInfo };
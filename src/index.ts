@@ -1,13 +1,44 @@
 import cors from 'cors';
+import { cpus } from 'os';
+import { join } from 'path';
 import express from 'express';
 import { initP2PServer } from './p2p';
-import { initWallet } from './wallet';
+import { getPublicFromWallet, initWallet } from './wallet';
+import { initBlockchain } from './blockchain';
+import { initTransactionPool } from './transactionPool';
+import { startTransactionPoolMaintenance } from './transactionPoolMaintenance';
+import { initLightClient } from './lightClient';
+import { initMiner } from './miner';
+import { startAutoMiner } from './autoMiner';
+import { initPoolServer } from './pool';
+import { createBlockStore } from './blockStore';
+import { createDifficultyPolicy } from './difficulty';
+import { selectChainParams } from './chainParams';
+import { SnapshotStore } from './snapshotStore';
 import BlockchainController from './containers/blockchain.container';
 import { specs, swaggerUI } from './swagger/swagger';
 
+// Select the network first, its parameters set the defaults below and the consensus rules
+const NETWORK = process.env.NETWORK || 'mainnet'; // 'mainnet', 'testnet' or 'regtest'
+const chainParams = selectChainParams({ network: NETWORK });
+
 // Set default ports or use environment variables
-const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3000', 10);
-const P2P_PORT = parseInt(process.env.P2P_PORT || '5000', 10);
+const HTTP_PORT = parseInt(process.env.HTTP_PORT || `${chainParams.httpPort}`, 10);
+const P2P_PORT = parseInt(process.env.P2P_PORT || `${chainParams.p2pPort}`, 10);
+const BLOCK_STORE = process.env.BLOCK_STORE || 'file'; // 'file' or 'memory'
+const DATA_DIR = process.env.DATA_DIR || chainParams.dataDir;
+const SNAPSHOT_INTERVAL = parseInt(process.env.SNAPSHOT_INTERVAL || '100', 10); // 0 disables snapshots
+const DIFFICULTY_POLICY = process.env.DIFFICULTY_POLICY || chainParams.difficultyPolicy; // 'interval', 'lwma' or 'fixed'
+const LIGHT_CLIENT = process.env.LIGHT_CLIENT === 'true'; // Only sync block headers
+const MINING_THREADS = parseInt(process.env.MINING_THREADS || `${cpus().length}`, 10);
+const AUTO_MINE = process.env.AUTO_MINE === 'true'; // Mine blocks continuously from startup
+const MINER_ADDRESS = process.env.MINER_ADDRESS; // Address block rewards are paid to, the wallet by default
+const POOL_PORT = parseInt(process.env.POOL_PORT || '0', 10); // 0 disables the mining pool
+const POOL_SHARE_DIFFICULTY = parseInt(process.env.POOL_SHARE_DIFFICULTY || '8', 10);
+const MEMPOOL_MAX_SIZE = parseInt(process.env.MEMPOOL_MAX_SIZE || '5000000', 10); // In bytes
+const MEMPOOL_MAX_COUNT = parseInt(process.env.MEMPOOL_MAX_COUNT || '10000', 10);
+const MEMPOOL_EXPIRY = parseInt(process.env.MEMPOOL_EXPIRY || '1209600', 10); // In seconds, 14 days by default
+const REBROADCAST_INTERVAL = parseInt(process.env.REBROADCAST_INTERVAL || '600', 10); // In seconds
 
 /**
  * Initializes an HTTP server that listens on a given port.
@@ -45,7 +76,44 @@ const initHttpServer = (httpPort: number) => {
 	});
 };
 
+// Limit the transaction pool before any transaction reaches it
+initTransactionPool({
+	maxSize: MEMPOOL_MAX_SIZE,
+	maxCount: MEMPOOL_MAX_COUNT,
+	expiry: MEMPOOL_EXPIRY * 1000,
+});
+
+// Light clients keep no blocks, otherwise load the persisted blockchain
+if (LIGHT_CLIENT) {
+	initLightClient({
+		difficulty: createDifficultyPolicy({ type: DIFFICULTY_POLICY, chainParams }),
+	});
+} else {
+	initBlockchain({
+		store: createBlockStore({ type: BLOCK_STORE, dataDir: DATA_DIR }),
+		snapshots:
+			BLOCK_STORE === 'file'
+				? new SnapshotStore({ directory: join(DATA_DIR, 'snapshots') })
+				: undefined,
+		interval: SNAPSHOT_INTERVAL,
+		difficulty: createDifficultyPolicy({ type: DIFFICULTY_POLICY, chainParams }),
+	});
+}
+
+// Split mining across worker threads
+initMiner({ threads: MINING_THREADS });
+
 // Initialize servers
 initHttpServer(HTTP_PORT);
 initP2PServer(P2P_PORT);
 initWallet();
+
+// Expire pooled transactions and rebroadcast the pending wallet ones, full nodes only
+if (!LIGHT_CLIENT) startTransactionPoolMaintenance({ interval: REBROADCAST_INTERVAL * 1000 });
+
+// Start the continuous miner, full nodes only
+if (AUTO_MINE && !LIGHT_CLIENT) startAutoMiner({ address: MINER_ADDRESS || getPublicFromWallet() });
+
+// Serve pool workers, full nodes only
+if (POOL_PORT && !LIGHT_CLIENT)
+	initPoolServer({ port: POOL_PORT, difficulty: POOL_SHARE_DIFFICULTY, dataDir: DATA_DIR });
@@ -0,0 +1,283 @@
+import { BlockHeader } from './block';
+import {
+	getAccumulatedDifficulty,
+	getBlockchain,
+	getBlockHeader,
+	getExpectedDifficulty,
+	getPreviousTimestamps,
+	initDifficultyPolicy,
+	validateHeaderStructure,
+	validateNewHeader,
+} from './blockchain';
+import { getChainParams } from './chainParams';
+import { DifficultyPolicy } from './difficulty';
+import { MerkleProof, verifyMerkleBranch } from './merkle';
+import { getTransactionId, Transaction } from './transaction';
+import { getOutpointKey } from './unspentTxOutSet';
+import { getPublicFromWallet } from './wallet';
+
+interface TransactionProof {
+	transaction: Transaction; // Transaction proven to be in a block
+	proof: MerkleProof; // Merkle proof linking the transaction to the block header
+}
+
+interface VerifiedTransaction extends TransactionProof {
+	confirmations: number; // Number of headers from the block holding the transaction to the tip
+}
+
+// Whether the node runs as a light client
+let enabled = false;
+
+// Header chain synced by the light client, from the genesis block to the best known tip
+let headers: BlockHeader[] = [];
+
+// Wallet transactions proven to be in a block, keyed by transaction ID
+const verifiedTransactions: Map<string, TransactionProof> = new Map();
+
+/**
+ * Turns the node into a light client.
+ *
+ * A light client only syncs and validates block headers. It keeps no blocks and no unspent
+ * transaction outputs, and tracks the wallet transactions through Merkle proofs requested
+ * from full peers.
+ *
+ * @param difficulty The policy computing the difficulty headers must carry, the default one of
+ * the network if not given.
+ */
+const initLightClient = ({ difficulty }: { difficulty?: DifficultyPolicy } = {}) => {
+	initDifficultyPolicy({ difficulty });
+	enabled = true;
+	headers = [getBlockHeader({ block: getChainParams().genesisBlock })];
+	verifiedTransactions.clear();
+};
+
+/**
+ * Checks whether the node runs as a light client.
+ *
+ * @returns Whether the node is a light client.
+ */
+const isLightClient = (): boolean => {
+	return enabled;
+};
+
+/**
+ * Retrieves the block headers held by the node: the synced header chain of a light client, or
+ * the headers of the active chain of a full node.
+ *
+ * @param fromIndex The index of the first header to retrieve.
+ *
+ * @returns The block headers.
+ */
+const getHeaders = ({ fromIndex = 0 }: { fromIndex?: number } = {}): BlockHeader[] => {
+	if (enabled) return headers.slice(fromIndex);
+
+	return getBlockchain()
+		.slice(fromIndex)
+		.map((block) => getBlockHeader({ block }));
+};
+
+/**
+ * Retrieves the last header of the header chain.
+ *
+ * @returns The last block header.
+ */
+const getLastHeader = (): BlockHeader => {
+	return headers[headers.length - 1];
+};
+
+/**
+ * Adds block headers received from a peer to the header chain.
+ *
+ * Headers already known are skipped. The remaining headers must extend a known header and be
+ * valid one after the other, each carrying the difficulty the policy expects from the headers
+ * before it. The header chain switches to them when it ends up with more accumulated
+ * difficulty. Headers not extending a known header are reported as not connected,
+ * so the caller can request headers from further back.
+ *
+ * @param receivedHeaders The received headers, in chain order.
+ *
+ * @returns Whether the header chain changed, and whether the headers extended a known header.
+ */
+const receiveHeaders = ({
+	receivedHeaders,
+}: {
+	receivedHeaders: BlockHeader[];
+}): { updated: boolean; connected: boolean } => {
+	if (!receivedHeaders.every((header) => validateHeaderStructure({ header }))) {
+		console.error('\nInvalid block header structure received');
+		return { updated: false, connected: true };
+	}
+
+	// Skip the headers already in the header chain
+	let start = 0;
+	while (
+		start < receivedHeaders.length &&
+		headers[receivedHeaders[start].index]?.hash === receivedHeaders[start].hash
+	)
+		start++;
+
+	const newHeaders = receivedHeaders.slice(start);
+	if (newHeaders.length === 0) return { updated: false, connected: true };
+
+	const previousHeader = headers[newHeaders[0].index - 1];
+
+	if (!previousHeader || previousHeader.hash !== newHeaders[0].previousHash)
+		return { updated: false, connected: false };
+
+	const candidate = headers.slice(0, previousHeader.index + 1).concat(newHeaders);
+
+	// Validate every new header against the headers before it
+	for (let height = previousHeader.index + 1; height < candidate.length; height++) {
+		if (
+			!validateNewHeader({
+				newHeader: candidate[height],
+				previousHeader: candidate[height - 1],
+				previousTimestamps: getPreviousTimestamps({ chain: candidate, height }),
+				expectedDifficulty: getExpectedDifficulty({ chain: candidate, height }),
+			})
+		)
+			return { updated: false, connected: true };
+	}
+
+	if (getAccumulatedDifficulty(candidate) <= getAccumulatedDifficulty(headers))
+		return { updated: false, connected: true };
+
+	if (previousHeader.index < getLastHeader().index) {
+		console.log(
+			`\nHeader chain reorganization at height ${previousHeader.index + 1}: ` +
+				`${getLastHeader().hash} -> ${candidate[candidate.length - 1].hash}`
+		);
+	}
+
+	headers = candidate;
+
+	return { updated: true, connected: true };
+};
+
+/**
+ * Verifies a transaction proof against the header chain.
+ *
+ * The proof must point to a header of the header chain with the same hash and Merkle root, the
+ * transaction ID must match the transaction content, and the Merkle branch must link the
+ * transaction ID to the Merkle root.
+ *
+ * @param transaction The transaction proven to be in a block.
+ * @param proof The Merkle proof of the transaction.
+ *
+ * @returns Whether the proof is valid.
+ */
+const verifyTransactionProof = ({ transaction, proof }: TransactionProof): boolean => {
+	const header = headers[proof.blockIndex];
+
+	return (
+		header !== undefined &&
+		header.hash === proof.blockHash &&
+		header.merkleRoot !== undefined &&
+		header.merkleRoot === proof.merkleRoot &&
+		Array.isArray(transaction.txIns) &&
+		Array.isArray(transaction.txOuts) &&
+		transaction.id === proof.txId &&
+		getTransactionId({ transaction, blockVersion: header.version }) === transaction.id &&
+		Array.isArray(proof.branch) &&
+		verifyMerkleBranch({
+			txId: proof.txId,
+			branch: proof.branch,
+			merkleRoot: header.merkleRoot,
+		})
+	);
+};
+
+/**
+ * Adds wallet transactions proven by a peer to be in a block of the header chain.
+ *
+ * @param proofs The transactions along with their Merkle proofs.
+ *
+ * @returns The number of transactions newly verified.
+ */
+const receiveTransactionProofs = ({ proofs }: { proofs: TransactionProof[] }): number => {
+	let verified = 0;
+
+	for (const { transaction, proof } of proofs) {
+		try {
+			if (!verifyTransactionProof({ transaction, proof })) {
+				console.error(`\nInvalid transaction proof: ${JSON.stringify(proof)}`);
+				continue;
+			}
+		} catch {
+			console.error(`\nMalformed transaction proof: ${JSON.stringify(proof)}`);
+			continue;
+		}
+
+		if (!verifiedTransactions.has(transaction.id)) verified++;
+		verifiedTransactions.set(transaction.id, { transaction, proof });
+	}
+
+	return verified;
+};
+
+/**
+ * Lists the wallet transactions proven to be in a block of the header chain.
+ *
+ * Transactions whose block left the header chain after a reorganization are left out.
+ * Transactions of the same block keep the order they were received in, as a Merkle branch
+ * does not prove the position of a transaction in its block.
+ *
+ * @returns The verified transactions, in chain order.
+ */
+const getVerifiedTransactions = (): VerifiedTransaction[] => {
+	const tip = getLastHeader().index;
+
+	return Array.from(verifiedTransactions.values())
+		.filter(({ proof }) => headers[proof.blockIndex]?.hash === proof.blockHash)
+		.sort((a, b) => a.proof.blockIndex - b.proof.blockIndex)
+		.map(({ transaction, proof }) => ({
+			transaction,
+			proof,
+			confirmations: tip - proof.blockIndex + 1,
+		}));
+};
+
+/**
+ * Calculates the wallet balance from the verified transactions.
+ *
+ * Outputs sent to the wallet count towards the balance unless a verified transaction spends
+ * them. A peer can withhold transactions but cannot make up ones that are not in a block, as
+ * every header hash covers its Merkle root and meets the difficulty the chain expects.
+ *
+ * @returns The balance of the wallet.
+ */
+const getVerifiedBalance = (): number => {
+	const address = getPublicFromWallet();
+	const transactions = getVerifiedTransactions().map(({ transaction }) => transaction);
+
+	const spent = new Set(
+		transactions.flatMap((transaction) => transaction.txIns.map((txIn) => getOutpointKey(txIn)))
+	);
+
+	return transactions
+		.flatMap((transaction) =>
+			transaction.txOuts.map((txOut, txOutIndex) => ({
+				txOut,
+				txOutId: transaction.id,
+				txOutIndex,
+			}))
+		)
+		.filter(
+			({ txOut, txOutId, txOutIndex }) =>
+				txOut.address === address && !spent.has(getOutpointKey({ txOutId, txOutIndex }))
+		)
+		.reduce((balance, { txOut }) => balance + txOut.amount, 0);
+};
+
+export {
+	TransactionProof,
+	VerifiedTransaction,
+	initLightClient,
+	isLightClient,
+	getHeaders,
+	getLastHeader,
+	receiveHeaders,
+	receiveTransactionProofs,
+	getVerifiedTransactions,
+	getVerifiedBalance,
+};
@@ -0,0 +1,136 @@
+import sha256 from 'crypto-js/sha256';
+
+type MerkleSide = 'left' | 'right';
+
+interface MerkleBranchNode {
+	hash: string; // Hash of the sibling node
+	side: MerkleSide; // Side the sibling node is on when hashed with the current node
+}
+
+interface MerkleProof {
+	txId: string; // ID of the transaction proven to be in the block
+	blockHash: string; // Hash of the block holding the transaction
+	blockIndex: number; // Index of the block holding the transaction
+	merkleRoot: string; // Merkle root committed to by the block header
+	branch: MerkleBranchNode[]; // Sibling hashes from the transaction up to the root
+}
+
+/**
+ * Hashes two sibling nodes into their parent node.
+ *
+ * @param left The hash of the left node.
+ * @param right The hash of the right node.
+ *
+ * @returns The hash of the parent node.
+ */
+const hashPair = (left: string, right: string): string => {
+	return sha256(`${left}${right}`).toString();
+};
+
+/**
+ * Builds the next level of a Merkle tree. A node without a sibling is carried up as is, so
+ * no transaction ID is ever hashed with itself.
+ *
+ * @param level The hashes of the current level.
+ *
+ * @returns The hashes of the level above.
+ */
+const getNextLevel = (level: string[]): string[] => {
+	const nextLevel: string[] = [];
+
+	for (let i = 0; i < level.length; i += 2) {
+		nextLevel.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+	}
+
+	return nextLevel;
+};
+
+/**
+ * Calculates the Merkle root of a list of transaction IDs.
+ *
+ * @param txIds The transaction IDs, in block order.
+ *
+ * @returns The Merkle root, or an empty string when there are no transactions.
+ */
+const getMerkleRoot = ({ txIds }: { txIds: string[] }): string => {
+	if (txIds.length === 0) return '';
+
+	let level = txIds;
+	while (level.length > 1) level = getNextLevel(level);
+
+	return level[0];
+};
+
+/**
+ * Builds the Merkle branch linking a transaction ID to the Merkle root.
+ *
+ * @param txIds The transaction IDs, in block order.
+ * @param position The position of the transaction to prove.
+ *
+ * @returns The sibling hashes from the transaction up to the root, or null if the position
+ * is out of range.
+ */
+const getMerkleBranch = ({
+	txIds,
+	position,
+}: {
+	txIds: string[];
+	position: number;
+}): MerkleBranchNode[] | null => {
+	if (!Number.isInteger(position) || position < 0 || position >= txIds.length) return null;
+
+	const branch: MerkleBranchNode[] = [];
+
+	let level = txIds;
+	let index = position;
+
+	while (level.length > 1) {
+		const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+
+		// A node without a sibling is carried up, so nothing is added to the branch
+		if (siblingIndex < level.length) {
+			branch.push({ hash: level[siblingIndex], side: index % 2 === 0 ? 'right' : 'left' });
+		}
+
+		level = getNextLevel(level);
+		index = Math.floor(index / 2);
+	}
+
+	return branch;
+};
+
+/**
+ * Verifies that a Merkle branch links a transaction ID to a Merkle root.
+ *
+ * @param txId The ID of the transaction.
+ * @param branch The sibling hashes from the transaction up to the root.
+ * @param merkleRoot The Merkle root to verify against.
+ *
+ * @returns Whether the transaction is included under the Merkle root.
+ */
+const verifyMerkleBranch = ({
+	txId,
+	branch,
+	merkleRoot,
+}: {
+	txId: string;
+	branch: MerkleBranchNode[];
+	merkleRoot: string;
+}): boolean => {
+	const root = branch.reduce(
+		(hash, node) =>
+			node.side === 'left' ? hashPair(node.hash, hash) : hashPair(hash, node.hash),
+		txId
+	);
+
+	return root === merkleRoot;
+};
+
+export {
+	MerkleSide,
+	MerkleBranchNode,
+	MerkleProof,
+	getMerkleRoot,
+	getMerkleBranch,
+	verifyMerkleBranch,
+};
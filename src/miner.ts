@@ -0,0 +1,319 @@
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import { extname, join } from 'path';
+import { Block } from './block';
+
+// Block data a proof is searched for
+type MiningJobData = Omit<Block, 'hash' | 'proof'>;
+
+// Requests sent by the miner to its workers
+type MinerRequest =
+	| { type: 'mine'; jobId: number; data: MiningJobData; startProof: number; step: number }
+	| { type: 'stop' };
+
+// Responses sent by the workers to the miner
+type WorkerResponse =
+	| { type: 'progress'; jobId: number; hashes: number }
+	| { type: 'found'; jobId: number; proof: number; hash: string; hashes: number };
+
+interface MiningJob {
+	id: number; // ID of the job, changed on every restart so stale results are ignored
+	signal?: AbortSignal; // Signal cancelling the job
+	data: MiningJobData; // Block data a proof is searched for
+	buildBlockData: () => MiningJobData; // Builds the block data on top of the current tip
+	resolve: (block: Block) => void; // Resolves the job with the mined block
+	reject: (error: Error) => void; // Rejects the job
+}
+
+interface MiningTemplate {
+	index: number; // Index of the block being mined
+	previousHash: string; // Hash of the tip the block is mined on
+	timestamp: number; // Timestamp of the block being mined
+	difficulty: number; // Difficulty of the block being mined
+	transactions: string[]; // IDs of the transactions of the block being mined
+}
+
+interface MiningStatus {
+	mining: boolean; // Whether a block is being mined
+	workers: number; // Number of mining workers
+	height: number | null; // Index of the block being mined
+	difficulty: number | null; // Difficulty of the block being mined
+	hashes: number; // Number of proofs tried for the block being mined, or the last one mined
+	hashrate: number; // Proofs tried per second for the block being mined, or the last one mined
+	restarts: number; // Number of times the block being mined was restarted on a new tip
+	queuedJobs: number; // Number of mining requests waiting for the current one to finish
+}
+
+// Number of mining workers, one per core by default
+let workerCount = Math.max(1, cpus().length);
+
+// Mining workers, started on the first mining job
+let workers: Worker[] = [];
+
+// Job being mined, null when idle
+let currentJob: MiningJob | null = null;
+let nextJobId = 0;
+
+// Mining jobs run one after the other, each on top of the block mined by the previous one
+let jobQueue: Promise<unknown> = Promise.resolve();
+let queuedJobs = 0;
+
+// Progress of the current job, or of the last one when idle
+let jobStartedAt = 0;
+let jobHashes = 0;
+let jobRestarts = 0;
+let hashrate = 0;
+
+/**
+ * Sets the number of mining workers. Running workers are replaced, and the block being mined,
+ * if any, is handed over to the new ones.
+ *
+ * @param threads The number of mining workers, at least one.
+ */
+const initMiner = ({ threads }: { threads: number }) => {
+	workerCount = Math.max(1, Math.floor(threads) || 1);
+
+	workers.forEach((worker) => worker.terminate());
+	workers = [];
+
+	dispatchJob();
+};
+
+/**
+ * Starts a mining worker. Under ts-node, the worker loads the TypeScript source through the
+ * ts-node register hook.
+ *
+ * @returns The worker.
+ */
+const startWorker = (): Worker => {
+	const extension = extname(__filename);
+
+	const worker = new Worker(join(__dirname, `miningWorker${extension}`), {
+		execArgv: extension === '.ts' ? ['--require', 'ts-node/register'] : undefined,
+	});
+
+	worker.on('message', handleWorkerResponse);
+
+	worker.on('error', (error) => {
+		console.error(`\nMining worker error: ${error.message}`);
+
+		workers = workers.filter((w) => w !== worker);
+		workers.forEach((w) => w.terminate());
+		workers = [];
+
+		failJob(error);
+	});
+
+	// Workers must not keep the process alive on their own
+	worker.unref();
+
+	return worker;
+};
+
+/**
+ * Sends the current job to every worker, each trying every n-th proof so the proof range is
+ * split between them without overlap.
+ */
+const dispatchJob = () => {
+	if (!currentJob) return;
+
+	if (workers.length === 0) workers = Array.from({ length: workerCount }, startWorker);
+
+	workers.forEach((worker, index) => {
+		const request: MinerRequest = {
+			type: 'mine',
+			jobId: currentJob!.id,
+			data: currentJob!.data,
+			startProof: index,
+			step: workers.length,
+		};
+
+		worker.postMessage(request);
+	});
+};
+
+/**
+ * Stops every worker mining the current job.
+ */
+const stopWorkers = () => {
+	const request: MinerRequest = { type: 'stop' };
+
+	workers.forEach((worker) => worker.postMessage(request));
+};
+
+/**
+ * Rejects the current job, if any.
+ *
+ * @param error The reason the job failed.
+ */
+const failJob = (error: Error) => {
+	if (!currentJob) return;
+
+	const job = currentJob;
+	currentJob = null;
+
+	job.reject(error);
+};
+
+/**
+ * Handles a message from a mining worker. Results of a replaced job are ignored.
+ *
+ * @param response The message from the worker.
+ */
+const handleWorkerResponse = (response: WorkerResponse) => {
+	if (!currentJob || response.jobId !== currentJob.id) return;
+
+	jobHashes += response.hashes;
+	hashrate = Math.round(jobHashes / Math.max((Date.now() - jobStartedAt) / 1000, 0.001));
+
+	if (response.type === 'progress') return;
+
+	const job = currentJob;
+	currentJob = null;
+
+	stopWorkers();
+
+	job.resolve(new Block({ ...job.data, hash: response.hash, proof: response.proof }));
+};
+
+/**
+ * Mines a block in the worker pool.
+ *
+ * Mining requests are queued and run one at a time. The block data is built when the job
+ * starts, and rebuilt whenever the tip changes while mining, so the mined block always
+ * extends the current tip.
+ *
+ * @param buildBlockData Builds the block data to mine on top of the current tip.
+ * @param signal Signal cancelling the job, whether it is queued or being mined.
+ *
+ * @returns The mined block.
+ */
+const mineBlock = ({
+	buildBlockData,
+	signal,
+}: {
+	buildBlockData: () => MiningJobData;
+	signal?: AbortSignal;
+}): Promise<Block> => {
+	queuedJobs++;
+
+	const job = jobQueue.then(
+		() =>
+			new Promise<Block>((resolve, reject) => {
+				queuedJobs--;
+
+				if (signal?.aborted) {
+					reject(new Error('Mining cancelled'));
+					return;
+				}
+
+				currentJob = {
+					id: nextJobId++,
+					signal,
+					data: buildBlockData(),
+					buildBlockData,
+					resolve,
+					reject,
+				};
+
+				signal?.addEventListener('abort', () => cancelJob({ signal }), { once: true });
+
+				jobStartedAt = Date.now();
+				jobHashes = 0;
+				jobRestarts = 0;
+				hashrate = 0;
+
+				dispatchJob();
+			})
+	);
+
+	// Keep the queue going whether the job succeeds or fails
+	jobQueue = job.catch(() => undefined);
+
+	return job;
+};
+
+/**
+ * Cancels the current job if it was started with the given signal.
+ *
+ * @param signal The signal the job was started with.
+ */
+const cancelJob = ({ signal }: { signal: AbortSignal }) => {
+	if (!currentJob || currentJob.signal !== signal) return;
+
+	stopWorkers();
+	failJob(new Error('Mining cancelled'));
+};
+
+/**
+ * Restarts the current job on top of a new tip, dropping the work done on the previous one.
+ *
+ * @param hash The hash of the new tip.
+ */
+const notifyNewTip = ({ hash }: { hash: string }) => {
+	if (!currentJob || currentJob.data.previousHash === hash) return;
+
+	try {
+		currentJob.data = currentJob.buildBlockData();
+	} catch (error) {
+		stopWorkers();
+		failJob(error as Error);
+		return;
+	}
+
+	currentJob.id = nextJobId++;
+	jobRestarts++;
+
+	console.log(`\nNew tip ${hash}, restarting mining at height ${currentJob.data.index}`);
+
+	dispatchJob();
+};
+
+/**
+ * Retrieves the template of the block being mined.
+ *
+ * @returns The template, or null when idle.
+ */
+const getMiningTemplate = (): MiningTemplate | null => {
+	if (!currentJob) return null;
+
+	const { index, previousHash, timestamp, difficulty, transactions } = currentJob.data;
+
+	return {
+		index,
+		previousHash,
+		timestamp,
+		difficulty,
+		transactions: transactions.map((transaction) => transaction.id),
+	};
+};
+
+/**
+ * Retrieves the state of the miner.
+ *
+ * @returns The mining status.
+ */
+const getMiningStatus = (): MiningStatus => {
+	return {
+		mining: currentJob !== null,
+		workers: workerCount,
+		height: currentJob ? currentJob.data.index : null,
+		difficulty: currentJob ? currentJob.data.difficulty : null,
+		hashes: jobHashes,
+		hashrate,
+		restarts: jobRestarts,
+		queuedJobs,
+	};
+};
+
+export {
+	MiningJobData,
+	MinerRequest,
+	MiningStatus,
+	MiningTemplate,
+	initMiner,
+	mineBlock,
+	notifyNewTip,
+	getMiningTemplate,
+	getMiningStatus,
+};
@@ -0,0 +1,65 @@
+import { parentPort } from 'worker_threads';
+import { checkHashDifficulty, generateHash } from './proofOfWork';
+import { MinerRequest, MiningJobData } from './miner';
+
+const CHUNK_SIZE = 2000; // Number of proofs tried before reporting progress and checking for new jobs
+
+// ID of the job being mined, null when idle
+let currentJobId: number | null = null;
+
+/**
+ * Tries the proofs of a job assigned to this worker until one meets the difficulty or the job
+ * is replaced.
+ *
+ * Proofs are tried in chunks, yielding between them so a stop or a new job sent by the miner
+ * is handled without waiting for the job to end.
+ *
+ * @param jobId The ID of the job.
+ * @param data The block data to find a proof for.
+ * @param startProof The first proof to try.
+ * @param step The gap between two proofs tried by this worker.
+ */
+const mine = ({
+	jobId,
+	data,
+	startProof,
+	step,
+}: {
+	jobId: number;
+	data: MiningJobData;
+	startProof: number;
+	step: number;
+}) => {
+	let proof = startProof;
+
+	const mineChunk = () => {
+		if (currentJobId !== jobId) return;
+
+		for (let i = 0; i < CHUNK_SIZE; i++) {
+			const hash = generateHash({ ...data, proof });
+
+			if (checkHashDifficulty(hash, data.difficulty)) {
+				currentJobId = null;
+				parentPort!.postMessage({ type: 'found', jobId, proof, hash, hashes: i + 1 });
+				return;
+			}
+
+			proof += step;
+		}
+
+		parentPort!.postMessage({ type: 'progress', jobId, hashes: CHUNK_SIZE });
+		setImmediate(mineChunk);
+	};
+
+	mineChunk();
+};
+
+parentPort!.on('message', (request: MinerRequest) => {
+	if (request.type === 'stop') {
+		currentJobId = null;
+		return;
+	}
+
+	currentJobId = request.jobId;
+	mine(request);
+});
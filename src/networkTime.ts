@@ -0,0 +1,144 @@
+import WebSocket from 'ws';
+
+const MAX_TIME_OFFSET = 15 * 1000; // Largest offset from the peer clocks the node adjusts to, in milliseconds, well below the allowed future drift of blocks
+
+const MIN_TIME_SAMPLES = 5; // Number of peer clocks sampled before the node adjusts to them
+
+const MIN_AGREEING_SAMPLES = 2 / 3; // Share of the clocks that must lie within MAX_TIME_OFFSET of the median for the node to adjust to it
+
+interface NetworkTimeStatus {
+	localTime: number; // Time of the local clock
+	adjustedTime: number; // Local time corrected by the median offset of the peer clocks
+	offset: number; // Offset applied to the local time, in milliseconds
+	samples: number; // Number of peers whose clock was sampled
+}
+
+interface TimeSample {
+	peer: WebSocket; // Connection the sample was taken from
+	offset: number; // Offset of the peer clock from the local clock, in milliseconds
+}
+
+// Peer clocks sampled from their handshake, one per remote address
+const timeSamples: Map<string, TimeSample> = new Map();
+
+/**
+ * Records the clock of a peer from the timestamp of its handshake. Only the first connection
+ * from an address is sampled, so a host opening many connections cannot outvote the others.
+ *
+ * @param peer The peer.
+ * @param address The remote address of the peer.
+ * @param timestamp The time of the peer clock when it sent the handshake.
+ */
+const addTimeSample = ({
+	peer,
+	address,
+	timestamp,
+}: {
+	peer: WebSocket;
+	address: string;
+	timestamp: number;
+}) => {
+	if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) return;
+
+	if (timeSamples.has(address)) return;
+
+	timeSamples.set(address, { peer, offset: timestamp - Date.now() });
+
+	if (timeSamples.size >= MIN_TIME_SAMPLES && Math.abs(getMedianOffset()) > MAX_TIME_OFFSET)
+		console.error(
+			`\nPeer clocks differ from the local clock by more than ${MAX_TIME_OFFSET / 1000} seconds, check the system clock`
+		);
+};
+
+/**
+ * Forgets the clock of a disconnected peer.
+ *
+ * @param peer The disconnected peer.
+ */
+const removeTimeSample = ({ peer }: { peer: WebSocket }) => {
+	timeSamples.forEach((sample, address) => {
+		if (sample.peer === peer) timeSamples.delete(address);
+	});
+};
+
+/**
+ * Retrieves the offsets of the peer clocks, the local clock counting as a sample with no
+ * offset.
+ *
+ * @returns The offsets, in milliseconds, sorted.
+ */
+const getOffsets = (): number[] => {
+	return [0, ...Array.from(timeSamples.values()).map((sample) => sample.offset)].sort(
+		(a, b) => a - b
+	);
+};
+
+/**
+ * Computes the median offset of the peer clocks, the local clock counting as a sample with no
+ * offset. With an even number of samples, the two middle offsets are averaged, so neither side
+ * of the median decides it on its own.
+ *
+ * @returns The median offset, in milliseconds.
+ */
+const getMedianOffset = (): number => {
+	const offsets = getOffsets();
+	const middle = Math.floor(offsets.length / 2);
+
+	if (offsets.length % 2 === 1) return offsets[middle];
+
+	return Math.round((offsets[middle - 1] + offsets[middle]) / 2);
+};
+
+/**
+ * Retrieves the offset applied to the local clock.
+ *
+ * The local clock is kept until at least `MIN_TIME_SAMPLES` peers were sampled, so a few peers
+ * cannot shift it. It is also kept when the median offset is larger than `MAX_TIME_OFFSET`, as
+ * the local clock is more likely right than most of the peers, and when the clocks disagree,
+ * fewer than `MIN_AGREEING_SAMPLES` of them lying within `MAX_TIME_OFFSET` of the median.
+ *
+ * @returns The offset, in milliseconds.
+ */
+const getTimeOffset = (): number => {
+	if (timeSamples.size < MIN_TIME_SAMPLES) return 0;
+
+	const offset = getMedianOffset();
+
+	if (Math.abs(offset) > MAX_TIME_OFFSET) return 0;
+
+	const offsets = getOffsets();
+	const agreeing = offsets.filter((sample) => Math.abs(sample - offset) <= MAX_TIME_OFFSET);
+
+	return agreeing.length < offsets.length * MIN_AGREEING_SAMPLES ? 0 : offset;
+};
+
+/**
+ * Retrieves the network-adjusted time: the local time corrected by the median offset of the
+ * peer clocks.
+ *
+ * @returns The adjusted time, in milliseconds since the epoch.
+ */
+const getAdjustedTime = (): number => {
+	return Date.now() + getTimeOffset();
+};
+
+/**
+ * Retrieves the local and network-adjusted times.
+ *
+ * @returns The network time status.
+ */
+const getNetworkTimeStatus = (): NetworkTimeStatus => {
+	const offset = getTimeOffset();
+	const localTime = Date.now();
+
+	return { localTime, adjustedTime: localTime + offset, offset, samples: timeSamples.size };
+};
+
+export {
+	NetworkTimeStatus,
+	addTimeSample,
+	removeTimeSample,
+	getTimeOffset,
+	getAdjustedTime,
+	getNetworkTimeStatus,
+};
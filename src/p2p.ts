@@ -1,24 +1,64 @@
 import WebSocket, { WebSocketServer } from 'ws';
-import { Block } from './block';
+import { Block, BlockHeader } from './block';
 import {
 	getLastBlock,
 	getBlockchain,
-	addBlock,
-	replaceChain,
+	getBlockHeader,
+	getBlockLocator,
+	getBlockHashesAfter,
+	getAddressTransactionProofs,
 	handleReceivedTransaction,
 	validateBlockStructure,
 } from './blockchain';
+import { getBlocks, receiveBlocks } from './blockTree';
+import {
+	BLOCK_BATCH_TIMEOUT,
+	MAX_BLOCK_HASHES,
+	MAX_BLOCKS_PER_BATCH,
+	addBlockHashes,
+	completeBlockBatch,
+	expireBlockBatch,
+	releasePeer,
+	takeBlockBatch,
+	takeContinuations,
+} from './blockSync';
+import {
+	TransactionProof,
+	getHeaders,
+	getLastHeader,
+	isLightClient,
+	receiveHeaders,
+	receiveTransactionProofs,
+} from './lightClient';
+import { getChainParams } from './chainParams';
+import { addTimeSample, removeTimeSample } from './networkTime';
+import { getPublicFromWallet } from './wallet';
 import { Transaction } from './transaction';
 import { getTransactionPool } from './transactionPool';
 
 const sockets: Set<WebSocket> = new Set();
 
+// Peers whose handshake showed they are on the same network
+const verifiedPeers: WeakSet<WebSocket> = new WeakSet();
+
+// Remote address of each connected peer, so its clock is sampled once per host
+const peerAddresses: Map<WebSocket, string> = new Map();
+
 enum MessageType {
 	QUERY_LATEST = 0,
 	QUERY_ALL = 1,
 	RESPONSE_BLOCKCHAIN = 2,
 	QUERY_TRANSACTION_POOL = 3,
 	RESPONSE_TRANSACTION_POOL = 4,
+	QUERY_HEADERS = 5,
+	RESPONSE_HEADERS = 6,
+	QUERY_TRANSACTION_PROOFS = 7,
+	RESPONSE_TRANSACTION_PROOFS = 8,
+	QUERY_BLOCK_HASHES = 9,
+	RESPONSE_BLOCK_HASHES = 10,
+	QUERY_BLOCKS = 11,
+	RESPONSE_BLOCKS = 12,
+	HANDSHAKE = 13,
 }
 
 interface Message {
@@ -35,9 +75,9 @@ interface Message {
 const initP2PServer = (p2pPort: number) => {
 	const server = new WebSocketServer({ port: p2pPort });
 
-	server.on('connection', (socket) => {
+	server.on('connection', (socket, request) => {
 		console.log(`\nNew peer connected`);
-		initConnection(socket);
+		initConnection(socket, request.socket.remoteAddress ?? '');
 	});
 
 	server.on('listening', () => {
@@ -62,16 +102,27 @@ const getSockets = (): WebSocket[] => {
  * Initializes a new connection.
  *
  * @param socket The WebSocket connection.
- * @param blockchain The blockchain instance.
+ * @param address The remote address of the peer.
  */
-const initConnection = (socket: WebSocket): void => {
+const initConnection = (socket: WebSocket, address: string): void => {
 	sockets.add(socket);
+	peerAddresses.set(socket, address);
 	console.log(`\nConnected peers: ${sockets.size}`);
 
 	socket.on('message', (data) => handleMessage(socket, data.toString()));
 	socket.on('close', () => closeConnection(socket));
 	socket.on('error', () => closeConnection(socket));
 
+	// Tell the peer which network this node is on, and share the local clock so peers can
+	// adjust their network time
+	sendMessage(socket, handshakeMsg());
+
+	// Light clients only sync headers and do not keep a transaction pool
+	if (isLightClient()) {
+		sendMessage(socket, queryHeadersMsg(getLastHeader().index + 1));
+		return;
+	}
+
 	sendMessage(socket, queryChainLengthMsg());
 
 	setTimeout(() => broadcastMessage(queryTransactionPoolMsg()), 500);
@@ -85,7 +136,13 @@ const initConnection = (socket: WebSocket): void => {
 const closeConnection = (socket: WebSocket) => {
 	console.log('\nPeer disconnected');
 	sockets.delete(socket);
+	peerAddresses.delete(socket);
+	removeTimeSample({ peer: socket });
 	console.log(`\nRemaining peers: ${sockets.size}`);
+
+	// Resume the blocks being downloaded from the peer with the remaining peers
+	releasePeer({ peer: socket });
+	sockets.forEach((peer) => requestBlocks(peer));
 };
 
 /**
@@ -100,6 +157,12 @@ const handleMessage = (socket: WebSocket, rawData: string) => {
 		const message: Message = JSON.parse(rawData);
 		console.log(`\nReceived message: ${JSON.stringify(message)}`);
 
+		// Nothing but the handshake is accepted before the peer proved it is on the same network
+		if (message.type !== MessageType.HANDSHAKE && !verifiedPeers.has(socket)) {
+			console.error('\nIgnoring message from a peer that has not completed its handshake');
+			return;
+		}
+
 		switch (message.type) {
 			case MessageType.QUERY_LATEST:
 				sendMessage(socket, responseLatestMsg());
@@ -108,26 +171,43 @@ const handleMessage = (socket: WebSocket, rawData: string) => {
 				sendMessage(socket, responseChainMsg());
 				break;
 			case MessageType.RESPONSE_BLOCKCHAIN:
-				handleBlockchainResponse(message.data);
+				if (isLightClient()) handleLightBlockchainResponse(socket, message.data);
+				else handleBlockchainResponse(socket, message.data);
 				break;
 			case MessageType.QUERY_TRANSACTION_POOL:
 				sendMessage(socket, responseTransactionPoolMsg());
 				break;
+			case MessageType.QUERY_HEADERS:
+				sendMessage(socket, responseHeadersMsg(message.data));
+				break;
+			case MessageType.RESPONSE_HEADERS:
+				if (isLightClient()) handleHeadersResponse(socket, message.data);
+				break;
+			case MessageType.QUERY_TRANSACTION_PROOFS:
+				// Light clients hold no blocks to prove transactions from
+				if (!isLightClient())
+					sendMessage(socket, responseTransactionProofsMsg(message.data));
+				break;
+			case MessageType.RESPONSE_TRANSACTION_PROOFS:
+				if (isLightClient()) handleTransactionProofsResponse(message.data);
+				break;
+			case MessageType.QUERY_BLOCK_HASHES:
+				sendMessage(socket, responseBlockHashesMsg(message.data));
+				break;
+			case MessageType.RESPONSE_BLOCK_HASHES:
+				if (!isLightClient()) handleBlockHashesResponse(socket, message.data);
+				break;
+			case MessageType.QUERY_BLOCKS:
+				sendMessage(socket, responseBlocksMsg(message.data));
+				break;
+			case MessageType.RESPONSE_BLOCKS:
+				if (!isLightClient()) handleBlocksResponse(socket, message.data);
+				break;
+			case MessageType.HANDSHAKE:
+				handleHandshake(socket, message.data);
+				break;
 			case MessageType.RESPONSE_TRANSACTION_POOL:
-				const receivedTransactions: Transaction[] = JSON.parse(message.data);
-
-				try {
-					// Process all transactions
-					for (const transaction of receivedTransactions) {
-						handleReceivedTransaction({ transaction });
-					}
-
-					// Broadcast the transaction pool after processing all transactions
-					broadcastTransactionPool();
-				} catch (error: Error | any) {
-					console.error(`\nError handling transaction: ${error.message}`);
-				}
-
+				if (!isLightClient()) handleTransactionPoolResponse(message.data);
 				break;
 			default:
 				console.error(`\nUnknown message type: ${message.type}`);
@@ -137,6 +217,61 @@ const handleMessage = (socket: WebSocket, rawData: string) => {
 	}
 };
 
+/**
+ * Handles the transaction pool of a peer, adding its transactions to the local pool. A rejected
+ * transaction, already pooled or paying too little for a full pool, does not stop the others.
+ * The pool is only relayed on when new transactions were added, so peers do not keep echoing
+ * the same pool.
+ *
+ * @param data The JSON string of the received transactions.
+ */
+const handleTransactionPoolResponse = (data: string) => {
+	const receivedTransactions: Transaction[] = JSON.parse(data);
+	let added = 0;
+
+	for (const transaction of receivedTransactions) {
+		try {
+			handleReceivedTransaction({ transaction });
+			added++;
+		} catch (error) {
+			console.error(`\nError handling transaction: ${(error as Error).message}`);
+		}
+	}
+
+	// Broadcast the transaction pool after processing all transactions
+	if (added > 0) broadcastTransactionPool();
+};
+
+/**
+ * Handles the handshake of a peer. Peers announcing another network magic are disconnected,
+ * so nodes on different networks never sync with each other.
+ *
+ * @param socket The WebSocket connection.
+ * @param data The handshake data: the network magic and name, and the time of the peer clock.
+ */
+const handleHandshake = (
+	socket: WebSocket,
+	data: { magic?: string; network?: string; timestamp?: number } | null
+) => {
+	const { magic, name } = getChainParams();
+
+	if (data?.magic !== magic) {
+		console.error(
+			`\nPeer is on network ${data?.network ?? 'unknown'} (magic ${data?.magic}), ` +
+				`not ${name} (magic ${magic}), disconnecting`
+		);
+		socket.close();
+		return;
+	}
+
+	verifiedPeers.add(socket);
+	addTimeSample({
+		peer: socket,
+		address: peerAddresses.get(socket) ?? '',
+		timestamp: data.timestamp as number,
+	});
+};
+
 /**
  * Sends a message to a peer.
  *
@@ -170,11 +305,6 @@ const queryChainLengthMsg = (): Message => ({
 	data: null,
 });
 
-const queryAllMsg = (): Message => ({
-	type: MessageType.QUERY_ALL,
-	data: null,
-});
-
 const responseChainMsg = (): Message => ({
 	type: MessageType.RESPONSE_BLOCKCHAIN,
 	data: JSON.stringify(getBlockchain()),
@@ -188,10 +318,10 @@ const responseLatestMsg = (): Message => ({
 /**
  * Handles blockchain data received from a peer.
  *
+ * @param socket The WebSocket connection the blocks were received on.
  * @param data The received blockchain data.
- * @param blockchain The blockchain instance.
  */
-const handleBlockchainResponse = (data: string) => {
+const handleBlockchainResponse = (socket: WebSocket, data: string) => {
 	const receivedBlocks: Block[] | null = parseJSON<Block[]>(data);
 	if (!receivedBlocks) {
 		console.error(`\nInvalid blockchain data: ${data}`);
@@ -211,23 +341,172 @@ const handleBlockchainResponse = (data: string) => {
 		console.log(
 			`\nBlockchain potentially outdated. Local: ${latestBlockHeld.index}, Peer: ${latestBlockReceived.index}`
 		);
+	}
 
-		if (latestBlockHeld.hash === latestBlockReceived.previousHash) {
-			if (addBlock({ newBlock: latestBlockReceived })) {
-				broadcastMessage(responseLatestMsg());
-			}
-		} else if (receivedBlocks.length === 1) {
-			console.log('\nQuerying full chain from peer');
-			broadcastMessage(queryAllMsg());
-		} else {
-			console.log('\nReplacing current chain with received chain');
-			replaceChain(receivedBlocks);
-		}
+	// Keep every received block in the block tree, which switches to the best chain
+	const { activated, orphans } = receiveBlocks({ blocks: receivedBlocks });
+
+	if (activated) {
+		broadcastMessage(responseLatestMsg());
+	} else if (orphans > 0) {
+		console.log('\nSyncing missing blocks from peer');
+		sendMessage(socket, queryBlockHashesMsg());
 	} else {
-		console.log('\nReceived chain is not longer. No action taken.');
+		console.log('\nReceived blocks do not improve the best chain. No action taken.');
 	}
 };
 
+/**
+ * Handles blocks received from a peer by a light client, which only keeps their headers.
+ *
+ * @param socket The WebSocket connection the blocks were received on.
+ * @param data The received blockchain data.
+ */
+const handleLightBlockchainResponse = (socket: WebSocket, data: string) => {
+	const receivedBlocks: Block[] | null = parseJSON<Block[]>(data);
+	if (!Array.isArray(receivedBlocks) || receivedBlocks.length === 0) {
+		console.error(`\nInvalid blockchain data: ${data}`);
+		return;
+	}
+
+	if (!receivedBlocks.every((block) => validateBlockStructure({ block }))) {
+		console.error(`\nInvalid block structure: ${data}`);
+		return;
+	}
+
+	handleHeadersResponse(
+		socket,
+		JSON.stringify(receivedBlocks.map((block) => getBlockHeader({ block })))
+	);
+};
+
+/**
+ * Handles block headers received from a peer by a light client.
+ *
+ * When the headers extend the header chain, the proofs of the wallet transactions are
+ * requested again so new payments are picked up. When they do not connect to a known header,
+ * the whole header chain of the peer is requested.
+ *
+ * @param socket The WebSocket connection the headers were received on.
+ * @param data The received block headers.
+ */
+const handleHeadersResponse = (socket: WebSocket, data: string) => {
+	const receivedHeaders: BlockHeader[] | null = parseJSON<BlockHeader[]>(data);
+	if (!Array.isArray(receivedHeaders)) {
+		console.error(`\nInvalid block headers: ${data}`);
+		return;
+	}
+
+	const { updated, connected } = receiveHeaders({ receivedHeaders });
+
+	if (updated) {
+		console.log(`\nHeader chain updated to height ${getLastHeader().index}`);
+		sendMessage(socket, queryTransactionProofsMsg());
+	} else if (!connected && receivedHeaders[0].index > 0) {
+		console.log('\nQuerying all headers from peer');
+		sendMessage(socket, queryHeadersMsg(0));
+	}
+};
+
+/**
+ * Handles wallet transaction proofs received from a peer by a light client.
+ *
+ * @param data The received transactions along with their Merkle proofs.
+ */
+const handleTransactionProofsResponse = (data: string) => {
+	const proofs: TransactionProof[] | null = parseJSON<TransactionProof[]>(data);
+	if (!Array.isArray(proofs)) {
+		console.error(`\nInvalid transaction proofs: ${data}`);
+		return;
+	}
+
+	const verified = receiveTransactionProofs({ proofs });
+	if (verified > 0) console.log(`\nVerified ${verified} new wallet transaction(s)`);
+};
+
+/**
+ * Requests the next batch of blocks to download from a peer.
+ *
+ * A batch the peer does not send within `BLOCK_BATCH_TIMEOUT` is requested from the other
+ * peers. When every announced block is downloaded, the hashes following the last announced
+ * one are requested from each peer that had more hashes to announce.
+ *
+ * @param socket The WebSocket connection to request the blocks on.
+ */
+const requestBlocks = (socket: WebSocket) => {
+	const hashes = takeBlockBatch({ peer: socket });
+
+	if (hashes.length > 0) {
+		sendMessage(socket, queryBlocksMsg(hashes));
+		setTimeout(() => handleBlockBatchTimeout(socket, hashes), BLOCK_BATCH_TIMEOUT);
+		return;
+	}
+
+	takeContinuations().forEach(({ peer, hash }) => {
+		if (sockets.has(peer)) sendMessage(peer, queryBlockHashesMsg(hash));
+	});
+};
+
+/**
+ * Requests a batch of blocks a peer did not send in time from the other peers, the peer
+ * itself only getting what they leave.
+ *
+ * @param socket The WebSocket connection the batch was requested on.
+ * @param hashes The requested block hashes.
+ */
+const handleBlockBatchTimeout = (socket: WebSocket, hashes: string[]) => {
+	if (!expireBlockBatch({ peer: socket, batch: hashes })) return;
+
+	console.log(`\nBlock batch of ${hashes.length} blocks timed out, requesting it again`);
+
+	const peers = Array.from(sockets).filter((peer) => peer !== socket);
+	[...peers, socket].filter((peer) => sockets.has(peer)).forEach((peer) => requestBlocks(peer));
+};
+
+/**
+ * Handles block hashes announced by a peer in response to a block locator, and starts
+ * downloading the blocks not known yet.
+ *
+ * @param socket The WebSocket connection the hashes were received on.
+ * @param data The announced block hashes.
+ */
+const handleBlockHashesResponse = (socket: WebSocket, data: string) => {
+	const hashes: string[] | null = parseJSON<string[]>(data);
+	if (!Array.isArray(hashes)) {
+		console.error(`\nInvalid block hashes: ${data}`);
+		return;
+	}
+
+	addBlockHashes({ peer: socket, hashes: hashes.slice(0, MAX_BLOCK_HASHES) });
+	requestBlocks(socket);
+};
+
+/**
+ * Handles a batch of blocks downloaded from a peer, then requests the next batch.
+ *
+ * @param socket The WebSocket connection the blocks were received on.
+ * @param data The received blocks.
+ */
+const handleBlocksResponse = (socket: WebSocket, data: string) => {
+	const receivedBlocks: Block[] | null = parseJSON<Block[]>(data);
+	completeBlockBatch({ peer: socket });
+
+	if (!Array.isArray(receivedBlocks)) {
+		console.error(`\nInvalid blocks: ${data}`);
+		return;
+	}
+
+	// Keep every received block in the block tree, which switches to the best chain
+	const { activated } = receiveBlocks({ blocks: receivedBlocks });
+
+	if (activated) {
+		console.log(`\nSynced up to block ${getLastBlock().index}`);
+		broadcastMessage(responseLatestMsg());
+	}
+
+	requestBlocks(socket);
+};
+
 /**
  * Establishes a connection to a peer using a WebSocket.
  *
@@ -240,7 +519,7 @@ const connectToPeer = (peerUrl: string) => {
 
 		socket.on('open', () => {
 			console.log(`\nConnected to peer: ${peerUrl}`);
-			initConnection(socket);
+			initConnection(socket, new URL(peerUrl).hostname);
 		});
 
 		socket.on('error', (error) => {
@@ -284,13 +563,135 @@ const queryTransactionPoolMsg = (): Message => ({
 /**
  * Creates a message to respond to a transaction pool query from a peer.
  *
- * This message includes the current transaction pool.
+ * This message includes the current transaction pool, or only some of its transactions.
+ *
+ * @param transactions The transactions to send, the whole transaction pool by default.
  *
- * @returns A Message object with the type set to RESPONSE_TRANSACTION_POOL and data set to the JSON string representation of the transaction pool.
+ * @returns A Message object with the type set to RESPONSE_TRANSACTION_POOL and data set to the JSON string representation of the transactions.
  */
-const responseTransactionPoolMsg = (): Message => ({
+const responseTransactionPoolMsg = (
+	transactions: Transaction[] = getTransactionPool()
+): Message => ({
 	type: MessageType.RESPONSE_TRANSACTION_POOL,
-	data: JSON.stringify(getTransactionPool()),
+	data: JSON.stringify(transactions),
+});
+
+/**
+ * Creates a message to query the block headers of a peer.
+ *
+ * @param fromIndex The index of the first header to query.
+ *
+ * @returns A Message object with the type set to QUERY_HEADERS and data set to the index.
+ */
+const queryHeadersMsg = (fromIndex: number): Message => ({
+	type: MessageType.QUERY_HEADERS,
+	data: fromIndex,
+});
+
+/**
+ * Creates a message to respond to a block header query from a peer.
+ *
+ * @param fromIndex The index of the first header to send.
+ *
+ * @returns A Message object with the type set to RESPONSE_HEADERS and data set to the JSON string representation of the headers.
+ */
+const responseHeadersMsg = (fromIndex: number): Message => ({
+	type: MessageType.RESPONSE_HEADERS,
+	data: JSON.stringify(
+		getHeaders({ fromIndex: Number.isInteger(fromIndex) && fromIndex > 0 ? fromIndex : 0 })
+	),
+});
+
+/**
+ * Creates a message to query the proofs of the wallet transactions from a peer.
+ *
+ * @returns A Message object with the type set to QUERY_TRANSACTION_PROOFS and data set to the wallet address.
+ */
+const queryTransactionProofsMsg = (): Message => ({
+	type: MessageType.QUERY_TRANSACTION_PROOFS,
+	data: getPublicFromWallet(),
+});
+
+/**
+ * Creates a message to respond to a transaction proof query from a peer.
+ *
+ * @param address The address to prove the transactions of.
+ *
+ * @returns A Message object with the type set to RESPONSE_TRANSACTION_PROOFS and data set to the JSON string representation of the proofs.
+ */
+const responseTransactionProofsMsg = (address: string): Message => ({
+	type: MessageType.RESPONSE_TRANSACTION_PROOFS,
+	data: JSON.stringify(
+		typeof address === 'string' ? getAddressTransactionProofs({ address }) : []
+	),
+});
+
+/**
+ * Creates a message to query the hashes of the blocks a peer has after the fork point.
+ *
+ * @param continueFrom The last hash already announced by the peer, to continue from, if any.
+ *
+ * @returns A Message object with the type set to QUERY_BLOCK_HASHES and data set to the block locator.
+ */
+const queryBlockHashesMsg = (continueFrom?: string): Message => ({
+	type: MessageType.QUERY_BLOCK_HASHES,
+	data: continueFrom ? [continueFrom, ...getBlockLocator()] : getBlockLocator(),
+});
+
+/**
+ * Creates a message to respond to a block locator from a peer.
+ *
+ * @param locator The block hashes of the peer, tip first.
+ *
+ * @returns A Message object with the type set to RESPONSE_BLOCK_HASHES and data set to the JSON string representation of the block hashes after the fork point.
+ */
+const responseBlockHashesMsg = (locator: string[]): Message => ({
+	type: MessageType.RESPONSE_BLOCK_HASHES,
+	data: JSON.stringify(
+		getBlockHashesAfter({
+			locator: Array.isArray(locator) ? locator : [],
+			limit: MAX_BLOCK_HASHES,
+		})
+	),
+});
+
+/**
+ * Creates a message to query blocks from a peer.
+ *
+ * @param hashes The hashes of the blocks to query.
+ *
+ * @returns A Message object with the type set to QUERY_BLOCKS and data set to the block hashes.
+ */
+const queryBlocksMsg = (hashes: string[]): Message => ({
+	type: MessageType.QUERY_BLOCKS,
+	data: hashes,
+});
+
+/**
+ * Creates a message to respond to a block query from a peer.
+ *
+ * At most a batch of blocks is sent, whatever the number of hashes queried.
+ *
+ * @param hashes The hashes of the blocks to send.
+ *
+ * @returns A Message object with the type set to RESPONSE_BLOCKS and data set to the JSON string representation of the blocks found.
+ */
+const responseBlocksMsg = (hashes: string[]): Message => ({
+	type: MessageType.RESPONSE_BLOCKS,
+	data: JSON.stringify(
+		getBlocks({ hashes: Array.isArray(hashes) ? hashes.slice(0, MAX_BLOCKS_PER_BATCH) : [] })
+	),
+});
+
+/**
+ * Creates the handshake message sent to a peer on connection, carrying the network magic and
+ * the time of the local clock.
+ *
+ * @returns A Message object with the type set to HANDSHAKE and data set to the network and local time.
+ */
+const handshakeMsg = (): Message => ({
+	type: MessageType.HANDSHAKE,
+	data: { magic: getChainParams().magic, network: getChainParams().name, timestamp: Date.now() },
 });
 
 /**
@@ -300,6 +701,15 @@ const broadcastTransactionPool = () => {
 	broadcastMessage(responseTransactionPoolMsg());
 };
 
+/**
+ * Broadcasts some transactions of the pool to all connected peers.
+ *
+ * @param transactions The transactions to broadcast.
+ */
+const broadcastTransactions = (transactions: Transaction[]) => {
+	broadcastMessage(responseTransactionPoolMsg(transactions));
+};
+
 export {
 	initP2PServer,
 	getSockets,
@@ -307,4 +717,5 @@ export {
 	broadcastMessage,
 	responseLatestMsg,
 	broadcastTransactionPool,
+	broadcastTransactions,
 };
@@ -0,0 +1,527 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Block } from './block';
+import { getBlockTemplate, getBlockchain, sendPayments, submitBlock } from './blockchain';
+import { getChainParams } from './chainParams';
+import { MiningJobData } from './miner';
+import { checkHashDifficulty, generateHash } from './proofOfWork';
+import { validateAddress } from './transaction';
+import { Payment, getPublicFromWallet } from './wallet';
+
+const DEFAULT_SHARE_DIFFICULTY = 8; // Leading zero bits a share needs, unless configured
+const PPLNS_WINDOW = 1000; // Number of last shares a block reward is split over
+const MAX_PAYOUTS = 100; // Number of payouts kept in the pool status
+
+// Requests sent by pool workers, answered with a response carrying the same ID
+interface PoolRequest {
+	id: number | string | null;
+	method: 'mining.authorize' | 'mining.submit';
+	params: { address?: string; jobId?: number; proof?: number };
+}
+
+interface PoolJob {
+	id: number; // ID of the job, sent back with the shares
+	data: MiningJobData; // Block data the workers search a proof for
+	shareDifficulty: number; // Leading zero bits a share of this job needs
+	proofs: Set<number>; // Proofs already submitted for this job, to reject duplicate shares
+}
+
+interface PoolWorker {
+	address: string | null; // Address the worker is paid to, null until authorized
+	acceptedShares: number; // Number of valid shares submitted
+	rejectedShares: number; // Number of invalid shares submitted
+	connectedAt: number; // Time the worker connected
+}
+
+interface PoolShare {
+	address: string; // Address of the worker that found the share
+	difficulty: number; // Difficulty the share was found at
+}
+
+interface PoolPayout {
+	blockHash: string; // Hash of the block whose reward was paid out
+	transactionId: string | null; // ID of the transaction paying the workers, null if it failed
+	payments: Payment[]; // Amounts paid to each worker
+	error: string | null; // Reason the payout failed, null if it was sent
+}
+
+interface PendingPayout {
+	blockHash: string; // Hash of the block whose reward is waiting to mature
+	blockIndex: number; // Index of the block
+	payments: Payment[]; // Amounts owed to each worker
+}
+
+interface PoolStatus {
+	running: boolean; // Whether the pool server is running
+	port: number | null; // Port the pool server listens on
+	shareDifficulty: number; // Leading zero bits a share needs
+	height: number | null; // Index of the block being mined
+	workers: Omit<PoolWorker, 'connectedAt'>[]; // Connected workers
+	contributions: { address: string; shares: number; ratio: number }[]; // Shares in the window
+	blocksFound: number; // Number of blocks found by the pool
+	lastBlockHash: string | null; // Hash of the last block found by the pool
+	payouts: PoolPayout[]; // Last payouts, most recent first
+	pendingPayouts: PendingPayout[]; // Payouts waiting for their block reward to mature
+}
+
+// Pool server, null when pool mode is disabled
+let server: WebSocketServer | null = null;
+let poolPort: number | null = null;
+let shareDifficulty = DEFAULT_SHARE_DIFFICULTY;
+
+// Connected workers
+const workers: Map<WebSocket, PoolWorker> = new Map();
+
+// Jobs on top of the current tip, by ID
+const jobs: Map<number, PoolJob> = new Map();
+let currentJob: PoolJob | null = null;
+let nextJobId = 0;
+
+// Last shares found by the workers, oldest first
+let shares: PoolShare[] = [];
+
+let blocksFound = 0;
+let lastBlockHash: string | null = null;
+let payouts: PoolPayout[] = [];
+let pendingPayouts: PendingPayout[] = [];
+
+// File the pending payouts are written to, null to keep them in memory only
+let pendingPayoutsPath: string | null = null;
+
+/**
+ * Initializes the mining pool server.
+ *
+ * Workers connect over WebSocket and talk a stratum-like JSON protocol:
+ *
+ * - mining.authorize { address }: registers the address the worker is paid to, and sends it
+ *   the current job.
+ * - mining.submit { jobId, proof }: submits a share, a proof meeting the share difficulty.
+ * - mining.notify { jobId, shareDifficulty, block }: sent by the pool with every new job.
+ *
+ * The block rewards are paid to the wallet of the node, then split among the workers once the
+ * coinbase outputs are mature. Payouts still waiting to mature are kept in the data directory.
+ *
+ * @param port The port to listen on.
+ * @param difficulty The leading zero bits a share needs.
+ * @param dataDir The directory the pending payouts are written to, in memory only if unset.
+ */
+const initPoolServer = ({
+	port,
+	difficulty,
+	dataDir,
+}: {
+	port: number;
+	difficulty?: number;
+	dataDir?: string;
+}) => {
+	if (difficulty !== undefined && Number.isInteger(difficulty) && difficulty >= 0)
+		shareDifficulty = difficulty;
+
+	if (dataDir) {
+		if (!existsSync(dataDir)) mkdirSync(dataDir, { recursive: true });
+
+		pendingPayoutsPath = join(dataDir, 'pool-payouts.json');
+		pendingPayouts = loadPendingPayouts();
+	}
+
+	server = new WebSocketServer({ port });
+	poolPort = port;
+
+	server.on('connection', (socket) => {
+		workers.set(socket, {
+			address: null,
+			acceptedShares: 0,
+			rejectedShares: 0,
+			connectedAt: Date.now(),
+		});
+
+		socket.on('message', (data) => handlePoolRequest(socket, data.toString()));
+		socket.on('close', () => workers.delete(socket));
+		socket.on('error', () => workers.delete(socket));
+	});
+
+	server.on('listening', () => {
+		console.log(`\nMining pool server running on port ${port}`);
+	});
+
+	server.on('error', (error) => {
+		console.error(`\nMining pool server error: ${error.message}`);
+	});
+
+	createJob();
+};
+
+/**
+ * Sends a message to a worker.
+ *
+ * @param socket The WebSocket connection of the worker.
+ * @param message The message to send.
+ */
+const sendToWorker = (socket: WebSocket, message: object) => {
+	if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+/**
+ * Builds the job notification sent to the workers.
+ *
+ * @param job The job.
+ *
+ * @returns The notification.
+ */
+const notifyMsg = (job: PoolJob) => ({
+	id: null,
+	method: 'mining.notify',
+	params: { jobId: job.id, shareDifficulty: job.shareDifficulty, block: job.data },
+});
+
+/**
+ * Handles a request from a worker, answering with its result or error.
+ *
+ * @param socket The WebSocket connection of the worker.
+ * @param rawData The raw request.
+ */
+const handlePoolRequest = (socket: WebSocket, rawData: string) => {
+	const worker = workers.get(socket);
+	if (!worker) return;
+
+	let request: PoolRequest;
+
+	try {
+		request = JSON.parse(rawData);
+	} catch {
+		sendToWorker(socket, { id: null, result: null, error: 'Invalid JSON' });
+		return;
+	}
+
+	if (!request || typeof request !== 'object') {
+		sendToWorker(socket, { id: null, result: null, error: 'Invalid request' });
+		return;
+	}
+
+	const params = request.params || {};
+
+	try {
+		switch (request.method) {
+			case 'mining.authorize': {
+				authorizeWorker({ worker, address: params.address });
+				sendToWorker(socket, { id: request.id, result: true, error: null });
+				if (currentJob) sendToWorker(socket, notifyMsg(currentJob));
+				break;
+			}
+			case 'mining.submit': {
+				const result = submitShare({ worker, jobId: params.jobId, proof: params.proof });
+				sendToWorker(socket, { id: request.id, result, error: null });
+				break;
+			}
+			default:
+				throw new Error('Unknown method');
+		}
+	} catch (error) {
+		if (request.method === 'mining.submit') worker.rejectedShares++;
+
+		sendToWorker(socket, { id: request.id, result: null, error: (error as Error).message });
+	}
+};
+
+/**
+ * Registers the address a worker is paid to.
+ *
+ * @param worker The worker.
+ * @param address The address of the worker.
+ *
+ * @throws {Error} If the address is invalid.
+ */
+const authorizeWorker = ({ worker, address }: { worker: PoolWorker; address?: string }) => {
+	if (typeof address !== 'string' || !validateAddress({ address }))
+		throw new Error('Invalid worker address');
+
+	worker.address = address;
+};
+
+/**
+ * Checks a share submitted by a worker and credits it. A share also meeting the block
+ * difficulty is submitted as a block, whose reward is then paid out.
+ *
+ * @param worker The worker.
+ * @param jobId The ID of the job the share was found for.
+ * @param proof The proof of the share.
+ *
+ * @returns The hash of the share, and whether it solved a block.
+ *
+ * @throws {Error} If the worker is not authorized, or the share is stale, duplicate or invalid.
+ */
+const submitShare = ({
+	worker,
+	jobId,
+	proof,
+}: {
+	worker: PoolWorker;
+	jobId?: number;
+	proof?: number;
+}): { hash: string; block: boolean } => {
+	if (!worker.address) throw new Error('Unauthorized worker');
+
+	const job = jobId !== undefined ? jobs.get(jobId) : undefined;
+	if (!job) throw new Error('Stale job');
+
+	if (typeof proof !== 'number' || !Number.isInteger(proof) || proof < 0)
+		throw new Error('Invalid proof');
+
+	if (job.proofs.has(proof)) throw new Error('Duplicate share');
+
+	const hash = generateHash({ ...job.data, proof });
+
+	if (!checkHashDifficulty(hash, job.shareDifficulty)) throw new Error('Share below difficulty');
+
+	job.proofs.add(proof);
+	worker.acceptedShares++;
+
+	shares.push({ address: worker.address, difficulty: job.shareDifficulty });
+	if (shares.length > PPLNS_WINDOW) shares = shares.slice(-PPLNS_WINDOW);
+
+	if (!checkHashDifficulty(hash, job.data.difficulty)) return { hash, block: false };
+
+	try {
+		const block = submitBlock({ block: new Block({ ...job.data, hash, proof }) });
+
+		blocksFound++;
+		lastBlockHash = block.hash;
+
+		queuePayout({ block });
+	} catch (error) {
+		console.error(`\nPool block rejected: ${(error as Error).message}`);
+		return { hash, block: false };
+	}
+
+	return { hash, block: true };
+};
+
+/**
+ * Splits the coinbase of a block found by the pool among the workers, in proportion to the
+ * work of their shares in the last PPLNS window. The payments are sent once the coinbase output
+ * is mature, as the pool wallet may not spend it before.
+ *
+ * @param block The block found by the pool.
+ */
+const queuePayout = ({ block }: { block: Block }) => {
+	const reward = block.transactions[0].txOuts.reduce((sum, txOut) => sum + txOut.amount, 0);
+	const payments = splitReward({ reward, shares });
+
+	if (payments.length === 0) return;
+
+	pendingPayouts.push({ blockHash: block.hash, blockIndex: block.index, payments });
+	savePendingPayouts();
+
+	// Include the payout in the next job, if the coinbase is mature already
+	payOutMatured();
+	createJob();
+};
+
+/**
+ * Sends the pending payouts whose coinbase output is mature in the next block, each in one
+ * transaction. Payouts of blocks no longer in the chain are dropped, their reward is gone.
+ * Every settled payout, sent, failed or dropped, is recorded in the pool status.
+ *
+ * @returns The settled payouts.
+ */
+const payOutMatured = (): PoolPayout[] => {
+	if (pendingPayouts.length === 0) return [];
+
+	const blockchain = getBlockchain();
+	const height = blockchain.length;
+	const { coinbaseMaturity } = getChainParams();
+	const settled: PoolPayout[] = [];
+
+	pendingPayouts = pendingPayouts.filter(({ blockHash, blockIndex, payments }) => {
+		if (blockchain[blockIndex]?.hash !== blockHash) {
+			settled.push({
+				blockHash,
+				transactionId: null,
+				payments,
+				error: 'Block is no longer in the chain',
+			});
+			return false;
+		}
+
+		if (height - blockIndex < coinbaseMaturity) return true;
+
+		try {
+			const transaction = sendPayments({ payments });
+
+			settled.push({ blockHash, transactionId: transaction.id, payments, error: null });
+		} catch (error) {
+			settled.push({
+				blockHash,
+				transactionId: null,
+				payments,
+				error: (error as Error).message,
+			});
+		}
+
+		return false;
+	});
+
+	if (settled.length > 0) {
+		payouts = [...settled.reverse(), ...payouts].slice(0, MAX_PAYOUTS);
+		savePendingPayouts();
+	}
+
+	return settled;
+};
+
+/**
+ * Writes the pending payouts to the data directory, so the workers are still paid if the node
+ * restarts before the coinbase outputs mature.
+ */
+const savePendingPayouts = () => {
+	if (!pendingPayoutsPath) return;
+
+	writeFileSync(`${pendingPayoutsPath}.tmp`, JSON.stringify(pendingPayouts));
+	renameSync(`${pendingPayoutsPath}.tmp`, pendingPayoutsPath);
+};
+
+/**
+ * Reads the pending payouts written to the data directory, if any.
+ *
+ * @returns The pending payouts.
+ */
+const loadPendingPayouts = (): PendingPayout[] => {
+	if (!pendingPayoutsPath || !existsSync(pendingPayoutsPath)) return [];
+
+	try {
+		return JSON.parse(readFileSync(pendingPayoutsPath, 'utf8'));
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Splits a block reward among the workers in proportion to the work of their shares in the
+ * PPLNS window.
+ *
+ * Amounts are rounded down, the remainder stays in the pool wallet.
+ *
+ * @param reward The block reward.
+ * @param shares The shares in the PPLNS window.
+ *
+ * @returns The payment of each worker earning a positive amount.
+ */
+const splitReward = ({ reward, shares }: { reward: number; shares: PoolShare[] }): Payment[] => {
+	const weights = getShareWeights({ shares });
+	const totalWeight = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+
+	return Array.from(weights.entries())
+		.map(([address, weight]) => ({
+			address,
+			amount: Math.floor((reward * weight) / totalWeight),
+		}))
+		.filter((payment) => payment.amount > 0);
+};
+
+/**
+ * Sums the work of shares by address. Each share weighs the expected number of proofs needed
+ * to find it.
+ *
+ * @param shares The shares.
+ *
+ * @returns The weight of each address.
+ */
+const getShareWeights = ({ shares }: { shares: PoolShare[] }): Map<string, number> => {
+	const weights: Map<string, number> = new Map();
+
+	for (const share of shares) {
+		weights.set(share.address, (weights.get(share.address) || 0) + 2 ** share.difficulty);
+	}
+
+	return weights;
+};
+
+/**
+ * Creates a job on top of the current tip, paying the block reward to the pool wallet, and
+ * sends it to every authorized worker. Jobs of the previous tip are dropped.
+ */
+const createJob = () => {
+	if (!server) return;
+
+	let data: MiningJobData;
+
+	try {
+		data = getBlockTemplate({ address: getPublicFromWallet() });
+	} catch (error) {
+		console.error(`\nFailed to create pool job: ${(error as Error).message}`);
+		return;
+	}
+
+	const job: PoolJob = {
+		id: nextJobId++,
+		data,
+		shareDifficulty: Math.min(shareDifficulty, data.difficulty),
+		proofs: new Set(),
+	};
+
+	if (currentJob?.data.previousHash !== data.previousHash) jobs.clear();
+
+	jobs.set(job.id, job);
+	currentJob = job;
+
+	workers.forEach((worker, socket) => {
+		if (worker.address) sendToWorker(socket, notifyMsg(job));
+	});
+};
+
+/**
+ * Sends the payouts matured by a new tip and a new job to the workers when the tip changes.
+ *
+ * @param hash The hash of the new tip.
+ */
+const refreshPoolJob = ({ hash }: { hash: string }) => {
+	if (!server || currentJob?.data.previousHash === hash) return;
+
+	payOutMatured();
+	createJob();
+};
+
+/**
+ * Retrieves the state of the mining pool.
+ *
+ * @returns The pool status.
+ */
+const getPoolStatus = (): PoolStatus => {
+	const weights = getShareWeights({ shares });
+	const totalWeight = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+
+	return {
+		running: server !== null,
+		port: poolPort,
+		shareDifficulty,
+		height: currentJob ? currentJob.data.index : null,
+		workers: Array.from(workers.values()).map(
+			({ address, acceptedShares, rejectedShares }) => ({
+				address,
+				acceptedShares,
+				rejectedShares,
+			})
+		),
+		contributions: Array.from(weights.entries()).map(([address, weight]) => ({
+			address,
+			shares: shares.filter((share) => share.address === address).length,
+			ratio: weight / totalWeight,
+		})),
+		blocksFound,
+		lastBlockHash,
+		payouts,
+		pendingPayouts,
+	};
+};
+
+export {
+	PoolShare,
+	PoolStatus,
+	PoolPayout,
+	PendingPayout,
+	initPoolServer,
+	refreshPoolJob,
+	splitReward,
+	getPoolStatus,
+};
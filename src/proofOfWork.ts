@@ -0,0 +1,119 @@
+import sha256 from 'crypto-js/sha256';
+import { LEGACY_BLOCK_VERSION, MERKLE_BLOCK_VERSION } from './block';
+import { serializeBlock, serializeBlockHeader } from './serialization';
+import { Transaction } from './transaction';
+import { hexToBinary } from './utils';
+
+const MAX_DIFFICULTY = 256; // A hash has 256 bits, so no hash meets a higher difficulty
+
+const FRACTION_BITS = 48; // Bits after the leading zeros compared against a fractional difficulty
+
+// Hashing and proof of work checks, kept free of side effects so mining workers can load them
+// without starting the node.
+
+/**
+ * Generates a hash based on the given block data.
+ *
+ * Legacy blocks are hashed from their concatenated fields. Version 2 blocks are hashed from
+ * the canonical serialization of the block, which commits to every transaction. Later
+ * versions are hashed from the canonical serialization of the block header, which commits to
+ * the transactions through their Merkle root.
+ *
+ * @param version Consensus version of the block, legacy when missing.
+ * @param index Unique identifier of the block.
+ * @param previousHash Hash of the previous block.
+ * @param timestamp Time of block creation.
+ * @param transactions List of transactions contained in the block.
+ * @param merkleRoot Merkle root of the transaction IDs, from version 3 onwards.
+ * @param difficulty Difficulty level of PoW challenge.
+ * @param proof Proof calculated by the miner.
+ *
+ * @returns The generated hash.
+ */
+const generateHash = ({
+	version = LEGACY_BLOCK_VERSION,
+	index,
+	previousHash,
+	timestamp,
+	transactions,
+	merkleRoot,
+	difficulty,
+	proof,
+}: {
+	version?: number;
+	index: number;
+	previousHash: string;
+	timestamp: number;
+	transactions: Transaction[];
+	merkleRoot?: string;
+	difficulty: number;
+	proof: number;
+}): string => {
+	if (version === LEGACY_BLOCK_VERSION) {
+		return sha256(
+			`${index}${previousHash}${timestamp}${transactions}${difficulty}${proof}`
+		).toString();
+	}
+
+	if (version >= MERKLE_BLOCK_VERSION) {
+		return sha256(
+			serializeBlockHeader({
+				header: { version, index, previousHash, timestamp, merkleRoot, difficulty, proof },
+			})
+		).toString();
+	}
+
+	return sha256(
+		serializeBlock({
+			block: { version, index, previousHash, timestamp, transactions, difficulty, proof },
+		})
+	).toString();
+};
+
+/**
+ * Checks that a difficulty is a number of bits a hash can meet.
+ *
+ * @param difficulty The difficulty to check.
+ *
+ * @returns Whether the difficulty is a finite number between 0 and 256.
+ */
+const isValidDifficulty = (difficulty: number): boolean => {
+	return Number.isFinite(difficulty) && difficulty >= 0 && difficulty <= MAX_DIFFICULTY;
+};
+
+/**
+ * Checks if a given hash has a difficulty level equal to or greater than the given level.
+ *
+ * The difficulty level is determined by the number of leading zeros in the binary representation of the hash.
+ * A fractional difficulty d sets the target to 2^(256 - d): after the whole leading zeros, the
+ * following bits, read as a fraction, must stay under 2^-f where f is the fractional part. An
+ * integer difficulty is therefore the same as counting leading zeros.
+ *
+ * @param {string} hash The hash to check.
+ * @param {number} difficulty The difficulty level to check against.
+ *
+ * @returns {boolean} Whether the hash has a difficulty level equal to or greater than the given level.
+ */
+const checkHashDifficulty = (hash: string, difficulty: number): boolean => {
+	if (!isValidDifficulty(difficulty)) return false;
+
+	// Convert the hash to a binary string
+	const binary: string | null = hexToBinary(hash);
+
+	// If no binary string is found, return false
+	if (!binary) return false;
+
+	// Check if the binary string starts with the required number of zeros
+	const zeros = Math.floor(difficulty);
+	if (!binary.startsWith('0'.repeat(zeros))) return false;
+
+	const fraction = difficulty - zeros;
+	if (fraction === 0) return true;
+
+	// Compare the bits following the leading zeros against the fractional part of the target
+	const bits = binary.slice(zeros, zeros + FRACTION_BITS).padEnd(FRACTION_BITS, '0');
+
+	return parseInt(bits, 2) / 2 ** FRACTION_BITS < 2 ** -fraction;
+};
+
+export { generateHash, checkHashDifficulty, isValidDifficulty };
@@ -0,0 +1,166 @@
+import { Block } from './block';
+import { Transaction, TxIn, TxOut } from './transaction';
+
+/**
+ * Serializes a value as JSON with object keys sorted and undefined properties left out, so
+ * equal values always produce the same string whatever order their keys were set in.
+ *
+ * @param value The value to serialize.
+ *
+ * @returns The canonical JSON string.
+ */
+const canonicalStringify = (value: unknown): string => {
+	if (Array.isArray(value)) return `[${value.map(canonicalStringify).join(',')}]`;
+
+	if (value !== null && typeof value === 'object') {
+		const entries = Object.entries(value)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalStringify(entry)}`);
+
+		return `{${entries.join(',')}}`;
+	}
+
+	return JSON.stringify(value);
+};
+
+/**
+ * Picks the fields of a transaction input that are serialized. Fields are picked explicitly
+ * so extra properties received from peers never change a hash.
+ */
+const pickTxIn = ({ txIn, withSignature }: { txIn: TxIn; withSignature: boolean }) => ({
+	txOutId: txIn.txOutId,
+	txOutIndex: txIn.txOutIndex,
+	signature: withSignature ? txIn.signature : undefined,
+	witness:
+		withSignature && txIn.witness
+			? { signatures: txIn.witness.signatures, preimage: txIn.witness.preimage }
+			: undefined,
+});
+
+/**
+ * Picks the fields of a transaction output that are serialized. The condition, only set on
+ * locked outputs, is checked to have no extra fields before it is hashed.
+ */
+const pickTxOut = ({ txOut }: { txOut: TxOut }) => ({
+	address: txOut.address,
+	amount: txOut.amount,
+	condition: txOut.condition,
+});
+
+/**
+ * Picks the fields of a transaction that are serialized.
+ */
+const pickTransaction = ({
+	transaction,
+	withSignatures,
+}: {
+	transaction: Transaction;
+	withSignatures: boolean;
+}) => ({
+	id: withSignatures ? transaction.id : undefined,
+	txIns: transaction.txIns.map((txIn) => pickTxIn({ txIn, withSignature: withSignatures })),
+	txOuts: transaction.txOuts.map((txOut) => pickTxOut({ txOut })),
+	// Only serialized when set, so transactions without the signal keep their IDs
+	replaceable: transaction.replaceable === true ? true : undefined,
+});
+
+/**
+ * Serializes a transaction input.
+ *
+ * @param txIn The transaction input to serialize.
+ * @param withSignature Whether to include the signature.
+ *
+ * @returns The canonical serialization of the transaction input.
+ */
+const serializeTxIn = ({ txIn, withSignature }: { txIn: TxIn; withSignature: boolean }): string => {
+	return canonicalStringify(pickTxIn({ txIn, withSignature }));
+};
+
+/**
+ * Serializes a transaction output.
+ *
+ * @param txOut The transaction output to serialize.
+ *
+ * @returns The canonical serialization of the transaction output.
+ */
+const serializeTxOut = ({ txOut }: { txOut: TxOut }): string => {
+	return canonicalStringify(pickTxOut({ txOut }));
+};
+
+/**
+ * Serializes a transaction.
+ *
+ * Without signatures, the serialization covers exactly what the transaction ID commits to:
+ * the outpoints spent, the outputs created with their conditions and the replace-by-fee
+ * signal. With signatures, it also covers the ID and the signature and witness of every input,
+ * which is the full content a block commits to.
+ *
+ * @param transaction The transaction to serialize.
+ * @param withSignatures Whether to include the transaction ID, the input signatures and witnesses.
+ *
+ * @returns The canonical serialization of the transaction.
+ */
+const serializeTransaction = ({
+	transaction,
+	withSignatures,
+}: {
+	transaction: Transaction;
+	withSignatures: boolean;
+}): string => {
+	return canonicalStringify(pickTransaction({ transaction, withSignatures }));
+};
+
+/**
+ * Serializes the content of a block that its hash commits to.
+ *
+ * @param block The block data to serialize.
+ *
+ * @returns The canonical serialization of the block.
+ */
+const serializeBlock = ({ block }: { block: Omit<Block, 'hash'> }): string => {
+	return canonicalStringify({
+		version: block.version,
+		index: block.index,
+		previousHash: block.previousHash,
+		timestamp: block.timestamp,
+		transactions: block.transactions.map((transaction) =>
+			pickTransaction({ transaction, withSignatures: true })
+		),
+		difficulty: block.difficulty,
+		proof: block.proof,
+	});
+};
+
+/**
+ * Serializes the header of a block, which its hash commits to from version 3 onwards. The
+ * header commits to the transactions through their Merkle root.
+ *
+ * @param header The block header to serialize.
+ *
+ * @returns The canonical serialization of the block header.
+ */
+const serializeBlockHeader = ({
+	header,
+}: {
+	header: Omit<Block, 'hash' | 'transactions'>;
+}): string => {
+	return canonicalStringify({
+		version: header.version,
+		index: header.index,
+		previousHash: header.previousHash,
+		timestamp: header.timestamp,
+		merkleRoot: header.merkleRoot,
+		difficulty: header.difficulty,
+		proof: header.proof,
+	});
+};
+
+export {
+	canonicalStringify,
+	serializeTxIn,
+	serializeTxOut,
+	serializeTransaction,
+	serializeBlock,
+	serializeBlockHeader,
+};
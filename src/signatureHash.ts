@@ -0,0 +1,147 @@
+import sha256 from 'crypto-js/sha256';
+import { canonicalStringify } from './serialization';
+import { Transaction, UnspentTxOut } from './transaction';
+
+/**
+ * Signature hash types, telling which parts of a transaction a signature commits to. The
+ * signature always commits to the input it signs and to the output it spends, amount,
+ * address and condition included.
+ * - ALL: every input and every output.
+ * - NONE: every input and no output, so anyone may choose where the coins go.
+ * - SINGLE: every input and the output at the index of the signed input.
+ * - ANYONECANPAY: combined with one of the above, commits to the signed input only instead of
+ *   every input, so others may add inputs of their own.
+ */
+const SIGHASH_ALL = 0x01;
+const SIGHASH_NONE = 0x02;
+const SIGHASH_SINGLE = 0x03;
+const SIGHASH_ANYONECANPAY = 0x80;
+
+// Names of the signature hash types, as accepted by the API
+const SIGHASH_TYPES: Record<string, number> = {
+	ALL: SIGHASH_ALL,
+	NONE: SIGHASH_NONE,
+	SINGLE: SIGHASH_SINGLE,
+	'ALL|ANYONECANPAY': SIGHASH_ALL | SIGHASH_ANYONECANPAY,
+	'NONE|ANYONECANPAY': SIGHASH_NONE | SIGHASH_ANYONECANPAY,
+	'SINGLE|ANYONECANPAY': SIGHASH_SINGLE | SIGHASH_ANYONECANPAY,
+};
+
+/**
+ * Checks whether a value is a valid signature hash type.
+ *
+ * @param sighashType The value to check.
+ *
+ * @returns Whether it is one of the signature hash types.
+ */
+const isValidSighashType = (sighashType: unknown): sighashType is number => {
+	return Object.values(SIGHASH_TYPES).includes(sighashType as number);
+};
+
+/**
+ * Computes the hash an input signature signs for a signature hash type: the SHA-256 hash of
+ * the canonical serialization of the signed input, the output it spends, and the inputs and
+ * outputs of the transaction the type commits to.
+ *
+ * @param transaction The transaction.
+ * @param txInIndex The index of the signed input.
+ * @param unspentTxOut The output spent by the input.
+ * @param sighashType The signature hash type.
+ *
+ * @returns The signature hash, in hex.
+ *
+ * @throws {Error} If the type is SINGLE and the transaction has no output at the index of the
+ * input.
+ */
+const getSignatureHash = ({
+	transaction,
+	txInIndex,
+	unspentTxOut,
+	sighashType,
+}: {
+	transaction: Transaction;
+	txInIndex: number;
+	unspentTxOut: UnspentTxOut;
+	sighashType: number;
+}): string => {
+	const baseType = sighashType & ~SIGHASH_ANYONECANPAY;
+	const toOutpoint = ({ txOutId, txOutIndex }: { txOutId: string; txOutIndex: number }) => ({
+		txOutId,
+		txOutIndex,
+	});
+
+	if (baseType === SIGHASH_SINGLE && txInIndex >= transaction.txOuts.length)
+		throw new Error('No output to sign at the index of the input');
+
+	const txOuts =
+		baseType === SIGHASH_ALL
+			? transaction.txOuts
+			: baseType === SIGHASH_SINGLE
+				? [transaction.txOuts[txInIndex]]
+				: [];
+
+	return sha256(
+		canonicalStringify({
+			sighashType,
+			txIn: toOutpoint(transaction.txIns[txInIndex]),
+			spent: {
+				address: unspentTxOut.address,
+				amount: unspentTxOut.amount,
+				condition: unspentTxOut.condition,
+			},
+			txIns:
+				sighashType & SIGHASH_ANYONECANPAY ? undefined : transaction.txIns.map(toOutpoint),
+			txOuts: txOuts.map(({ address, amount, condition }) => ({
+				address,
+				amount,
+				condition,
+			})),
+			replaceable: transaction.replaceable === true ? true : undefined,
+		})
+	).toString();
+};
+
+/**
+ * Appends the signature hash type to a DER signature, as a last byte.
+ *
+ * @param signature The DER signature, in hex.
+ * @param sighashType The signature hash type.
+ *
+ * @returns The encoded signature, in hex.
+ */
+const encodeSignature = ({
+	signature,
+	sighashType,
+}: {
+	signature: string;
+	sighashType: number;
+}): string => {
+	return signature + sighashType.toString(16).padStart(2, '0');
+};
+
+/**
+ * Splits an encoded signature into the DER signature and its signature hash type.
+ *
+ * @param signature The encoded signature, in hex.
+ *
+ * @returns The DER signature and the type, or null if the type is invalid.
+ */
+const decodeSignature = (signature: string): { signature: string; sighashType: number } | null => {
+	const sighashType = parseInt(signature.slice(-2), 16);
+
+	if (signature.length < 4 || !isValidSighashType(sighashType)) return null;
+
+	return { signature: signature.slice(0, -2), sighashType };
+};
+
+export {
+	SIGHASH_ALL,
+	SIGHASH_NONE,
+	SIGHASH_SINGLE,
+	SIGHASH_ANYONECANPAY,
+	SIGHASH_TYPES,
+	isValidSighashType,
+	getSignatureHash,
+	encodeSignature,
+	decodeSignature,
+};
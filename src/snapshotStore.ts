@@ -0,0 +1,168 @@
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	unlinkSync,
+	writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import sha256 from 'crypto-js/sha256';
+import { UnspentTxOut } from './transaction';
+
+const MAX_SNAPSHOTS = 5; // Number of snapshots kept on disk
+
+interface SnapshotInfo {
+	height: number; // Index of the block the snapshot was taken at
+	hash: string; // Hash of the block the snapshot was taken at
+	createdAt: number; // Time the snapshot was written
+	size: number; // Number of unspent transaction outputs in the snapshot
+	checksum: string; // SHA-256 of the serialized unspent transaction outputs
+}
+
+interface Snapshot extends SnapshotInfo {
+	unspentTxOuts: UnspentTxOut[];
+}
+
+/**
+ * Stores snapshots of the unspent transaction output set, each tagged with the height and hash
+ * of the block it was taken at. Snapshots are written as JSON files named after that block.
+ */
+class SnapshotStore {
+	private readonly directory: string;
+
+	/**
+	 * Creates a snapshot store.
+	 *
+	 * @param directory The directory holding the snapshot files.
+	 */
+	constructor({ directory }: { directory: string }) {
+		this.directory = directory;
+
+		if (!existsSync(directory)) mkdirSync(directory, { recursive: true });
+	}
+
+	/**
+	 * Writes a snapshot and prunes the oldest ones beyond `MAX_SNAPSHOTS`.
+	 *
+	 * @param height The index of the block the snapshot is taken at.
+	 * @param hash The hash of the block the snapshot is taken at.
+	 * @param unspentTxOuts The unspent transaction outputs after that block.
+	 *
+	 * @returns The information of the written snapshot.
+	 */
+	write({
+		height,
+		hash,
+		unspentTxOuts,
+	}: {
+		height: number;
+		hash: string;
+		unspentTxOuts: UnspentTxOut[];
+	}): SnapshotInfo {
+		const snapshot: Snapshot = {
+			height,
+			hash,
+			createdAt: Date.now(),
+			size: unspentTxOuts.length,
+			checksum: getChecksum({ unspentTxOuts }),
+			unspentTxOuts,
+		};
+
+		// Write atomically so a crash never leaves a partial snapshot behind
+		const path = this.getSnapshotPath({ height, hash });
+		writeFileSync(`${path}.tmp`, JSON.stringify(snapshot));
+		renameSync(`${path}.tmp`, path);
+
+		this.getSnapshotFiles()
+			.slice(MAX_SNAPSHOTS)
+			.forEach((file) => unlinkSync(join(this.directory, file)));
+
+		return toSnapshotInfo(snapshot);
+	}
+
+	/**
+	 * Lists the stored snapshots, newest block first.
+	 *
+	 * @returns The information of every readable snapshot.
+	 */
+	list(): SnapshotInfo[] {
+		return this.getSnapshotFiles()
+			.map((file) => this.read(join(this.directory, file)))
+			.filter((snapshot): snapshot is Snapshot => snapshot !== null)
+			.map(toSnapshotInfo);
+	}
+
+	/**
+	 * Loads the newest snapshot taken at a block accepted by the given predicate.
+	 *
+	 * Snapshots whose checksum does not match their contents are skipped.
+	 *
+	 * @param isOnChain Whether the block a snapshot was taken at belongs to the chain.
+	 *
+	 * @returns The snapshot, or null if none is usable.
+	 */
+	loadLatest({ isOnChain }: { isOnChain: (info: SnapshotInfo) => boolean }): Snapshot | null {
+		for (const info of this.list().filter(isOnChain)) {
+			const snapshot = this.read(this.getSnapshotPath(info));
+
+			if (snapshot && getChecksum(snapshot) === snapshot.checksum) return snapshot;
+
+			console.error(`\nIgnoring corrupted snapshot at height ${info.height}`);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Lists the snapshot files, newest block first. The zero padded height in the file name
+	 * makes the names sort by height.
+	 */
+	private getSnapshotFiles(): string[] {
+		return readdirSync(this.directory)
+			.filter((file) => /^snapshot-\d+-[0-9a-f]+\.json$/.test(file))
+			.sort()
+			.reverse();
+	}
+
+	private read(path: string): Snapshot | null {
+		try {
+			return JSON.parse(readFileSync(path, 'utf8'));
+		} catch {
+			return null;
+		}
+	}
+
+	private getSnapshotPath({ height, hash }: { height: number; hash: string }): string {
+		return join(this.directory, `snapshot-${height.toString().padStart(10, '0')}-${hash}.json`);
+	}
+}
+
+/**
+ * Computes the checksum of a list of unspent transaction outputs.
+ *
+ * @param unspentTxOuts The unspent transaction outputs.
+ *
+ * @returns The SHA-256 of the serialized outputs.
+ */
+const getChecksum = ({ unspentTxOuts }: { unspentTxOuts: UnspentTxOut[] }): string => {
+	return sha256(JSON.stringify(unspentTxOuts)).toString();
+};
+
+/**
+ * Strips the unspent transaction outputs from a snapshot.
+ *
+ * @param snapshot The snapshot.
+ *
+ * @returns The information describing the snapshot.
+ */
+const toSnapshotInfo = ({ height, hash, createdAt, size, checksum }: Snapshot): SnapshotInfo => ({
+	height,
+	hash,
+	createdAt,
+	size,
+	checksum,
+});
+
+export { Snapshot, SnapshotInfo, SnapshotStore };
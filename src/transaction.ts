@@ -1,15 +1,45 @@
 import * as ecdsa from 'elliptic';
 import sha256 from 'crypto-js/sha256';
+import { getOutpointKey, UnspentTxOutOverlay, UnspentTxOutSet } from './unspentTxOutSet';
+import {
+	CURRENT_BLOCK_VERSION,
+	LEGACY_BLOCK_VERSION,
+	MATURITY_BLOCK_VERSION,
+	SIGHASH_BLOCK_VERSION,
+} from './block';
+import { getChainParams } from './chainParams';
+import { serializeTransaction } from './serialization';
+import { getBlockReward } from './emission';
+import {
+	decodeSignature,
+	encodeSignature,
+	getSignatureHash,
+	isValidSighashType,
+	SIGHASH_ALL,
+} from './signatureHash';
+import {
+	Condition,
+	evaluateCondition,
+	getConditionAddress,
+	getConditionPublicKeys,
+	LockContext,
+	SignatureVerifier,
+	findConditionStructureError,
+	findWitnessStructureError,
+	Witness,
+} from './conditions';
 
 const ec = new ecdsa.ec('secp256k1');
 
-const COINBASE_AMOUNT = 50; // Tokens amount
-
 class UnspentTxOut {
 	public readonly txOutId: string;
 	public readonly txOutIndex: number;
 	public readonly address: string;
 	public readonly amount: number;
+	public readonly condition?: Condition;
+	public readonly height?: number;
+	public readonly timestamp?: number;
+	public readonly coinbase?: boolean;
 	/**
 	 * Constructor for an UnspentTxOut.
 	 *
@@ -17,22 +47,38 @@ class UnspentTxOut {
 	 * @param txOutIndex The index of the output in the transaction. The first output is at index 0.
 	 * @param address The address that this output is sent to.
 	 * @param amount The amount of the output in Satoshis.
+	 * @param condition The condition locking the output, if any.
+	 * @param height The index of the block that confirmed the output, unset while unconfirmed.
+	 * @param timestamp The timestamp of the block that confirmed the output.
+	 * @param coinbase Whether the output was created by a coinbase transaction.
 	 */
 	constructor({
 		txOutId,
 		txOutIndex,
 		address,
 		amount,
+		condition,
+		height,
+		timestamp,
+		coinbase,
 	}: {
 		txOutId: string;
 		txOutIndex: number;
 		address: string;
 		amount: number;
+		condition?: Condition;
+		height?: number;
+		timestamp?: number;
+		coinbase?: boolean;
 	}) {
 		this.txOutId = txOutId;
 		this.txOutIndex = txOutIndex;
 		this.address = address;
 		this.amount = amount;
+		this.condition = condition;
+		this.height = height;
+		this.timestamp = timestamp;
+		this.coinbase = coinbase;
 	}
 }
 
@@ -40,20 +86,35 @@ class TxIn {
 	public txOutId!: string;
 	public txOutIndex!: number;
 	public signature!: string;
+	public witness?: Witness; // Signatures and preimage meeting the condition of the spent output
 }
 
 class TxOut {
 	public address: string;
 	public amount: number;
+	public condition?: Condition;
 	/**
 	 * Constructs a transaction output.
 	 *
+	 * An output locked with a condition is sent to the address of the condition, and can only be
+	 * spent by an input whose witness meets the condition.
+	 *
 	 * @param address The address to which the output is sent.
 	 * @param amount The amount of the output in Satoshis.
+	 * @param condition The condition locking the output, if any.
 	 */
-	constructor({ address, amount }: { address: string; amount: number }) {
+	constructor({
+		address,
+		amount,
+		condition,
+	}: {
+		address: string;
+		amount: number;
+		condition?: Condition;
+	}) {
 		this.address = address;
 		this.amount = amount;
+		if (condition) this.condition = condition;
 	}
 }
 
@@ -61,18 +122,31 @@ class Transaction {
 	public id!: string;
 	public txIns!: TxIn[];
 	public txOuts!: TxOut[];
+	public replaceable?: boolean; // Opts in to be replaced in the pool by a conflicting transaction paying more
 }
 
 /**
  * Generates a unique transaction ID for a given transaction.
  *
- * The transaction ID is a SHA-256 hash created by concatenating the transaction input
- * identifiers and the transaction output details.
+ * The transaction ID is a SHA-256 hash of the canonical serialization of the transaction
+ * inputs and outputs. Transactions of legacy blocks hash the concatenated transaction input
+ * identifiers and transaction output details instead.
  *
  * @param transaction The transaction for which to generate the ID.
+ * @param blockVersion The consensus version of the block holding the transaction.
  * @returns The generated transaction ID as a hexadecimal string.
  */
-const getTransactionId = ({ transaction }: { transaction: Transaction }): string => {
+const getTransactionId = ({
+	transaction,
+	blockVersion = CURRENT_BLOCK_VERSION,
+}: {
+	transaction: Transaction;
+	blockVersion?: number;
+}): string => {
+	if (blockVersion !== LEGACY_BLOCK_VERSION) {
+		return sha256(serializeTransaction({ transaction, withSignatures: false })).toString();
+	}
+
 	// Hash of transaction inputs
 	const txInContent = transaction.txIns
 		.map((txIn) => `${txIn.txOutId}${txIn.txOutIndex}`)
@@ -92,15 +166,17 @@ const getTransactionId = ({ transaction }: { transaction: Transaction }): string
  * This function locates the referenced unspent transaction output (UTxO)
  * corresponding to the transaction input specified by `txInIndex`.
  * It verifies that the provided private key corresponds to the address
- * in the referenced UTxO, and then signs the transaction ID using this
- * private key.
+ * in the referenced UTxO, and then signs the signature hash of the input
+ * for the given signature hash type using this private key.
  *
  * @param transaction The transaction containing the input to be signed.
  * @param txInIndex The index of the transaction input to sign.
  * @param privateKey The private key used to sign the transaction input.
- * @param unspentTxOuts The list of unspent transaction outputs to reference.
+ * @param unspentTxOuts The set of unspent transaction outputs to reference.
+ * @param sighashType The parts of the transaction the signature commits to, ALL by default.
  *
- * @returns The signature of the transaction input as a hexadecimal string.
+ * @returns The signature of the transaction input as a hexadecimal string, ending with the
+ * signature hash type.
  *
  * @throws {Error} If the referenced unspent transaction output is not found
  *                 or if the private key does not correspond to the address
@@ -111,49 +187,177 @@ const signTxIn = ({
 	txInIndex,
 	privateKey,
 	unspentTxOuts,
+	sighashType = SIGHASH_ALL,
 }: {
 	transaction: Transaction;
 	txInIndex: number;
 	privateKey: string;
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
+	sighashType?: number;
 }): string => {
 	// Get the transaction input
 	const txIn = transaction.txIns[txInIndex];
 
 	// Find the unspent transaction output for that transaction input
-	const referencedUTxOut = unspentTxOuts.find(
-		(uTxO) => uTxO.txOutId === txIn.txOutId && uTxO.txOutIndex === txIn.txOutIndex
-	);
+	const referencedUTxOut = unspentTxOuts.get(txIn);
 
 	if (!referencedUTxOut) throw new Error('Referenced unspent transaction output not found.');
 
-	if (getPublicKey({ privateKey }) !== referencedUTxOut.address)
-		throw new Error('Trying to sign an input with an invalid private key.');
-
 	// Verify that the private key corresponds to the address in the referenced UTxO
 	const key = ec.keyFromPrivate(privateKey, 'hex');
 
 	if (key.getPublic('hex') !== referencedUTxOut.address)
-		throw new Error('\nTrying to sign an input with an invalid private key.');
+		throw new Error('Trying to sign an input with an invalid private key.');
+
+	// Sign the signature hash of the input
+	return signInput({ transaction, txInIndex, key, unspentTxOut: referencedUTxOut, sighashType });
+};
+
+/**
+ * Signs a transaction input spending an output locked with a condition, for the witness of the
+ * input. Each party of a multisig or hashed timelock condition signs on its own, and the
+ * signatures are gathered in the witness.
+ *
+ * @param transaction The transaction containing the input to be signed.
+ * @param txInIndex The index of the transaction input to sign.
+ * @param privateKey The private key used to sign the transaction input.
+ * @param unspentTxOuts The set of unspent transaction outputs to reference.
+ * @param sighashType The parts of the transaction the signature commits to, ALL by default.
+ *
+ * @returns The signature of the transaction input as a hexadecimal string, ending with the
+ * signature hash type.
+ *
+ * @throws {Error} If the referenced unspent transaction output is not found, is not locked with
+ * a condition, or the condition does not accept signatures of the private key.
+ */
+const signTxInWitness = ({
+	transaction,
+	txInIndex,
+	privateKey,
+	unspentTxOuts,
+	sighashType = SIGHASH_ALL,
+}: {
+	transaction: Transaction;
+	txInIndex: number;
+	privateKey: string;
+	unspentTxOuts: UnspentTxOutSet;
+	sighashType?: number;
+}): string => {
+	const referencedUTxOut = unspentTxOuts.get(transaction.txIns[txInIndex]);
+
+	if (!referencedUTxOut) throw new Error('Referenced unspent transaction output not found.');
+
+	if (!referencedUTxOut.condition)
+		throw new Error('Referenced unspent transaction output is not locked with a condition.');
+
+	if (
+		!getConditionPublicKeys({ condition: referencedUTxOut.condition }).includes(
+			getPublicKey({ privateKey })
+		)
+	)
+		throw new Error(
+			'Trying to sign an input with a private key its condition does not accept.'
+		);
+
+	return signInput({
+		transaction,
+		txInIndex,
+		key: ec.keyFromPrivate(privateKey, 'hex'),
+		unspentTxOut: referencedUTxOut,
+		sighashType,
+	});
+};
+
+/**
+ * Signs the signature hash of an input and appends the signature hash type to the signature.
+ *
+ * @throws {Error} If the signature hash type is invalid or cannot sign the input.
+ */
+const signInput = ({
+	transaction,
+	txInIndex,
+	key,
+	unspentTxOut,
+	sighashType,
+}: {
+	transaction: Transaction;
+	txInIndex: number;
+	key: ecdsa.ec.KeyPair;
+	unspentTxOut: UnspentTxOut;
+	sighashType: number;
+}): string => {
+	if (!isValidSighashType(sighashType)) throw new Error('Invalid signature hash type.');
+
+	const signatureHash = getSignatureHash({ transaction, txInIndex, unspentTxOut, sighashType });
+
+	return encodeSignature({ signature: key.sign(signatureHash).toDER('hex'), sighashType });
+};
+
+/**
+ * Verifies a signature of a transaction input with a public key.
+ *
+ * From block version 4 the signature signs the signature hash of the input for the signature
+ * hash type it ends with. In earlier blocks it signs the transaction ID.
+ *
+ * @param transaction The transaction containing the input.
+ * @param txInIndex The index of the input.
+ * @param unspentTxOut The output spent by the input.
+ * @param publicKey The public key the signature is checked with.
+ * @param signature The signature.
+ * @param blockVersion The consensus version of the block holding the transaction.
+ *
+ * @returns Whether the signature is valid.
+ */
+const verifyTxInSignature = ({
+	transaction,
+	txInIndex,
+	unspentTxOut,
+	publicKey,
+	signature,
+	blockVersion,
+}: {
+	transaction: Transaction;
+	txInIndex: number;
+	unspentTxOut: UnspentTxOut;
+	publicKey: string;
+	signature: string;
+	blockVersion: number;
+}): boolean => {
+	const key = ec.keyFromPublic(publicKey, 'hex');
 
-	// Sign the transaction ID
-	const signature = key.sign(transaction.id).toDER('hex');
+	try {
+		if (blockVersion < SIGHASH_BLOCK_VERSION) return key.verify(transaction.id, signature);
 
-	return signature;
+		const decoded = decodeSignature(signature);
+		if (!decoded) return false;
+
+		const signatureHash = getSignatureHash({
+			transaction,
+			txInIndex,
+			unspentTxOut,
+			sighashType: decoded.sighashType,
+		});
+
+		return key.verify(signatureHash, decoded.signature);
+	} catch {
+		return false;
+	}
 };
 
 /**
- * Processes a set of transactions and returns the updated list of unspent transaction outputs.
+ * Processes a set of transactions and returns the updated set of unspent transaction outputs.
  *
  * This function first validates the transactions by calling `validateBlockTransactions`.
- * If the transactions are valid, it then updates the list of unspent transaction outputs
+ * If the transactions are valid, it then updates the set of unspent transaction outputs
  * by calling `updateUnspentTxOuts`.
  *
  * @param transactions The transactions to process.
- * @param unspentTxOuts The list of unspent transaction outputs to update.
+ * @param unspentTxOuts The set of unspent transaction outputs to update.
  * @param blockIndex The index of the block containing the transactions.
+ * @param blockTimestamp The timestamp of the block containing the transactions.
+ * @param blockVersion The consensus version of the block containing the transactions.
  *
- * @returns The updated list of unspent transaction outputs.
+ * @returns The updated set of unspent transaction outputs.
  *
  * @throws {Error} If the transactions are invalid.
  */
@@ -161,26 +365,46 @@ const processTransactions = ({
 	transactions,
 	unspentTxOuts,
 	blockIndex,
+	blockTimestamp,
+	blockVersion,
 }: {
 	transactions: Transaction[];
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
 	blockIndex: number;
-}): UnspentTxOut[] => {
+	blockTimestamp: number;
+	blockVersion: number;
+}): UnspentTxOutSet => {
 	// Validate the transactions
-	if (!validateBlockTransactions({ transactions, unspentTxOuts, blockIndex }))
+	if (
+		!validateBlockTransactions({
+			transactions,
+			unspentTxOuts,
+			blockIndex,
+			blockTimestamp,
+			blockVersion,
+		})
+	)
 		throw new Error('Invalid block transactions.');
 
-	// Update the list of unspent transaction outputs
-	return updateUnspentTxOuts({ transactions, unspentTxOuts });
+	// Update the set of unspent transaction outputs
+	return updateUnspentTxOuts({
+		transactions,
+		unspentTxOuts,
+		height: blockIndex,
+		timestamp: blockTimestamp,
+	});
 };
 
 /**
  * Validates a transaction by checking that its ID matches the hash of the transaction,
- * all its inputs are valid, and the total value of its inputs matches the total value of
- * its outputs.
+ * all its inputs are valid, and the total value of its inputs covers the total value of
+ * its outputs. The difference is the fee of the transaction.
  *
  * @param transaction The transaction to validate.
- * @param unspentTxOuts The list of unspent transaction outputs to reference.
+ * @param unspentTxOuts The set of unspent transaction outputs to reference.
+ * @param context The block holding the transaction, which the time locks of the spent outputs
+ * are checked against.
+ * @param blockVersion The consensus version of the block holding the transaction.
  *
  * @returns Whether the transaction is valid.
  *
@@ -189,21 +413,29 @@ const processTransactions = ({
 const validateTransaction = ({
 	transaction,
 	unspentTxOuts,
+	context,
+	blockVersion = CURRENT_BLOCK_VERSION,
 }: {
 	transaction: Transaction;
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
+	context: LockContext;
+	blockVersion?: number;
 }): boolean => {
 	// Check the transaction structure
 	if (!validateTransactionStructure({ transaction })) return false;
 
 	// Check if the transaction has the correct ID
-	if (getTransactionId({ transaction }) !== transaction.id) {
+	if (getTransactionId({ transaction, blockVersion }) !== transaction.id) {
 		console.log(`Invalid transaction ID: ${transaction.id}`);
 		return false;
 	}
 
 	// Check if all transaction inputs are valid
-	if (!transaction.txIns.every((txIn) => validateTxIn({ txIn, transaction, unspentTxOuts }))) {
+	if (
+		!transaction.txIns.every((txIn, txInIndex) =>
+			validateTxIn({ txIn, txInIndex, transaction, unspentTxOuts, context, blockVersion })
+		)
+	) {
 		console.log(`Invalid transaction inputs in transaction: ${transaction.id}`);
 		return false;
 	}
@@ -217,22 +449,64 @@ const validateTransaction = ({
 	// Total value of the transaction outputs
 	const totalTxOutValues = transaction.txOuts.reduce((sum, txOut) => sum + txOut.amount, 0);
 
-	// Check if the total value of the transaction inputs matches the total value of the transaction outputs
-	if (totalTxInValues !== totalTxOutValues) {
-		console.log(`Transaction inputs and outputs mismatch in transaction: ${transaction.id}`);
+	// Check if the transaction inputs cover the outputs, the difference being the fee
+	if (totalTxInValues < totalTxOutValues) {
+		console.log(`Transaction outputs exceed its inputs in transaction: ${transaction.id}`);
 		return false;
 	}
 
 	return true;
 };
 
+/**
+ * Computes the fee of a transaction: the value of its inputs not spent by its outputs, which
+ * the miner of the block holding it may claim in the coinbase transaction.
+ *
+ * @param transaction The transaction.
+ * @param unspentTxOuts The set of unspent transaction outputs its inputs reference.
+ *
+ * @returns The fee of the transaction.
+ */
+const getTransactionFee = ({
+	transaction,
+	unspentTxOuts,
+}: {
+	transaction: Transaction;
+	unspentTxOuts: UnspentTxOutSet;
+}): number => {
+	const totalTxInValues = transaction.txIns.reduce(
+		(sum, txIn) => sum + getTxInAmount({ txIn, unspentTxOuts }),
+		0
+	);
+	const totalTxOutValues = transaction.txOuts.reduce((sum, txOut) => sum + txOut.amount, 0);
+
+	return totalTxInValues - totalTxOutValues;
+};
+
+/**
+ * Computes the size of a transaction, the length of its canonical serialization with the
+ * signatures. Fee rates are expressed per unit of this size.
+ *
+ * @param transaction The transaction.
+ *
+ * @returns The size of the transaction, in bytes.
+ */
+const getTransactionSize = ({ transaction }: { transaction: Transaction }): number => {
+	return serializeTransaction({ transaction, withSignatures: true }).length;
+};
+
 /**
  * Validates a transaction input by checking that the referenced unspent transaction
- * output (UTxO) exists and that the signature of the transaction input is valid.
+ * output (UTxO) exists and that the signature of the transaction input is valid. An output
+ * locked with a condition is spent by meeting the condition with the witness of the input
+ * instead.
  *
  * @param txIn The transaction input to validate.
+ * @param txInIndex The index of the input in the transaction.
  * @param transaction The transaction containing the input.
- * @param unspentTxOuts The list of unspent transaction outputs to reference.
+ * @param unspentTxOuts The set of unspent transaction outputs to reference.
+ * @param context The block holding the transaction.
+ * @param blockVersion The consensus version of the block holding the transaction.
  *
  * @returns Whether the transaction input is valid.
  *
@@ -241,17 +515,21 @@ const validateTransaction = ({
  */
 const validateTxIn = ({
 	txIn,
+	txInIndex,
 	transaction,
 	unspentTxOuts,
+	context,
+	blockVersion,
 }: {
 	txIn: TxIn;
+	txInIndex: number;
 	transaction: Transaction;
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
+	context: LockContext;
+	blockVersion: number;
 }): boolean => {
 	// Find the referenced unspent transaction output
-	const referencedUTxOut = unspentTxOuts.find(
-		(uTxO) => uTxO.txOutId === txIn.txOutId && uTxO.txOutIndex === txIn.txOutIndex
-	);
+	const referencedUTxOut = unspentTxOuts.get(txIn);
 
 	// If the referenced unspent transaction output is not found, return false
 	if (!referencedUTxOut) {
@@ -259,18 +537,49 @@ const validateTxIn = ({
 		return false;
 	}
 
-	// Private key of the referenced unspent transaction output
-	const key = ec.keyFromPublic(referencedUTxOut.address, 'hex');
+	const verifySignature: SignatureVerifier = ({ publicKey, signature }) =>
+		verifyTxInSignature({
+			transaction,
+			txInIndex,
+			unspentTxOut: referencedUTxOut,
+			publicKey,
+			signature,
+			blockVersion,
+		});
+
+	// Coinbase outputs may only be spent once they are deep enough
+	if (
+		blockVersion >= MATURITY_BLOCK_VERSION &&
+		!isMatureTxOut({ unspentTxOut: referencedUTxOut, height: context.height })
+	) {
+		console.log(`Immature coinbase output spent by txIn: ${JSON.stringify(txIn)}`);
+		return false;
+	}
+
+	// Evaluate the condition locking the output against the witness
+	if (referencedUTxOut.condition) {
+		const met = evaluateCondition({
+			condition: referencedUTxOut.condition,
+			witness: txIn.witness ?? { signatures: [] },
+			verifySignature,
+			output: referencedUTxOut,
+			context,
+		});
+
+		if (!met) console.log(`Condition not met by txIn: ${JSON.stringify(txIn)}`);
+
+		return met;
+	}
 
-	// Verify the signature
-	return key.verify(transaction.id, txIn.signature);
+	// Verify the signature with the address of the referenced unspent transaction output
+	return verifySignature({ publicKey: referencedUTxOut.address, signature: txIn.signature });
 };
 
 /**
- * Retrieves the amount of a transaction input from the list of unspent transaction outputs.
+ * Retrieves the amount of a transaction input from the set of unspent transaction outputs.
  *
  * @param txIn The transaction input for which to retrieve the amount.
- * @param unspentTxOuts The list of unspent transaction outputs to reference.
+ * @param unspentTxOuts The set of unspent transaction outputs to reference.
  *
  * @returns  The amount of the transaction input.
  */
@@ -279,7 +588,7 @@ const getTxInAmount = ({
 	unspentTxOuts,
 }: {
 	txIn: TxIn;
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
 }): number => {
 	// Find the referenced unspent transaction output
 	const txOut = findUnspentTxOut({
@@ -293,11 +602,11 @@ const getTxInAmount = ({
 };
 
 /**
- * Finds an unspent transaction output from a list of unspent transaction outputs.
+ * Finds an unspent transaction output in a set of unspent transaction outputs.
  *
  * @param txOutId The transaction ID of the transaction output to find.
  * @param txOutIndex The index of the transaction output to find.
- * @param unspentTxOuts The list of unspent transaction outputs to search.
+ * @param unspentTxOuts The set of unspent transaction outputs to search.
  *
  * @returns The unspent transaction output if found, or undefined otherwise.
  */
@@ -308,9 +617,9 @@ const findUnspentTxOut = ({
 }: {
 	txOutId: string;
 	txOutIndex: number;
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
 }): UnspentTxOut | undefined => {
-	return unspentTxOuts.find((uTxO) => uTxO.txOutId === txOutId && uTxO.txOutIndex === txOutIndex);
+	return unspentTxOuts.get({ txOutId, txOutIndex });
 };
 
 /**
@@ -319,11 +628,14 @@ const findUnspentTxOut = ({
  * This function first validates the coinbase transaction by calling `validateCoinbaseTx`.
  * It then checks that there are no duplicate transaction inputs by calling `hasDuplicates`.
  * Finally, it validates each transaction other than the coinbase transaction by calling
- * `validateTransaction`.
+ * `validateTransaction`, in block order, so a transaction may spend the outputs of an earlier
+ * transaction of the block. The coinbase outputs cannot be spent in their own block.
  *
  * @param transactions The block of transactions to validate.
- * @param unspentTxOuts The list of unspent transaction outputs to reference.
+ * @param unspentTxOuts The set of unspent transaction outputs to reference.
  * @param blockIndex The index of the block containing the transactions.
+ * @param blockTimestamp The timestamp of the block containing the transactions.
+ * @param blockVersion The consensus version of the block containing the transactions.
  *
  * @returns {boolean} Whether the block of transactions is valid.
  */
@@ -331,16 +643,23 @@ const validateBlockTransactions = ({
 	transactions,
 	unspentTxOuts,
 	blockIndex,
+	blockTimestamp,
+	blockVersion,
 }: {
 	transactions: Transaction[];
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
 	blockIndex: number;
+	blockTimestamp: number;
+	blockVersion: number;
 }): boolean => {
 	// Get the coinbase transaction
 	const transaction = transactions[0];
 
+	// Fees the coinbase transaction may claim on top of the block reward
+	const fees = getTotalFees({ transactions: transactions.slice(1), unspentTxOuts });
+
 	// Validate the coinbase transaction
-	if (!validateCoinbaseTx({ transaction, blockIndex })) {
+	if (!validateCoinbaseTx({ transaction, blockIndex, blockVersion, fees })) {
 		console.log(`Invalid coinbase transaction: ${JSON.stringify(transaction)}`);
 		return false;
 	}
@@ -354,10 +673,49 @@ const validateBlockTransactions = ({
 		return false;
 	}
 
-	// Validate the rest of the transactions
-	return transactions
-		.slice(1)
-		.every((transaction) => validateTransaction({ transaction, unspentTxOuts }));
+	// Validate the rest of the transactions, each may spend the outputs of the earlier ones
+	const blockTxOuts = new UnspentTxOutOverlay(unspentTxOuts);
+	const context: LockContext = { height: blockIndex, timestamp: blockTimestamp };
+
+	return transactions.slice(1).every((transaction) => {
+		if (
+			!validateTransaction({ transaction, unspentTxOuts: blockTxOuts, context, blockVersion })
+		)
+			return false;
+
+		updateUnspentTxOuts({
+			transactions: [transaction],
+			unspentTxOuts: blockTxOuts,
+			height: blockIndex,
+			timestamp: blockTimestamp,
+		});
+		return true;
+	});
+};
+
+/**
+ * Sums the fees of transactions in the order they are included in a block, each of which may
+ * spend the outputs of the earlier ones.
+ *
+ * @param transactions The transactions, without the coinbase transaction.
+ * @param unspentTxOuts The set of unspent transaction outputs before the transactions.
+ *
+ * @returns The total fees.
+ */
+const getTotalFees = ({
+	transactions,
+	unspentTxOuts,
+}: {
+	transactions: Transaction[];
+	unspentTxOuts: UnspentTxOutSet;
+}): number => {
+	const blockTxOuts = new UnspentTxOutOverlay(unspentTxOuts);
+
+	return transactions.reduce((sum, transaction) => {
+		const fee = getTransactionFee({ transaction, unspentTxOuts: blockTxOuts });
+		updateUnspentTxOuts({ transactions: [transaction], unspentTxOuts: blockTxOuts });
+		return sum + fee;
+	}, 0);
 };
 
 /**
@@ -367,20 +725,29 @@ const validateBlockTransactions = ({
  * - It is the first transaction in the block.
  * - It has only one transaction input.
  * - The transaction input has the same index as the block index.
+ * - From version 5 onwards, the transaction input references no transaction, so the outputs
+ *   of the coinbase transaction can be told apart to apply the coinbase maturity.
  * - It has only one transaction output.
- * - The transaction output has the correct amount of tokens.
+ * - The transaction output pays at most the block reward of the emission schedule at the block
+ *   index plus the fees of the other transactions in the block.
  *
  * @param transaction The coinbase transaction to validate.
  * @param blockIndex The index of the block containing the transaction.
+ * @param blockVersion The consensus version of the block containing the transaction.
+ * @param fees The total fees of the other transactions in the block.
  *
  * @returns {boolean} Whether the coinbase transaction is valid.
  */
 const validateCoinbaseTx = ({
 	transaction,
 	blockIndex,
+	blockVersion,
+	fees,
 }: {
 	transaction: Transaction;
 	blockIndex: number;
+	blockVersion: number;
+	fees: number;
 }): boolean => {
 	// Check if the transaction is the first transaction in the block
 	if (!transaction) {
@@ -389,7 +756,7 @@ const validateCoinbaseTx = ({
 	}
 
 	// Check if the transaction has the correct ID
-	if (getTransactionId({ transaction }) !== transaction.id) {
+	if (getTransactionId({ transaction, blockVersion }) !== transaction.id) {
 		console.log(`Invalid coinbase transaction ID: ${transaction.id}`);
 		return false;
 	}
@@ -400,8 +767,19 @@ const validateCoinbaseTx = ({
 		return false;
 	}
 
-	// Check if the transaction has only one output and the amount is correct
-	if (transaction.txOuts.length !== 1 || transaction.txOuts[0].amount !== COINBASE_AMOUNT) {
+	// Check if the transaction input references no transaction
+	if (blockVersion >= MATURITY_BLOCK_VERSION && !isCoinbaseTransaction({ transaction })) {
+		console.log('Invalid coinbase transaction input reference.');
+		return false;
+	}
+
+	// Check if the transaction has only one output and the amount claims at most the reward and fees
+	if (
+		transaction.txOuts.length !== 1 ||
+		typeof transaction.txOuts[0].amount !== 'number' ||
+		!(transaction.txOuts[0].amount >= 0) ||
+		transaction.txOuts[0].amount > getBlockReward({ blockIndex }) + fees
+	) {
 		console.log('Invalid coinbase transaction outputs.');
 		return false;
 	}
@@ -409,6 +787,41 @@ const validateCoinbaseTx = ({
 	return true;
 };
 
+/**
+ * Checks whether a transaction is a coinbase transaction: it has a single input, referencing
+ * no transaction.
+ *
+ * @param transaction The transaction to check.
+ *
+ * @returns Whether the transaction is a coinbase transaction.
+ */
+const isCoinbaseTransaction = ({ transaction }: { transaction: Transaction }): boolean => {
+	return transaction.txIns.length === 1 && transaction.txIns[0].txOutId === '';
+};
+
+/**
+ * Checks whether an unspent transaction output may be spent in a block, as far as the coinbase
+ * maturity goes: outputs of a coinbase transaction must be confirmed by at least as many blocks
+ * as the coinbase maturity of the network, so they do not vanish with a reorganization along
+ * with the transactions spending them.
+ *
+ * @param unspentTxOut The unspent transaction output.
+ * @param height The index of the block spending the output.
+ *
+ * @returns Whether the output is mature.
+ */
+const isMatureTxOut = ({
+	unspentTxOut,
+	height,
+}: {
+	unspentTxOut: UnspentTxOut;
+	height: number;
+}): boolean => {
+	if (!unspentTxOut.coinbase || unspentTxOut.height === undefined) return true;
+
+	return height - unspentTxOut.height >= getChainParams().coinbaseMaturity;
+};
+
 /**
  * Checks if there are any duplicate transaction inputs in the given array.
  *
@@ -422,7 +835,7 @@ const hasDuplicates = ({ txIns }: { txIns: TxIn[] }): boolean => {
 
 	return txIns.some((txIn) => {
 		// Transaction ID
-		const id = `${txIn.txOutId}${txIn.txOutIndex}`;
+		const id = getOutpointKey(txIn);
 
 		// Check if the transaction ID is already in the set
 		if (seen.has(id)) return true;
@@ -435,51 +848,112 @@ const hasDuplicates = ({ txIns }: { txIns: TxIn[] }): boolean => {
 };
 
 /**
- * Updates the list of unspent transaction outputs (UTxOs) by adding new transaction outputs
+ * Updates the set of unspent transaction outputs (UTxOs) by adding new transaction outputs
  * from the given array of transactions and removing any transaction outputs that are
  * consumed by the transactions.
  *
+ * The set is updated in place, so the transactions must be validated beforehand.
+ *
  * @param transactions The array of transactions to process.
- * @param unspentTxOuts The list of unspent transaction outputs to update.
+ * @param unspentTxOuts The set of unspent transaction outputs to update.
+ * @param height The index of the block confirming the transactions, unset if unconfirmed.
+ * @param timestamp The timestamp of the block confirming the transactions.
  *
- * @returns The updated list of unspent transaction outputs.
+ * @returns The updated set of unspent transaction outputs, the outputs of coinbase
+ * transactions flagged as such.
  */
 const updateUnspentTxOuts = ({
 	transactions,
 	unspentTxOuts,
+	height,
+	timestamp,
 }: {
 	transactions: Transaction[];
-	unspentTxOuts: UnspentTxOut[];
-}): UnspentTxOut[] => {
-	// Get the list of UTxOs
-	const newUnspentTxOuts = transactions.flatMap((transaction, index) =>
-		transaction.txOuts.map(
-			(txOut, idx) =>
+	unspentTxOuts: UnspentTxOutSet;
+	height?: number;
+	timestamp?: number;
+}): UnspentTxOutSet => {
+	// One transaction at a time, as a transaction may spend the outputs of an earlier one
+	transactions.forEach((transaction) => {
+		const coinbase = isCoinbaseTransaction({ transaction }) || undefined;
+
+		// Remove the consumed TxOuts
+		transaction.txIns.forEach((txIn) => unspentTxOuts.delete(txIn));
+
+		// Add the new UTxOs
+		transaction.txOuts.forEach((txOut, idx) =>
+			unspentTxOuts.add(
 				new UnspentTxOut({
 					txOutId: transaction.id,
 					txOutIndex: idx,
 					address: txOut.address,
 					amount: txOut.amount,
+					condition: txOut.condition,
+					height,
+					timestamp,
+					coinbase,
 				})
+			)
+		);
+	});
+
+	return unspentTxOuts;
+};
+
+/**
+ * Lists the unspent transaction outputs consumed by the given transactions.
+ *
+ * This is the undo data of a block: together with the block's transactions it is enough to
+ * revert the block's changes to the set of unspent transaction outputs.
+ *
+ * @param transactions The array of transactions to process.
+ * @param unspentTxOuts The set of unspent transaction outputs the transactions spend from.
+ *
+ * @returns The spent transaction outputs, in the order they are spent.
+ */
+const getSpentTxOuts = ({
+	transactions,
+	unspentTxOuts,
+}: {
+	transactions: Transaction[];
+	unspentTxOuts: UnspentTxOutSet;
+}): UnspentTxOut[] => {
+	return transactions
+		.flatMap((transaction) => transaction.txIns)
+		.map((txIn) => unspentTxOuts.get(txIn))
+		.filter((uTxO): uTxO is UnspentTxOut => uTxO !== undefined);
+};
+
+/**
+ * Reverts the changes made by `updateUnspentTxOuts` to a set of unspent transaction outputs,
+ * removing the outputs created by the transactions and restoring the outputs they spent.
+ *
+ * @param transactions The array of transactions to revert.
+ * @param spentTxOuts The transaction outputs spent by the transactions.
+ * @param unspentTxOuts The set of unspent transaction outputs to update.
+ *
+ * @returns The updated set of unspent transaction outputs.
+ */
+const revertUnspentTxOuts = ({
+	transactions,
+	spentTxOuts,
+	unspentTxOuts,
+}: {
+	transactions: Transaction[];
+	spentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
+}): UnspentTxOutSet => {
+	// Remove the TxOuts created by the transactions
+	transactions.forEach((transaction) =>
+		transaction.txOuts.forEach((txOut, idx) =>
+			unspentTxOuts.delete({ txOutId: transaction.id, txOutIndex: idx })
 		)
 	);
 
-	// Get the list of consumed TxOuts
-	const consumedTxOuts = transactions.flatMap((transaction) =>
-		transaction.txIns.map((txIn) => ({ txOutId: txIn.txOutId, txOutIndex: txIn.txOutIndex }))
-	);
+	// Restore the spent UTxOs
+	spentTxOuts.forEach((uTxO) => unspentTxOuts.add(new UnspentTxOut(uTxO)));
 
-	// Updated the list of UTxOs
-	return [
-		...unspentTxOuts.filter(
-			(uTxO) =>
-				!consumedTxOuts.some(
-					(txOut) =>
-						txOut.txOutId === uTxO.txOutId && txOut.txOutIndex === uTxO.txOutIndex
-				)
-		),
-		...newUnspentTxOuts,
-	];
+	return unspentTxOuts;
 };
 
 /**
@@ -497,17 +971,23 @@ const getPublicKey = ({ privateKey }: { privateKey: string }): string => {
  * Generates a coinbase transaction, which is a special transaction that is the first transaction
  * in a block and is used to reward the miner for mining the block.
  *
+ * The reward follows the emission schedule of the network at the block index, and the miner
+ * also collects the fees of the other transactions in the block.
+ *
  * @param address The address of the miner who mined the block.
  * @param blockIndex The index of the block containing the transaction.
+ * @param fees The total fees of the other transactions in the block.
  *
  * @returns The generated coinbase transaction.
  */
 const getCoinbaseTransaction = ({
 	address,
 	blockIndex,
+	fees = 0,
 }: {
 	address: string;
 	blockIndex: number;
+	fees?: number;
 }): Transaction => {
 	// Create the coinbase transaction
 	const transaction = new Transaction();
@@ -522,7 +1002,7 @@ const getCoinbaseTransaction = ({
 	transaction.txIns = [txIn];
 
 	// Add the coinbase transaction output to the transaction
-	transaction.txOuts = [new TxOut({ address, amount: COINBASE_AMOUNT })];
+	transaction.txOuts = [new TxOut({ address, amount: getBlockReward({ blockIndex }) + fees })];
 
 	// Set the transaction ID
 	transaction.id = getTransactionId({ transaction });
@@ -606,6 +1086,12 @@ const validateTransactionStructure = ({ transaction }: { transaction: Transactio
 		return false;
 	}
 
+	// Check if the replace-by-fee signal, when set, is a boolean
+	if (transaction.replaceable !== undefined && typeof transaction.replaceable !== 'boolean') {
+		console.log('Invalid replaceable type in transaction');
+		return false;
+	}
+
 	return true;
 };
 
@@ -618,6 +1104,7 @@ const validateTransactionStructure = ({ transaction }: { transaction: Transactio
  * - The signature is of type string.
  * - The txOutId is of type string.
  * - The txOutIndex is of type number.
+ * - The witness, when set, holds signatures and an optional hex preimage.
  *
  * @param txIn The transaction input to validate.
  *
@@ -648,6 +1135,15 @@ const validateTxInStructure = ({ txIn }: { txIn: TxIn }): boolean => {
 		return false;
 	}
 
+	// Check if the witness, when set, has a valid structure
+	const witnessError =
+		txIn.witness === undefined ? null : findWitnessStructureError({ witness: txIn.witness });
+
+	if (witnessError) {
+		console.log(`${witnessError} in txIn`);
+		return false;
+	}
+
 	return true;
 };
 
@@ -656,8 +1152,9 @@ const validateTxInStructure = ({ txIn }: { txIn: TxIn }): boolean => {
  *
  * This function ensures that the given transaction output (txOut) is not null or undefined
  * and that its fields have the correct types. Specifically, it validates that:
- * - The address is of type string and is a valid address.
- * - The amount is of type number.
+ * - The address is of type string and is a valid address, or the address of its condition
+ *   when the output is locked with one.
+ * - The amount is a finite number, not negative.
  *
  * @param txOut The transaction output to validate.
  *
@@ -676,8 +1173,23 @@ const validateTxOutStructure = ({ txOut }: { txOut: TxOut }): boolean => {
 		return false;
 	}
 
-	// Check if address is a valid address
-	if (!validateAddress({ address: txOut.address })) {
+	// Check if the condition, when set, is valid and the output is sent to its address
+	if (txOut.condition !== undefined) {
+		const conditionError = findConditionStructureError({ condition: txOut.condition });
+
+		if (conditionError) {
+			console.log(`Invalid condition in txOut: ${conditionError}`);
+			return false;
+		}
+
+		if (txOut.address !== getConditionAddress({ condition: txOut.condition })) {
+			console.log('TxOut address does not match its condition');
+			return false;
+		}
+	}
+
+	// Check if address is a valid address, unless the output is locked with a condition
+	if (txOut.condition === undefined && !validateAddress({ address: txOut.address })) {
 		console.log('Invalid TxOut address');
 		return false;
 	}
@@ -688,12 +1200,21 @@ const validateTxOutStructure = ({ txOut }: { txOut: TxOut }): boolean => {
 		return false;
 	}
 
+	// Check if amount is not negative, a negative output would raise the fee out of thin air
+	if (!Number.isFinite(txOut.amount) || txOut.amount < 0) {
+		console.log('Invalid amount in txOut');
+		return false;
+	}
+
 	return true;
 };
 
 export {
 	processTransactions,
+	getSpentTxOuts,
+	revertUnspentTxOuts,
 	signTxIn,
+	signTxInWitness,
 	getTransactionId,
 	UnspentTxOut,
 	TxIn,
@@ -701,6 +1222,10 @@ export {
 	Transaction,
 	getPublicKey,
 	getCoinbaseTransaction,
+	getTransactionFee,
+	getTotalFees,
+	getTransactionSize,
 	validateAddress,
 	validateTransaction,
+	isMatureTxOut,
 };
@@ -1,56 +1,579 @@
-import { Transaction, TxIn, UnspentTxOut, validateTransaction } from './transaction';
+import {
+	getTransactionFee,
+	getTransactionSize,
+	Transaction,
+	TxIn,
+	UnspentTxOut,
+	validateTransaction,
+} from './transaction';
+import { getOutpointKey, UnspentTxOutOverlay, UnspentTxOutSet } from './unspentTxOutSet';
+import { LockContext } from './conditions';
 
-let transactionPool: Transaction[] = [];
+const DEFAULT_MAX_POOL_SIZE = 5000000; // Largest total size of the pooled transactions, in bytes
+const DEFAULT_MAX_POOL_COUNT = 10000; // Largest number of pooled transactions
+const DEFAULT_EXPIRY = 14 * 24 * 60 * 60 * 1000; // Time a transaction stays pooled, in milliseconds
+const MAX_ANCESTORS = 25; // Largest number of pooled transactions a pooled transaction depends on
+const MIN_RELAY_FEE_RATE = 0.001; // Fee per byte a replacement pays on top of the fees it replaces
+
+// Lower bounds of the fee rate ranges of the pool histogram, in Satoshis per byte
+const FEE_RATE_BUCKETS = [0, 0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1];
+
+interface PoolEntry {
+	transaction: Transaction; // The pooled transaction
+	fee: number; // Value of the inputs not spent by the outputs
+	size: number; // Size of the transaction, in bytes
+	feeRate: number; // Fee paid per byte
+	addedAt: number; // Time the transaction entered the pool
+	local: boolean; // Whether the transaction was sent from the wallet of the node
+	lastBroadcastAt: number; // Time the transaction was last sent to the peers by the node
+	rebroadcasts: number; // Number of times the transaction was sent again while unconfirmed
+}
+
+interface TransactionPoolEntry {
+	id: string; // ID of the transaction
+	fee: number; // Value of the inputs not spent by the outputs
+	size: number; // Size of the transaction, in bytes
+	feeRate: number; // Fee paid per byte
+	addedAt: number; // Time the transaction entered the pool
+	age: number; // Time since the transaction entered the pool, in milliseconds
+	expiresAt: number; // Time the transaction is dropped if still unconfirmed
+	local: boolean; // Whether the transaction was sent from the wallet of the node
+	rebroadcasts: number; // Number of times the transaction was sent again while unconfirmed
+	replaceable: boolean; // Whether a conflicting transaction paying more may replace it
+	depends: string[]; // IDs of the pooled transactions whose outputs it spends
+	packageFeeRate: number; // Fee rate of the transaction together with its pooled ancestors
+}
+
+interface FeeRateBucket {
+	minFeeRate: number; // Lowest fee rate of the range
+	maxFeeRate: number | null; // Fee rate the range stops before, null for the last range
+	count: number; // Number of pooled transactions in the range
+	size: number; // Total size of the pooled transactions in the range, in bytes
+}
+
+interface TransactionPoolStats {
+	count: number; // Number of pooled transactions
+	size: number; // Total size of the pooled transactions, in bytes
+	maxCount: number; // Largest number of pooled transactions
+	maxSize: number; // Largest total size of the pooled transactions, in bytes
+	totalFees: number; // Fees paid by the pooled transactions
+	minFeeRate: number; // Fee rate a new transaction must exceed to enter the pool
+	feeHistogram: FeeRateBucket[]; // Pooled transactions by fee rate range
+}
+
+let transactionPool: PoolEntry[] = [];
+
+let maxPoolSize = DEFAULT_MAX_POOL_SIZE;
+let maxPoolCount = DEFAULT_MAX_POOL_COUNT;
+let expiry = DEFAULT_EXPIRY;
+
+/**
+ * Sets the limits of the transaction pool. Once either size limit is reached, transactions with
+ * the lowest fee rate are evicted to make room for ones paying more, and transactions still
+ * unconfirmed after the expiry are dropped.
+ *
+ * @param maxSize The largest total size of the pooled transactions, in bytes.
+ * @param maxCount The largest number of pooled transactions.
+ * @param expiry The time a transaction stays pooled, in milliseconds.
+ */
+const initTransactionPool = ({
+	maxSize,
+	maxCount,
+	expiry: poolExpiry,
+}: {
+	maxSize?: number;
+	maxCount?: number;
+	expiry?: number;
+}) => {
+	if (maxSize !== undefined && Number.isInteger(maxSize) && maxSize > 0) maxPoolSize = maxSize;
+	if (maxCount !== undefined && Number.isInteger(maxCount) && maxCount > 0)
+		maxPoolCount = maxCount;
+	if (poolExpiry !== undefined && Number.isFinite(poolExpiry) && poolExpiry > 0)
+		expiry = poolExpiry;
+};
 
 const getTransactionPool = () => {
 	// Deep clone the transactionPool using JSON serialization
-	return JSON.parse(JSON.stringify(transactionPool));
+	return JSON.parse(JSON.stringify(transactionPool.map((entry) => entry.transaction)));
 };
 
-const addToTransactionPool = (transaction: Transaction, unspentTxOuts: UnspentTxOut[]) => {
-	if (!validateTransaction({ transaction, unspentTxOuts })) {
-		throw new Error('Trying to add invalid tx to pool');
+/**
+ * Selects pooled transactions for a block by package fee rate, highest first: a transaction
+ * comes with its unconfirmed ancestors, and the package pays the fee rate of all of them
+ * together, so a child paying a high fee pulls a parent paying a low one into the block.
+ *
+ * Ancestors always come before their descendants. Packages with the same fee rate keep the
+ * order they arrived in, and those that no longer fit are skipped for smaller ones.
+ *
+ * @param maxSize The largest total size of the selected transactions, in bytes.
+ *
+ * @returns The selected transactions.
+ */
+const getTransactionsByFeeRate = ({
+	maxSize = Infinity,
+}: { maxSize?: number } = {}): Transaction[] => {
+	const entriesById = getEntriesById();
+	const packages = transactionPool.map((entry) => {
+		const entries = [...getAncestors(entry, entriesById), entry];
+		return { entries, feeRate: getPackageFeeRate(entries) };
+	});
+
+	const selected: Set<PoolEntry> = new Set();
+	let size = 0;
+
+	for (const { entries } of packages.sort((a, b) => b.feeRate - a.feeRate)) {
+		const missing = entries.filter((entry) => !selected.has(entry));
+		const packageSize = missing.reduce((sum, entry) => sum + entry.size, 0);
+
+		if (missing.length === 0 || size + packageSize > maxSize) continue;
+
+		missing.forEach((entry) => selected.add(entry));
+		size += packageSize;
+	}
+
+	return JSON.parse(JSON.stringify(Array.from(selected).map((entry) => entry.transaction)));
+};
+
+const sortByFeeRate = (entries: PoolEntry[]): PoolEntry[] => {
+	return [...entries].sort((a, b) => b.feeRate - a.feeRate);
+};
+
+const getPackageFeeRate = (entries: PoolEntry[]): number => {
+	const fee = entries.reduce((sum, entry) => sum + entry.fee, 0);
+	const size = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+	return fee / size;
+};
+
+const getEntriesById = (): Map<string, PoolEntry> => {
+	return new Map(transactionPool.map((entry) => [entry.transaction.id, entry]));
+};
+
+/**
+ * Finds the pooled transactions a transaction depends on, directly or through other pooled
+ * transactions.
+ *
+ * @param entry The transaction.
+ * @param entriesById The pooled transactions by ID.
+ *
+ * @returns The ancestors, in pool order so parents come before their children.
+ */
+const getAncestors = (entry: PoolEntry, entriesById: Map<string, PoolEntry>): PoolEntry[] => {
+	const ancestors: Set<PoolEntry> = new Set();
+	const pending = [entry];
+
+	while (pending.length > 0) {
+		for (const txIn of pending.pop()!.transaction.txIns) {
+			const parent = entriesById.get(txIn.txOutId);
+
+			if (parent && !ancestors.has(parent)) {
+				ancestors.add(parent);
+				pending.push(parent);
+			}
+		}
+	}
+
+	return transactionPool.filter((poolEntry) => ancestors.has(poolEntry));
+};
+
+/**
+ * Finds the pooled transactions spending the outputs of some transactions, directly or through
+ * other pooled transactions. The pool is in dependency order, a child always entering it after
+ * its parents, so a single pass finds them all.
+ *
+ * @param entries The transactions.
+ *
+ * @returns The descendants, not including the given transactions.
+ */
+const getDescendants = (entries: PoolEntry[]): PoolEntry[] => {
+	const ids = new Set(entries.map((entry) => entry.transaction.id));
+	const descendants: PoolEntry[] = [];
+
+	for (const entry of transactionPool) {
+		if (ids.has(entry.transaction.id)) continue;
+
+		if (entry.transaction.txIns.some((txIn) => ids.has(txIn.txOutId))) {
+			ids.add(entry.transaction.id);
+			descendants.push(entry);
+		}
+	}
+
+	return descendants;
+};
+
+/**
+ * Removes transactions from the pool together with their descendants, which can no longer be
+ * mined without them.
+ *
+ * @param entries The transactions to remove.
+ * @param reason The reason logged for the removal.
+ *
+ * @returns The removed transactions.
+ */
+const removeWithDescendants = (entries: PoolEntry[], reason: string): PoolEntry[] => {
+	if (entries.length === 0) return [];
+
+	const removed = [...entries, ...getDescendants(entries)];
+
+	console.log(
+		`${reason} the following transactions from txPool:`,
+		JSON.stringify(removed.map((entry) => entry.transaction.id))
+	);
+	transactionPool = transactionPool.filter((entry) => !removed.includes(entry));
+
+	return removed;
+};
+
+/**
+ * Builds the set of outputs a transaction entering the pool may spend: the confirmed unspent
+ * transaction outputs and the outputs of the pooled transactions.
+ *
+ * @param unspentTxOuts The set of unspent transaction outputs.
+ *
+ * @returns The outputs spendable by a pool transaction.
+ */
+const getPoolTxOuts = (unspentTxOuts: UnspentTxOutSet): UnspentTxOutSet => {
+	return new UnspentTxOutOverlay(
+		unspentTxOuts,
+		transactionPool.flatMap(({ transaction }) =>
+			transaction.txOuts.map(
+				(txOut, txOutIndex) =>
+					new UnspentTxOut({
+						txOutId: transaction.id,
+						txOutIndex,
+						address: txOut.address,
+						amount: txOut.amount,
+						condition: txOut.condition,
+					})
+			)
+		)
+	);
+};
+
+/**
+ * Lists the pooled transactions with their fee rate, age and rebroadcasts, oldest first.
+ *
+ * @returns The pool entries.
+ */
+const getTransactionPoolEntries = (): TransactionPoolEntry[] => {
+	const now = Date.now();
+	const entriesById = getEntriesById();
+
+	return transactionPool.map((entry) => ({
+		id: entry.transaction.id,
+		fee: entry.fee,
+		size: entry.size,
+		feeRate: entry.feeRate,
+		addedAt: entry.addedAt,
+		age: now - entry.addedAt,
+		expiresAt: entry.addedAt + expiry,
+		local: entry.local,
+		rebroadcasts: entry.rebroadcasts,
+		replaceable: entry.transaction.replaceable === true,
+		depends: Array.from(
+			new Set(
+				entry.transaction.txIns
+					.map((txIn) => txIn.txOutId)
+					.filter((txOutId) => entriesById.has(txOutId))
+			)
+		),
+		packageFeeRate: getPackageFeeRate([...getAncestors(entry, entriesById), entry]),
+	}));
+};
+
+/**
+ * Adds a transaction to the pool. It may spend the outputs of pooled transactions, up to a chain
+ * of `MAX_ANCESTORS` unconfirmed transactions, and is dropped with them if they leave the pool.
+ *
+ * A transaction spending outputs already spent in the pool replaces the conflicting
+ * transactions and their descendants, if every conflicting transaction signals
+ * replace-by-fee and the new one pays for its own relay on top of the fees of all the
+ * transactions it replaces, at a higher fee rate than each of them.
+ *
+ * @param transaction The transaction.
+ * @param unspentTxOuts The set of unspent transaction outputs it spends.
+ * @param context The next block, which the time locks of the spent outputs are checked against.
+ * @param local Whether the transaction was sent from the wallet of the node, which rebroadcasts
+ * it until it is confirmed.
+ *
+ * @throws {Error} If the transaction is invalid, depends on too many pooled transactions,
+ * conflicts with the pool without replacing it, or pays too little to enter a full pool.
+ */
+const addToTransactionPool = (
+	transaction: Transaction,
+	unspentTxOuts: UnspentTxOutSet,
+	{ context, local = false }: { context: LockContext; local?: boolean }
+) => {
+	if (transactionPool.some((entry) => entry.transaction.id === transaction.id)) {
+		throw new Error('Transaction is already in the pool');
 	}
 
-	if (!isValidTxForPool(transaction, transactionPool)) {
+	const poolTxOuts = getPoolTxOuts(unspentTxOuts);
+
+	if (!validateTransaction({ transaction, unspentTxOuts: poolTxOuts, context })) {
 		throw new Error('Trying to add invalid tx to pool');
 	}
 
+	const fee = getTransactionFee({ transaction, unspentTxOuts: poolTxOuts });
+	const size = getTransactionSize({ transaction });
+	const addedAt = Date.now();
+	const entry: PoolEntry = {
+		transaction,
+		fee,
+		size,
+		feeRate: fee / size,
+		addedAt,
+		local,
+		lastBroadcastAt: addedAt,
+		rebroadcasts: 0,
+	};
+
+	if (size > maxPoolSize) throw new Error('Transaction is larger than the transaction pool');
+
+	if (getAncestors(entry, getEntriesById()).length > MAX_ANCESTORS)
+		throw new Error(`Transaction depends on more than ${MAX_ANCESTORS} pooled transactions`);
+
+	const replaced = findReplacedTransactions(entry);
+
+	const evicted = findEvictions(entry, replaced);
+	if (!evicted) throw new Error('Transaction fee rate too low, the transaction pool is full');
+
+	removeWithDescendants(replaced, 'Replacing');
+	removeWithDescendants(evicted, 'Evicting');
+
 	console.log('Adding to txPool:', JSON.stringify(transaction));
-	transactionPool.push(transaction);
+	transactionPool.push(entry);
 };
 
-const hasTxIn = (txIn: TxIn, unspentTxOuts: UnspentTxOut[]): boolean => {
-	return unspentTxOuts.some(
-		(uTxO) => uTxO.txOutId === txIn.txOutId && uTxO.txOutIndex === txIn.txOutIndex
+/**
+ * Finds the pooled transactions a new transaction replaces: those spending the same outputs,
+ * and their descendants.
+ *
+ * @param entry The new transaction.
+ *
+ * @returns The replaced transactions, empty if the new transaction conflicts with none.
+ *
+ * @throws {Error} If a conflicting transaction does not signal replace-by-fee, or the new
+ * transaction does not pay the fees of the transactions it replaces plus the minimum relay fee
+ * of its size, or a fee rate higher than each of them. Without a minimum increase, the same
+ * transaction could be replaced and relayed over and over for a negligible fee.
+ */
+const findReplacedTransactions = (entry: PoolEntry): PoolEntry[] => {
+	const outpoints = new Set(entry.transaction.txIns.map(getOutpointKey));
+	const conflicts = transactionPool.filter((poolEntry) =>
+		poolEntry.transaction.txIns.some((txIn) => outpoints.has(getOutpointKey(txIn)))
 	);
+
+	if (conflicts.length === 0) return [];
+
+	if (conflicts.some((conflict) => conflict.transaction.replaceable !== true))
+		throw new Error(
+			'Transaction conflicts with a pooled transaction not signaling replace-by-fee'
+		);
+
+	const replaced = [...conflicts, ...getDescendants(conflicts)];
+	const replacedIds = new Set(replaced.map((replacedEntry) => replacedEntry.transaction.id));
+
+	if (entry.transaction.txIns.some((txIn) => replacedIds.has(txIn.txOutId)))
+		throw new Error('Transaction spends an output of a transaction it replaces');
+
+	const replacedFees = replaced.reduce((sum, replacedEntry) => sum + replacedEntry.fee, 0);
+	const minFee = replacedFees + MIN_RELAY_FEE_RATE * entry.size;
+
+	if (entry.fee <= minFee)
+		throw new Error(
+			`Replacement fee must exceed ${minFee}, the fees of the transactions it replaces plus the minimum relay fee`
+		);
+
+	const maxReplacedFeeRate = Math.max(...replaced.map((replacedEntry) => replacedEntry.feeRate));
+
+	if (entry.feeRate <= maxReplacedFeeRate)
+		throw new Error(
+			`Replacement fee rate must exceed ${maxReplacedFeeRate}, the fee rate of the transactions it replaces`
+		);
+
+	return replaced;
 };
 
-const updateTransactionPool = (unspentTxOuts: UnspentTxOut[]) => {
-	const invalidTxs = transactionPool.filter((tx) =>
-		tx.txIns.some((txIn) => !hasTxIn(txIn, unspentTxOuts))
+/**
+ * Finds the pooled transactions to evict for a new transaction to fit within the pool limits,
+ * lowest fee rate first and, among equal fee rates, the most recent first. An evicted
+ * transaction takes its descendants with it, and the ancestors of the new transaction are
+ * never evicted.
+ *
+ * @param entry The new transaction.
+ * @param replaced The transactions the new transaction replaces, leaving the pool anyway.
+ *
+ * @returns The transactions to evict, or null if the new transaction does not pay a higher fee
+ * rate than the transactions it would evict.
+ */
+const findEvictions = (entry: PoolEntry, replaced: PoolEntry[]): PoolEntry[] | null => {
+	const ancestors = getAncestors(entry, getEntriesById());
+	const remaining = transactionPool.filter((poolEntry) => !replaced.includes(poolEntry));
+	const candidates = sortByFeeRate(remaining)
+		.reverse()
+		.filter((candidate) => !ancestors.includes(candidate));
+	const evicted: Set<PoolEntry> = new Set();
+
+	let count = remaining.length + 1;
+	let size = remaining.reduce((sum, poolEntry) => sum + poolEntry.size, 0) + entry.size;
+
+	for (const candidate of candidates) {
+		if (count <= maxPoolCount && size <= maxPoolSize) break;
+		if (evicted.has(candidate)) continue;
+		if (candidate.feeRate >= entry.feeRate) return null;
+
+		for (const evictedEntry of [candidate, ...getDescendants([candidate])]) {
+			if (evicted.has(evictedEntry) || replaced.includes(evictedEntry)) continue;
+
+			evicted.add(evictedEntry);
+			count--;
+			size -= evictedEntry.size;
+		}
+	}
+
+	return count <= maxPoolCount && size <= maxPoolSize ? Array.from(evicted) : null;
+};
+
+const getPoolSize = (): number => {
+	return transactionPool.reduce((sum, entry) => sum + entry.size, 0);
+};
+
+/**
+ * Reports the size of the transaction pool and the fee rates it pays.
+ *
+ * @returns The transaction pool statistics.
+ */
+const getTransactionPoolStats = (): TransactionPoolStats => {
+	const size = getPoolSize();
+	const isFull = transactionPool.length >= maxPoolCount || size >= maxPoolSize;
+
+	const feeHistogram: FeeRateBucket[] = FEE_RATE_BUCKETS.map((minFeeRate, index) => {
+		const maxFeeRate = index + 1 < FEE_RATE_BUCKETS.length ? FEE_RATE_BUCKETS[index + 1] : null;
+		const entries = transactionPool.filter(
+			(entry) =>
+				entry.feeRate >= minFeeRate && (maxFeeRate === null || entry.feeRate < maxFeeRate)
+		);
+
+		return {
+			minFeeRate,
+			maxFeeRate,
+			count: entries.length,
+			size: entries.reduce((sum, entry) => sum + entry.size, 0),
+		};
+	});
+
+	return {
+		count: transactionPool.length,
+		size,
+		maxCount: maxPoolCount,
+		maxSize: maxPoolSize,
+		totalFees: transactionPool.reduce((sum, entry) => sum + entry.fee, 0),
+		minFeeRate: isFull ? Math.min(...transactionPool.map((entry) => entry.feeRate)) : 0,
+		feeHistogram,
+	};
+};
+
+/**
+ * Drops the transactions that stayed in the pool longer than the expiry, and their descendants.
+ *
+ * @returns The dropped transactions.
+ */
+const expireTransactions = (): Transaction[] => {
+	const now = Date.now();
+	const expired = transactionPool.filter((entry) => now - entry.addedAt >= expiry);
+
+	return removeWithDescendants(expired, 'Expiring').map((entry) => entry.transaction);
+};
+
+/**
+ * Retrieves the transactions sent from the wallet of the node that are still unconfirmed and
+ * were last sent to the peers at least an interval ago, and records them as rebroadcast.
+ *
+ * @param interval The time between two broadcasts of a transaction, in milliseconds.
+ *
+ * @returns The transactions to rebroadcast.
+ */
+const takeTransactionsToRebroadcast = ({ interval }: { interval: number }): Transaction[] => {
+	const now = Date.now();
+	const due = transactionPool.filter(
+		(entry) => entry.local && now - entry.lastBroadcastAt >= interval
 	);
 
-	if (invalidTxs.length > 0) {
-		console.log('Removing the following transactions from txPool:', JSON.stringify(invalidTxs));
-		transactionPool = transactionPool.filter((tx) => !invalidTxs.includes(tx));
+	for (const entry of due) {
+		entry.lastBroadcastAt = now;
+		entry.rebroadcasts++;
 	}
+
+	return JSON.parse(JSON.stringify(due.map((entry) => entry.transaction)));
 };
 
-const getTxPoolIns = (aTransactionPool: Transaction[]): TxIn[] => {
-	return aTransactionPool.flatMap((tx) => tx.txIns);
+const hasTxIn = (txIn: TxIn, unspentTxOuts: UnspentTxOutSet): boolean => {
+	return unspentTxOuts.has(txIn);
 };
 
-const isValidTxForPool = (tx: Transaction, aTransactionPool: Transaction[]): boolean => {
-	const txPoolIns: TxIn[] = getTxPoolIns(aTransactionPool);
+/**
+ * Checks whether a pooled transaction is still valid in the next block: its inputs are all
+ * spendable and, when it spends outputs locked with a condition or coinbase outputs, the
+ * conditions are still met and the coinbase outputs still mature, as a time lock may no longer
+ * be, or a coinbase output no longer deep enough, after a reorganization.
+ */
+const isValidInNextBlock = (
+	entry: PoolEntry,
+	poolTxOuts: UnspentTxOutSet,
+	context: LockContext
+): boolean => {
+	const { transaction } = entry;
 
-	return tx.txIns.every(
-		(txIn) =>
-			!txPoolIns.some(
-				(txPoolIn) =>
-					txIn.txOutIndex === txPoolIn.txOutIndex && txIn.txOutId === txPoolIn.txOutId
-			)
+	if (transaction.txIns.some((txIn) => !hasTxIn(txIn, poolTxOuts))) return false;
+
+	return (
+		transaction.txIns.every((txIn) => {
+			const uTxO = poolTxOuts.get(txIn)!;
+			return !uTxO.condition && !uTxO.coinbase;
+		}) || validateTransaction({ transaction, unspentTxOuts: poolTxOuts, context })
 	);
 };
 
-export { addToTransactionPool, getTransactionPool, updateTransactionPool };
+/**
+ * Removes the transactions whose inputs are no longer spendable after the blockchain changed,
+ * because they were mined or a mined transaction spent the same outputs.
+ *
+ * Transactions spending the outputs of pooled transactions are checked again once those are
+ * removed: they stay if their parent was mined, as its outputs are now confirmed, and go if
+ * their parent was dropped.
+ *
+ * @param unspentTxOuts The set of unspent transaction outputs of the new tip.
+ * @param context The block following the new tip.
+ */
+const updateTransactionPool = (unspentTxOuts: UnspentTxOutSet, context: LockContext) => {
+	for (;;) {
+		const poolTxOuts = getPoolTxOuts(unspentTxOuts);
+		const invalidTxs = transactionPool.filter(
+			(entry) => !isValidInNextBlock(entry, poolTxOuts, context)
+		);
+
+		if (invalidTxs.length === 0) return;
+
+		console.log(
+			'Removing the following transactions from txPool:',
+			JSON.stringify(invalidTxs.map((entry) => entry.transaction))
+		);
+		transactionPool = transactionPool.filter((entry) => !invalidTxs.includes(entry));
+	}
+};
+
+export {
+	TransactionPoolStats,
+	TransactionPoolEntry,
+	FeeRateBucket,
+	initTransactionPool,
+	addToTransactionPool,
+	getTransactionPool,
+	getTransactionPoolEntries,
+	expireTransactions,
+	takeTransactionsToRebroadcast,
+	getTransactionsByFeeRate,
+	getTransactionPoolStats,
+	updateTransactionPool,
+};
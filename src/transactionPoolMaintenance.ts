@@ -0,0 +1,43 @@
+import { broadcastTransactions, getSockets } from './p2p';
+import { expireTransactions, takeTransactionsToRebroadcast } from './transactionPool';
+
+const MAINTENANCE_INTERVAL = 10 * 1000; // Time between two checks of the transaction pool, in milliseconds
+const DEFAULT_REBROADCAST_INTERVAL = 10 * 60 * 1000; // Time between two broadcasts of a pending transaction, in milliseconds
+
+// Timer of the maintenance, null when stopped
+let timer: NodeJS.Timeout | null = null;
+let rebroadcastInterval = DEFAULT_REBROADCAST_INTERVAL;
+
+/**
+ * Starts maintaining the transaction pool in the background. On every check, transactions past
+ * their expiry are dropped, and the unconfirmed transactions sent from the wallet are broadcast
+ * again to the peers, in case a peer missed them.
+ *
+ * @param interval The time between two broadcasts of a pending transaction, in milliseconds.
+ */
+const startTransactionPoolMaintenance = ({ interval }: { interval?: number } = {}) => {
+	if (interval !== undefined && Number.isFinite(interval) && interval > 0)
+		rebroadcastInterval = interval;
+
+	if (timer) return;
+
+	timer = setInterval(maintainTransactionPool, MAINTENANCE_INTERVAL);
+};
+
+/**
+ * Drops the expired transactions and rebroadcasts the pending wallet transactions. Nothing is
+ * rebroadcast without peers, so the count only grows with broadcasts that were sent.
+ */
+const maintainTransactionPool = () => {
+	expireTransactions();
+
+	if (getSockets().length === 0) return;
+
+	const transactions = takeTransactionsToRebroadcast({ interval: rebroadcastInterval });
+	if (transactions.length === 0) return;
+
+	console.log(`\nRebroadcasting ${transactions.length} pending wallet transaction(s)`);
+	broadcastTransactions(transactions);
+};
+
+export { startTransactionPoolMaintenance };
@@ -0,0 +1,207 @@
+import { UnspentTxOut } from './transaction';
+
+interface Outpoint {
+	txOutId: string; // Transaction ID of the transaction holding the output
+	txOutIndex: number; // Index of the output in that transaction
+}
+
+/**
+ * Builds the key identifying an output.
+ *
+ * @param txOutId The transaction ID of the transaction holding the output.
+ * @param txOutIndex The index of the output in that transaction.
+ *
+ * @returns The key in the form `txOutId:txOutIndex`.
+ */
+const getOutpointKey = ({ txOutId, txOutIndex }: Outpoint): string => {
+	return `${txOutId}:${txOutIndex}`;
+};
+
+/**
+ * Set of unspent transaction outputs, indexed by outpoint and by address.
+ *
+ * Lookups by outpoint, membership checks and balances are constant time. Listing the outputs
+ * of an address only costs as much as the number of outputs the address holds.
+ */
+class UnspentTxOutSet {
+	private readonly outputs = new Map<string, UnspentTxOut>();
+	private readonly outputsByAddress = new Map<string, Map<string, UnspentTxOut>>();
+	private readonly balances = new Map<string, number>();
+	private total = 0;
+
+	/**
+	 * Creates a set holding the given unspent transaction outputs.
+	 *
+	 * @param unspentTxOuts The initial unspent transaction outputs.
+	 */
+	constructor(unspentTxOuts: UnspentTxOut[] = []) {
+		unspentTxOuts.forEach((uTxO) => this.add(uTxO));
+	}
+
+	/**
+	 * Number of unspent transaction outputs in the set.
+	 */
+	get size(): number {
+		return this.outputs.size;
+	}
+
+	/**
+	 * Finds the unspent transaction output at an outpoint.
+	 *
+	 * @param outpoint The transaction ID and output index to look up.
+	 *
+	 * @returns The unspent transaction output, or undefined if it is not in the set.
+	 */
+	get(outpoint: Outpoint): UnspentTxOut | undefined {
+		return this.outputs.get(getOutpointKey(outpoint));
+	}
+
+	/**
+	 * Checks whether the output at an outpoint is unspent.
+	 *
+	 * @param outpoint The transaction ID and output index to look up.
+	 *
+	 * @returns Whether the output is in the set.
+	 */
+	has(outpoint: Outpoint): boolean {
+		return this.outputs.has(getOutpointKey(outpoint));
+	}
+
+	/**
+	 * Adds an unspent transaction output, replacing any output at the same outpoint.
+	 *
+	 * @param unspentTxOut The unspent transaction output to add.
+	 */
+	add(unspentTxOut: UnspentTxOut): void {
+		this.delete(unspentTxOut);
+
+		const key = getOutpointKey(unspentTxOut);
+
+		this.outputs.set(key, unspentTxOut);
+
+		if (!this.outputsByAddress.has(unspentTxOut.address))
+			this.outputsByAddress.set(unspentTxOut.address, new Map());
+
+		this.outputsByAddress.get(unspentTxOut.address)!.set(key, unspentTxOut);
+
+		this.balances.set(
+			unspentTxOut.address,
+			this.getBalance(unspentTxOut.address) + unspentTxOut.amount
+		);
+		this.total += unspentTxOut.amount;
+	}
+
+	/**
+	 * Removes the unspent transaction output at an outpoint.
+	 *
+	 * @param outpoint The transaction ID and output index to remove.
+	 *
+	 * @returns The removed output, or undefined if it was not in the set.
+	 */
+	delete(outpoint: Outpoint): UnspentTxOut | undefined {
+		const key = getOutpointKey(outpoint);
+		const unspentTxOut = this.outputs.get(key);
+
+		if (!unspentTxOut) return undefined;
+
+		this.outputs.delete(key);
+		this.total -= unspentTxOut.amount;
+
+		const addressOutputs = this.outputsByAddress.get(unspentTxOut.address)!;
+		addressOutputs.delete(key);
+
+		// Drop empty address entries so the indexes do not grow with spent addresses
+		if (addressOutputs.size === 0) {
+			this.outputsByAddress.delete(unspentTxOut.address);
+			this.balances.delete(unspentTxOut.address);
+		} else {
+			this.balances.set(
+				unspentTxOut.address,
+				this.getBalance(unspentTxOut.address) - unspentTxOut.amount
+			);
+		}
+
+		return unspentTxOut;
+	}
+
+	/**
+	 * Lists the unspent transaction outputs sent to an address.
+	 *
+	 * @param address The address to look up.
+	 *
+	 * @returns The unspent transaction outputs of the address.
+	 */
+	findByAddress(address: string): UnspentTxOut[] {
+		return Array.from(this.outputsByAddress.get(address)?.values() ?? []);
+	}
+
+	/**
+	 * Retrieves the total amount of the unspent transaction outputs sent to an address.
+	 *
+	 * @param address The address to look up.
+	 *
+	 * @returns The balance of the address.
+	 */
+	getBalance(address: string): number {
+		return this.balances.get(address) ?? 0;
+	}
+
+	/**
+	 * Retrieves the total amount of the unspent transaction outputs in the set.
+	 *
+	 * @returns The total amount.
+	 */
+	getTotalAmount(): number {
+		return this.total;
+	}
+
+	/**
+	 * Lists every unspent transaction output in the set.
+	 *
+	 * @returns The unspent transaction outputs, in insertion order.
+	 */
+	toArray(): UnspentTxOut[] {
+		return Array.from(this.outputs.values());
+	}
+
+	/**
+	 * Creates an independent copy of the set. Outputs are immutable, so they are shared.
+	 *
+	 * @returns The copy of the set.
+	 */
+	clone(): UnspentTxOutSet {
+		return new UnspentTxOutSet(this.toArray());
+	}
+}
+
+/**
+ * Set of unspent transaction outputs extending a base set with outputs that are not confirmed,
+ * such as the outputs of pooled transactions or of earlier transactions in the same block.
+ *
+ * Lookups by outpoint fall back to the base set, which is never modified: deleting an output
+ * of the base set does nothing. Listings and balances only cover the outputs of the overlay.
+ */
+class UnspentTxOutOverlay extends UnspentTxOutSet {
+	private readonly base: UnspentTxOutSet;
+
+	/**
+	 * Creates an overlay on a set of unspent transaction outputs.
+	 *
+	 * @param base The set of unspent transaction outputs to extend.
+	 * @param unspentTxOuts The initial unspent transaction outputs of the overlay.
+	 */
+	constructor(base: UnspentTxOutSet, unspentTxOuts: UnspentTxOut[] = []) {
+		super(unspentTxOuts);
+		this.base = base;
+	}
+
+	get(outpoint: Outpoint): UnspentTxOut | undefined {
+		return super.get(outpoint) ?? this.base.get(outpoint);
+	}
+
+	has(outpoint: Outpoint): boolean {
+		return super.has(outpoint) || this.base.has(outpoint);
+	}
+}
+
+export { Outpoint, UnspentTxOutSet, UnspentTxOutOverlay, getOutpointKey };
@@ -3,14 +3,25 @@ import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
 import {
 	getPublicKey,
 	getTransactionId,
+	getTransactionSize,
+	isMatureTxOut,
 	signTxIn,
+	signTxInWitness,
 	Transaction,
 	TxIn,
 	TxOut,
 	UnspentTxOut,
 } from './transaction';
+import { getOutpointKey, UnspentTxOutOverlay, UnspentTxOutSet } from './unspentTxOutSet';
+import { Condition, getConditionHashes, getPreimageHash } from './conditions';
 
 const EC = new ec('secp256k1');
+
+interface Payment {
+	address: string; // Address the amount is sent to
+	amount: number; // Amount sent, in Satoshis
+	condition?: Condition; // Condition locking the amount, the address being the address of the condition
+}
 const privateKeyLocation = process.env.PRIVATE_KEY || 'wallet/private_key';
 
 const getPrivateFromWallet = (): string => {
@@ -30,8 +41,14 @@ const generatePrivateKey = (): string => {
 	return privateKey.toString(16);
 };
 
+/**
+ * Creates the wallet unless it exists already, so the key receiving the block rewards, and
+ * the mining pool payouts, survives restarts.
+ */
 const initWallet = () => {
-	if (!existsSync(privateKeyLocation)) console.log('No wallet found');
+	if (existsSync(privateKeyLocation)) return;
+
+	console.log('No wallet found');
 	const newPrivateKey = generatePrivateKey();
 	writeFileSync(privateKeyLocation, newPrivateKey);
 	console.log('New wallet with private key created');
@@ -41,16 +58,53 @@ const deleteWallet = () => {
 	if (existsSync(privateKeyLocation)) unlinkSync(privateKeyLocation);
 };
 
+/**
+ * Computes the spendable balance of an address: the amount of its unspent transaction outputs,
+ * leaving out the coinbase outputs not mature yet.
+ *
+ * @param address The address.
+ * @param unspentTxOuts The set of unspent transaction outputs.
+ * @param height The index of the next block, which the coinbase maturity is checked against.
+ *
+ * @returns The spendable balance.
+ */
 const getBalance = ({
 	address,
 	unspentTxOuts,
+	height,
 }: {
 	address: string;
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
+	height: number;
+}): number => {
+	return (
+		unspentTxOuts.getBalance(address) - getImmatureBalance({ address, unspentTxOuts, height })
+	);
+};
+
+/**
+ * Computes the immature balance of an address: the amount of its coinbase outputs that may not
+ * be spent yet.
+ *
+ * @param address The address.
+ * @param unspentTxOuts The set of unspent transaction outputs.
+ * @param height The index of the next block, which the coinbase maturity is checked against.
+ *
+ * @returns The immature balance.
+ */
+const getImmatureBalance = ({
+	address,
+	unspentTxOuts,
+	height,
+}: {
+	address: string;
+	unspentTxOuts: UnspentTxOutSet;
+	height: number;
 }): number => {
-	return findUnspentTxOuts({ address, unspentTxOuts })
-		.filter((uTxO) => uTxO.address === address)
-		.reduce((sum, uTxO) => sum + uTxO.amount, 0);
+	return unspentTxOuts
+		.findByAddress(address)
+		.filter((unspentTxOut) => !isMatureTxOut({ unspentTxOut, height }))
+		.reduce((sum, unspentTxOut) => sum + unspentTxOut.amount, 0);
 };
 
 const findUnspentTxOuts = ({
@@ -58,9 +112,9 @@ const findUnspentTxOuts = ({
 	unspentTxOuts,
 }: {
 	address: string;
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
 }): UnspentTxOut[] => {
-	return unspentTxOuts.filter((uTxO) => uTxO.address === address);
+	return unspentTxOuts.findByAddress(address);
 };
 
 const findTxOutsForAmount = ({
@@ -87,20 +141,20 @@ const findTxOutsForAmount = ({
 };
 
 const createTxOuts = ({
-	receiverAddress,
+	payments,
 	myAddress,
-	amount,
 	leftOverAmount,
 }: {
-	receiverAddress: string;
+	payments: Payment[];
 	myAddress: string;
-	amount: number;
 	leftOverAmount: number;
 }) => {
-	const txOut1 = new TxOut({ address: receiverAddress, amount });
+	const txOuts = payments.map(
+		({ address, amount, condition }) => new TxOut({ address, amount, condition })
+	);
 	return leftOverAmount === 0
-		? [txOut1]
-		: [txOut1, new TxOut({ address: myAddress, amount: leftOverAmount })];
+		? txOuts
+		: [...txOuts, new TxOut({ address: myAddress, amount: leftOverAmount })];
 };
 
 const createTransaction = ({
@@ -109,24 +163,176 @@ const createTransaction = ({
 	privateKey,
 	transactionPool,
 	unspentTxOuts,
+	fee,
+	feeRate,
+	replaceable,
+	spendUnconfirmed,
+	height,
 }: {
 	receiverAddress: string;
 	amount: number;
 	privateKey: string;
 	transactionPool: Transaction[];
-	unspentTxOuts: UnspentTxOut[];
+	unspentTxOuts: UnspentTxOutSet;
+	fee?: number;
+	feeRate?: number;
+	replaceable?: boolean;
+	spendUnconfirmed?: boolean;
+	height: number;
 }): Transaction => {
+	return createPaymentTransaction({
+		payments: [{ address: receiverAddress, amount }],
+		privateKey,
+		transactionPool,
+		unspentTxOuts,
+		height,
+		fee,
+		feeRate,
+		replaceable,
+		spendUnconfirmed,
+	});
+};
+
+/**
+ * Creates a transaction paying several addresses at once, one output per payment, followed by
+ * the change sent back to the wallet.
+ *
+ * The fee is left out of the outputs for the miner to collect. It is either given as is, or
+ * computed from a fee rate and the size of the signed transaction, which is rebuilt until the
+ * fee covers the inputs it needs.
+ *
+ * @param payments The addresses to pay and their amounts.
+ * @param privateKey The private key the inputs are signed with.
+ * @param transactionPool The transaction pool, whose spent outputs are not used again.
+ * @param unspentTxOuts The set of unspent transaction outputs.
+ * @param height The index of the block the transaction is meant for, coinbase outputs not mature
+ * by then are not spent.
+ * @param fee The fee paid to the miner, 0 by default.
+ * @param feeRate The fee paid per byte of the transaction, rounded up, instead of a set fee.
+ * @param replaceable Whether the transaction signals replace-by-fee, so it can be replaced in the
+ * pool by a conflicting transaction paying more.
+ * @param inputs Outputs of the wallet spent before any other, even if spent in the pool, such as
+ * the inputs of a pooled transaction being replaced.
+ * @param spendUnconfirmed Whether the change of pooled wallet transactions may be spent once the
+ * confirmed outputs run short, chaining the transaction to them.
+ *
+ * @returns The signed transaction.
+ *
+ * @throws {Error} If there are no payments, an amount is not positive, the fee is invalid or the
+ * funds are short.
+ */
+const createPaymentTransaction = ({
+	payments,
+	privateKey,
+	transactionPool,
+	unspentTxOuts,
+	height,
+	fee,
+	feeRate,
+	replaceable = false,
+	inputs = [],
+	spendUnconfirmed = false,
+}: {
+	payments: Payment[];
+	privateKey: string;
+	transactionPool: Transaction[];
+	unspentTxOuts: UnspentTxOutSet;
+	height: number;
+	fee?: number;
+	feeRate?: number;
+	replaceable?: boolean;
+	inputs?: UnspentTxOut[];
+	spendUnconfirmed?: boolean;
+}): Transaction => {
+	if (payments.length === 0) throw new Error('No payments to send');
+
+	if (payments.some(({ amount }) => typeof amount !== 'number' || !(amount > 0)))
+		throw new Error('Payment amounts must be positive numbers');
+
+	if (fee !== undefined && feeRate !== undefined)
+		throw new Error('Set either a fee or a fee rate, not both');
+
+	if ([fee, feeRate].some((value) => value !== undefined && !isValidFee(value)))
+		throw new Error('Fees must be non-negative numbers');
+
+	let currentFee = fee ?? 0;
+
+	for (;;) {
+		const transaction = buildPaymentTransaction({
+			payments,
+			fee: currentFee,
+			privateKey,
+			transactionPool,
+			unspentTxOuts,
+			height,
+			replaceable,
+			inputs,
+			spendUnconfirmed,
+		});
+
+		if (feeRate === undefined) return transaction;
+
+		// The fee grows with every rebuild, until it covers the size or the funds run short
+		const requiredFee = Math.ceil(feeRate * getTransactionSize({ transaction }));
+		if (requiredFee <= currentFee) return transaction;
+
+		currentFee = requiredFee;
+	}
+};
+
+const isValidFee = (fee: unknown): boolean => {
+	return typeof fee === 'number' && Number.isFinite(fee) && fee >= 0;
+};
+
+const buildPaymentTransaction = ({
+	payments,
+	fee,
+	privateKey,
+	transactionPool,
+	unspentTxOuts,
+	height,
+	replaceable,
+	inputs,
+	spendUnconfirmed,
+}: {
+	payments: Payment[];
+	fee: number;
+	privateKey: string;
+	transactionPool: Transaction[];
+	unspentTxOuts: UnspentTxOutSet;
+	height: number;
+	replaceable: boolean;
+	inputs: UnspentTxOut[];
+	spendUnconfirmed: boolean;
+}): Transaction => {
+	const amount = payments.reduce((sum, payment) => sum + payment.amount, fee);
+
 	const myAddress = getPublicKey({ privateKey });
-	const myUnspentTxOuts = unspentTxOuts.filter((uTxO) => uTxO.address === myAddress);
+	const unconfirmedTxOuts = spendUnconfirmed
+		? findUnconfirmedChange({ address: myAddress, transactionPool, unspentTxOuts })
+		: [];
+	const myUnspentTxOuts = [
+		...unspentTxOuts
+			.findByAddress(myAddress)
+			.filter((unspentTxOut) => isMatureTxOut({ unspentTxOut, height })),
+		...unconfirmedTxOuts,
+	];
+	const spendableTxOuts = new UnspentTxOutOverlay(unspentTxOuts, unconfirmedTxOuts);
 
 	const myUnspentTxOutsInPool = filterTxPoolTxs({
 		unspentTxOuts: myUnspentTxOuts,
 		transactionPool,
 	});
 
+	// Spend the required outputs first, then the free outputs of the wallet
+	const inputKeys = new Set(inputs.map(getOutpointKey));
+
 	const { includedUnspentTxOuts, leftOverAmount } = findTxOutsForAmount({
 		amount,
-		myUnspentTxOuts: myUnspentTxOutsInPool,
+		myUnspentTxOuts: [
+			...inputs,
+			...myUnspentTxOutsInPool.filter((uTxO) => !inputKeys.has(getOutpointKey(uTxO))),
+		],
 	});
 
 	const toUnsignedTxIn = (unspentTxOut: UnspentTxOut) => {
@@ -140,7 +346,8 @@ const createTransaction = ({
 
 	const transaction = new Transaction();
 	transaction.txIns = unsignedTxIns;
-	transaction.txOuts = createTxOuts({ receiverAddress, myAddress, amount, leftOverAmount });
+	transaction.txOuts = createTxOuts({ payments, myAddress, leftOverAmount });
+	if (replaceable) transaction.replaceable = true;
 	transaction.id = getTransactionId({ transaction });
 
 	transaction.txIns = transaction.txIns.map((txIn, index) => {
@@ -148,10 +355,164 @@ const createTransaction = ({
 			transaction,
 			txInIndex: index,
 			privateKey,
-			unspentTxOuts,
+			unspentTxOuts: spendableTxOuts,
+		});
+		return txIn;
+	});
+
+	return transaction;
+};
+
+/**
+ * Finds the change of the pooled wallet transactions: the outputs paying the wallet from
+ * transactions spending only outputs of the wallet, confirmed or themselves change.
+ *
+ * @param address The address of the wallet.
+ * @param transactionPool The transaction pool.
+ * @param unspentTxOuts The set of unspent transaction outputs.
+ *
+ * @returns The unconfirmed change, in pool order.
+ */
+const findUnconfirmedChange = ({
+	address,
+	transactionPool,
+	unspentTxOuts,
+}: {
+	address: string;
+	transactionPool: Transaction[];
+	unspentTxOuts: UnspentTxOutSet;
+}): UnspentTxOut[] => {
+	const change = new UnspentTxOutOverlay(unspentTxOuts);
+
+	// The pool is in dependency order, so the change a transaction spends is already known
+	for (const transaction of transactionPool) {
+		if (!transaction.txIns.every((txIn) => change.get(txIn)?.address === address)) continue;
+
+		transaction.txOuts.forEach((txOut, txOutIndex) => {
+			if (txOut.address === address)
+				change.add(
+					new UnspentTxOut({
+						txOutId: transaction.id,
+						txOutIndex,
+						address,
+						amount: txOut.amount,
+					})
+				);
 		});
+	}
+
+	return change.findByAddress(address);
+};
+
+/**
+ * Creates a transaction spending outputs locked with conditions and paying their value, less
+ * the fee, to an address. The transaction is unsigned: every party the conditions require
+ * adds its signature to the witnesses with `signWitnesses`, each on its own node.
+ *
+ * @param inputs The locked outputs spent.
+ * @param address The address paid.
+ * @param fee The fee paid to the miner, 0 by default.
+ *
+ * @returns The transaction, with empty witnesses.
+ *
+ * @throws {Error} If an output is not locked with a condition, or the fee exceeds their value.
+ */
+const createConditionSpendTransaction = ({
+	inputs,
+	address,
+	fee = 0,
+}: {
+	inputs: UnspentTxOut[];
+	address: string;
+	fee?: number;
+}): Transaction => {
+	if (inputs.length === 0) throw new Error('No outputs to spend');
+
+	if (inputs.some((uTxO) => !uTxO.condition))
+		throw new Error('Outputs must be locked with a condition');
+
+	if (!isValidFee(fee)) throw new Error('Fees must be non-negative numbers');
+
+	const amount = inputs.reduce((sum, uTxO) => sum + uTxO.amount, 0) - fee;
+	if (!(amount > 0)) throw new Error('Fee must be lower than the value of the outputs');
+
+	const transaction = new Transaction();
+	transaction.txIns = inputs.map((uTxO) => {
+		const txIn = new TxIn();
+		txIn.txOutId = uTxO.txOutId;
+		txIn.txOutIndex = uTxO.txOutIndex;
+		txIn.signature = '';
+		txIn.witness = { signatures: [] };
 		return txIn;
 	});
+	transaction.txOuts = [new TxOut({ address, amount })];
+	transaction.id = getTransactionId({ transaction });
+
+	return transaction;
+};
+
+/**
+ * Adds the signature of a private key to the witness of every input whose condition accepts
+ * it, and a hash lock preimage to the witness of every input whose condition expects it.
+ *
+ * @param transaction The transaction, updated in place.
+ * @param privateKey The private key signing the inputs.
+ * @param unspentTxOuts The set of unspent transaction outputs the inputs spend.
+ * @param preimage The preimage of a hash lock, in hex.
+ * @param sighashType The parts of the transaction the signatures commit to, ALL by default.
+ *
+ * @returns The transaction.
+ *
+ * @throws {Error} If neither a signature nor the preimage could be added to any input.
+ */
+const signWitnesses = ({
+	transaction,
+	privateKey,
+	unspentTxOuts,
+	preimage,
+	sighashType,
+}: {
+	transaction: Transaction;
+	privateKey: string;
+	unspentTxOuts: UnspentTxOutSet;
+	preimage?: string;
+	sighashType?: number;
+}): Transaction => {
+	const hash = preimage !== undefined ? getPreimageHash({ preimage }) : undefined;
+	let signed = 0;
+
+	transaction.txIns.forEach((txIn, txInIndex) => {
+		const condition = unspentTxOuts.get(txIn)?.condition;
+		if (!condition) return;
+
+		const witness = txIn.witness ?? { signatures: [] };
+
+		try {
+			const signature = signTxInWitness({
+				transaction,
+				txInIndex,
+				privateKey,
+				unspentTxOuts,
+				sighashType,
+			});
+
+			if (!witness.signatures.includes(signature)) {
+				witness.signatures.push(signature);
+				signed++;
+			}
+		} catch {
+			// The condition does not accept the private key, the input may still take the preimage
+		}
+
+		if (hash !== undefined && getConditionHashes({ condition }).includes(hash)) {
+			witness.preimage = preimage;
+			signed++;
+		}
+
+		txIn.witness = witness;
+	});
+
+	if (signed === 0) throw new Error('No input of the transaction could be signed');
 
 	return transaction;
 };
@@ -163,26 +524,25 @@ const filterTxPoolTxs = ({
 	unspentTxOuts: UnspentTxOut[];
 	transactionPool: Transaction[];
 }): UnspentTxOut[] => {
-	// Flatten all txIns from the transaction pool
-	const txIns: TxIn[] = transactionPool.flatMap((transaction) => transaction.txIns);
-
-	// Find all removable unspentTxOuts
-	const removable: UnspentTxOut[] = unspentTxOuts.filter((unspentTxOut) =>
-		txIns.some(
-			(txIn) =>
-				txIn.txOutIndex === unspentTxOut.txOutIndex && txIn.txOutId === unspentTxOut.txOutId
-		)
+	// Outpoints of all txIns from the transaction pool
+	const spentInPool = new Set(
+		transactionPool.flatMap((transaction) => transaction.txIns).map(getOutpointKey)
 	);
 
-	// Return unspentTxOuts excluding those in removable
-	return unspentTxOuts.filter((uTxO) => !removable.includes(uTxO));
+	// Return unspentTxOuts excluding those spent in the pool
+	return unspentTxOuts.filter((uTxO) => !spentInPool.has(getOutpointKey(uTxO)));
 };
 
 export {
+	Payment,
 	createTransaction,
+	createPaymentTransaction,
+	createConditionSpendTransaction,
+	signWitnesses,
 	getPublicFromWallet,
 	getPrivateFromWallet,
 	getBalance,
+	getImmatureBalance,
 	generatePrivateKey,
 	initWallet,
 	deleteWallet,